@@ -0,0 +1,30 @@
+#!/usr/bin/env node
+/**
+ * Compile the SIMD kernels in src/wasm/kernels.wat and embed the binary as
+ * base64 in src/wasm/kernels.ts, so it loads synchronously in workers and tests
+ * without a separate fetch.
+ *
+ * Usage:
+ *     npm run build:wasm
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import wabt from 'wabt';
+
+const SOURCE = fileURLToPath(new URL('../src/wasm/kernels.wat', import.meta.url));
+const OUTPUT = fileURLToPath(new URL('../src/wasm/kernels.ts', import.meta.url));
+
+const { parseWat } = await wabt();
+const module = parseWat('kernels.wat', readFileSync(SOURCE, 'utf8'), { simd: true });
+module.validate();
+const { buffer } = module.toBinary({});
+module.destroy();
+
+const base64 = Buffer.from(buffer).toString('base64');
+writeFileSync(
+  OUTPUT,
+  `// Generated from kernels.wat by scripts/build-wasm.mjs - do not edit.\n` +
+  `export const KERNELS_WASM_BASE64 =\n  '${base64}';\n`
+);
+console.log(`Wrote ${OUTPUT} (${buffer.length} bytes)`);
@@ -1,17 +1,18 @@
 #!/usr/bin/env python3
 """
-Filter the AEF parquet index to only include 2024 data.
-This reduces the file size from ~60 MB to ~15-20 MB.
+Slim the AEF parquet index down to the columns the app reads, keeping every year.
+Dropping the unused columns keeps the bundled index small enough to load quickly.
 
 Usage:
     pip install pyarrow requests
     python scripts/filter-parquet.py
 
 Output:
-    Creates aef_index_2024.parquet in the current directory.
-    Move to public/ for deployment: mv aef_index_2024.parquet public/
+    Creates aef_index.parquet in the current directory.
+    Move to public/ for deployment: mv aef_index.parquet public/
 """
 
+import pyarrow as pa
 import pyarrow.parquet as pq
 import pyarrow.compute as pc
 import requests
@@ -19,8 +20,15 @@ import tempfile
 import os
 
 SOURCE_URL = "https://data.source.coop/tge-labs/aef/v1/annual/aef_index.parquet"
-OUTPUT_FILE = "aef_index_2024.parquet"
-TARGET_YEAR = 2024  # int64 in the parquet file
+OUTPUT_FILE = "aef_index.parquet"
+YEARS = range(2018, 2025)  # int64 in the parquet file
+
+# Columns read by fetchParquetIndex in src/utils/dataSource.ts
+COLUMNS = [
+    "crs", "path", "year", "utm_zone",
+    "utm_west", "utm_south", "utm_east", "utm_north",
+    "wgs84_west", "wgs84_south", "wgs84_east", "wgs84_north",
+]
 
 
 def download_file(url: str, dest: str) -> None:
@@ -59,9 +67,12 @@ def main():
 
         print(f"Original: {original_rows:,} rows, {original_size / 1024 / 1024:.1f} MB")
 
-        # Filter to target year
-        print(f"\nFiltering to year {TARGET_YEAR}...")
-        filtered = table.filter(pc.equal(table.column('year'), TARGET_YEAR))
+        # Keep only the columns the app needs, for every supported year
+        print(f"\nFiltering to years {YEARS.start}-{YEARS.stop - 1}...")
+        selected = table.select(COLUMNS)
+        filtered = selected.filter(
+            pc.is_in(selected.column('year'), value_set=pa.array(list(YEARS), type=pa.int64()))
+        )
         filtered_rows = filtered.num_rows
 
         print(f"Filtered: {filtered_rows:,} rows")
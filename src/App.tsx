@@ -6,12 +6,18 @@ import InfoWidget from './components/InfoWidget'
 import ReferenceMarker from './components/ReferenceMarker'
 import ResultsOverlay from './components/ResultsOverlay'
 import HoverTooltip from './components/HoverTooltip'
+import CacheSettings from './components/CacheSettings'
+import FileDropZone from './components/FileDropZone'
 import { useBoundingBox } from './hooks/useBoundingBox'
 import { useCOGLoader } from './hooks/useCOGLoader'
 import { useSimilarity } from './hooks/useSimilarity'
 import { useDebounce } from './hooks/useDebounce'
 import { useWizard } from './hooks/useWizard'
-import type { BoundingBox, HoverInfo } from './types'
+import { useRefinement } from './hooks/useRefinement'
+import { useCoverage } from './hooks/useCoverage'
+import { METRIC_LABELS } from './utils/similarity'
+import { isAbortError } from './utils/abort'
+import type { BoundingBox, ClickAction, EmbeddingData, HoverInfo, LoadEstimate, PixelTimeSeries, ReferenceShape, SelectionCoverage } from './types'
 
 function App() {
   const mapRef = useRef<maplibregl.Map | null>(null)
@@ -22,9 +28,13 @@ function App() {
     state: wizardState,
     setMode,
     setSize,
+    setYear,
+    setAnalysisMode,
+    setCompareYear,
     areaSelected,
     loadingStarted,
     dataLoaded,
+    loadFailed,
     referenceSelected,
     setError,
     clearError,
@@ -37,6 +47,31 @@ function App() {
   const [opacity, setOpacity] = useState(0.8)
   const [hoverInfo, setHoverInfo] = useState<HoverInfo | null>(null)
 
+  // Time series of the pixel being inspected in step 4
+  const [inspectedSeries, setInspectedSeries] = useState<PixelTimeSeries | null>(null)
+  const [isInspecting, setIsInspecting] = useState(false)
+  // Aborts the inspection in progress when superseded or cleared
+  const inspectAbortRef = useRef<AbortController | null>(null)
+
+  // Whether the first reference is a clicked pixel or a drawn region
+  const [referenceShape, setReferenceShape] = useState<ReferenceShape>('pixel')
+
+  // Whether clicking the map in step 4 adds a reference or inspects a pixel
+  const [clickAction, setClickAction] = useState<ClickAction>('reference')
+
+  // Download size of the selection, worked out in step 2 before loading
+  const [loadEstimate, setLoadEstimate] = useState<LoadEstimate | null>(null)
+  const [isEstimating, setIsEstimating] = useState(false)
+
+  // Which years cover the selection, checked against the tile index in step 1
+  const [selectionCoverage, setSelectionCoverage] = useState<SelectionCoverage | null>(null)
+  const coverageRequestRef = useRef(0)
+
+  // Whether coarse (overview) results are refined at full resolution
+  const [refineEnabled, setRefineEnabled] = useState(true)
+  // Embeddings loaded from a dropped GeoTIFF rather than the COGs
+  const [isLocalFile, setIsLocalFile] = useState(false)
+
   // Debounce threshold to avoid excessive re-renders during slider drag
   const debouncedThreshold = useDebounce(threshold, 50)
 
@@ -48,34 +83,133 @@ function App() {
 
   const {
     loadEmbeddings,
+    loadWindow,
+    loadFile,
+    cancelLoad,
+    estimateLoad,
     embeddingData,
+    comparisonData,
     currentTile,
     loadingProgress,
     isLoading,
     clearEmbeddings,
+    loadPixelTimeSeries,
   } = useCOGLoader()
 
+  const { coverage, checkSelection } = useCoverage()
+
   const {
-    referencePixel,
+    referencePixels,
     similarityResult,
+    aggregation,
+    setAggregation,
+    metric,
+    setMetric,
+    hasReferenceRegion,
+    negativeMode,
+    setNegativeMode,
+    negativeWeight,
+    setNegativeWeight,
+    query,
     selectReferencePixel,
+    selectReferenceRegion,
+    removeReferencePixel,
+    calculateChange,
     clearReference,
     initWorker,
+    updateWorker,
+    scoreWindow,
   } = useSimilarity()
 
+  const { refinedResults, refinementProgress, canRefine } = useRefinement({
+    similarityResult,
+    query,
+    embeddingData,
+    // Wait until the whole selection has streamed in; local files have no COGs to refine from
+    enabled: refineEnabled && !isLoading && !isLocalFile,
+    loadWindow,
+    scoreWindow,
+  })
+
+  // Embeddings the current change map was requested for, so it runs once per load
+  const changeRequestedForRef = useRef<EmbeddingData | null>(null)
+
   // Initialize worker when embeddings are loaded
   useEffect(() => {
     if (embeddingData) {
-      initWorker(embeddingData)
+      initWorker(embeddingData, comparisonData)
+    }
+  }, [embeddingData, comparisonData, initWorker])
+
+  // Estimate the download for the selection and years picked in step 2
+  useEffect(() => {
+    setLoadEstimate(null)
+    if (wizardState.step !== 2 || !boundingBox) {
+      setIsEstimating(false)
+      return
     }
-  }, [embeddingData, initWorker])
+
+    const controller = new AbortController()
+    setIsEstimating(true)
+    estimateLoad(
+      boundingBox,
+      wizardState.year,
+      wizardState.analysisMode === 'change' ? wizardState.compareYear : undefined,
+      controller.signal
+    )
+      .then(setLoadEstimate)
+      .catch((error) => {
+        // Loading reports real problems; the estimate just stays blank
+        if (!isAbortError(error)) {
+          console.warn('Load estimate failed:', error)
+        }
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) {
+          setIsEstimating(false)
+        }
+      })
+
+    return () => controller.abort()
+  }, [wizardState.step, wizardState.year, wizardState.analysisMode, wizardState.compareYear, boundingBox, estimateLoad])
+
+  // Change detection needs no reference pixel: compute as soon as both years are loaded
+  useEffect(() => {
+    if (
+      wizardState.analysisMode !== 'change' ||
+      wizardState.step !== 4 ||
+      !embeddingData ||
+      !comparisonData ||
+      changeRequestedForRef.current === embeddingData
+    ) {
+      return
+    }
+
+    changeRequestedForRef.current = embeddingData
+    const result = calculateChange(embeddingData)
+    if (!result.success) {
+      setError(result.error || 'Failed to calculate change')
+    }
+  }, [wizardState.analysisMode, wizardState.step, embeddingData, comparisonData, calculateChange, setError])
 
   // Handle area selection (both click-to-place and draw modes)
-  const handleBoundingBoxChange = useCallback((box: BoundingBox | null) => {
+  const handleBoundingBoxChange = useCallback(async (box: BoundingBox | null) => {
     setBoundingBox(box)
     clearError()
+    // Later selections supersede coverage checks still pending
+    const requestId = ++coverageRequestRef.current
+    setSelectionCoverage(null)
 
     if (box && wizardState.step === 1) {
+      // Refuse areas no year covers; if the index can't be read, loading reports it
+      const selection = await checkSelection(box)
+      if (requestId !== coverageRequestRef.current) return
+      setSelectionCoverage(selection)
+      if (selection && Object.values(selection).every(status => status === 'none')) {
+        setError('No satellite data available for this area. Pick an area inside the shaded tiles.')
+        return
+      }
+
       // Auto-advance to step 2 when area is selected
       areaSelected()
       // Lock the drawn polygon so it can't be edited
@@ -83,54 +217,181 @@ function App() {
         drawControlsRef.current.lockDrawing()
       }
     }
-  }, [setBoundingBox, clearError, wizardState.step, wizardState.areaMode, areaSelected])
+  }, [setBoundingBox, clearError, checkSelection, setError, wizardState.step, wizardState.areaMode, areaSelected])
+
+  // Fetch a pixel's embeddings for every year at the loaded resolution;
+  // later requests supersede earlier ones
+  const inspectPixel = useCallback(async (lng: number, lat: number) => {
+    inspectAbortRef.current?.abort()
+    const controller = new AbortController()
+    inspectAbortRef.current = controller
+    setInspectedSeries(null)
+    setIsInspecting(true)
+
+    try {
+      const series = await loadPixelTimeSeries(lng, lat, embeddingData?.pixelSize, controller.signal)
+      if (!controller.signal.aborted) {
+        setInspectedSeries(series)
+      }
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        setError(error instanceof Error ? error.message : 'Failed to load pixel time series')
+      }
+    } finally {
+      if (!controller.signal.aborted) {
+        inspectAbortRef.current = null
+        setIsInspecting(false)
+      }
+    }
+  }, [embeddingData, loadPixelTimeSeries, setError])
+
+  const clearInspection = useCallback(() => {
+    inspectAbortRef.current?.abort()
+    inspectAbortRef.current = null
+    setInspectedSeries(null)
+    setIsInspecting(false)
+  }, [])
 
   // Handle loading embeddings
   const handleLoadEmbeddings = useCallback(async () => {
     if (!boundingBox) return
 
+    const { analysisMode, year, compareYear } = wizardState
+    if (analysisMode === 'change' && year === compareYear) {
+      setError('Choose two different years to compare.')
+      return
+    }
+    const uncovered = (analysisMode === 'change' ? [compareYear, year] : [year])
+      .filter(y => selectionCoverage && (selectionCoverage[y] ?? 'none') === 'none')
+    if (uncovered.length > 0) {
+      setError(`No ${uncovered.join(' or ')} satellite data available for this area. Choose another year.`)
+      return
+    }
+
     loadingStarted()
+    setIsLocalFile(false)
 
+    let isReady = false
     try {
-      await loadEmbeddings(boundingBox)
-      dataLoaded()
+      // Single-year selections move on to reference selection as soon as the
+      // grid exists and fill in while the user explores
+      await loadEmbeddings(boundingBox, year, analysisMode === 'change' ? compareYear : undefined, {
+        onGridReady: () => {
+          isReady = true
+          dataLoaded()
+        },
+        onUpdate: updateWorker,
+      })
+      if (!isReady) {
+        changeRequestedForRef.current = null
+        dataLoaded()
+      }
     } catch (error) {
-      setError(error instanceof Error ? error.message : 'Failed to load embeddings')
+      // Cancelled loads stay on step 2 without an error
+      if (isAbortError(error)) return
+      const message = error instanceof Error ? error.message : 'Failed to load embeddings'
+      if (isReady) {
+        // The partial grid is gone (see useCOGLoader), and with it anything picked on it
+        clearReference()
+        clearInspection()
+        loadFailed(message)
+      } else {
+        setError(message)
+      }
     }
-  }, [boundingBox, loadEmbeddings, loadingStarted, dataLoaded, setError])
+  }, [boundingBox, wizardState, selectionCoverage, loadEmbeddings, updateWorker, loadingStarted, dataLoaded, loadFailed, clearReference, clearInspection, setError])
 
-  // Handle reference pixel selection
+  // Handle reference pixel selection (step 3, or step 4 to add more) and time series inspection
   const handleMapClick = useCallback((lng: number, lat: number) => {
-    if (!embeddingData || !currentTile || wizardState.step !== 3) return
+    if (!embeddingData || !currentTile) return
 
-    const result = selectReferencePixel(lng, lat, embeddingData, currentTile)
+    if (wizardState.step === 4 && (wizardState.analysisMode === 'change' || clickAction === 'inspect')) {
+      inspectPixel(lng, lat)
+      return
+    }
+
+    if (wizardState.step !== 3 && wizardState.step !== 4) return
+
+    const kind = wizardState.step === 4 && clickAction === 'negative' ? 'negative' : 'positive'
+    const result = selectReferencePixel(lng, lat, embeddingData, currentTile, kind)
 
     if (result.success) {
-      referenceSelected()
+      if (wizardState.step === 3) {
+        referenceSelected()
+      }
     } else {
       setError(result.error || 'Failed to select reference pixel')
     }
-  }, [embeddingData, currentTile, wizardState.step, selectReferencePixel, referenceSelected, setError])
+  }, [embeddingData, currentTile, wizardState.step, wizardState.analysisMode, clickAction, inspectPixel, selectReferencePixel, referenceSelected, setError])
 
   // Handle back button
   const handleBack = useCallback(() => {
     if (wizardState.step === 4) {
       // Go back to step 3 (select new reference)
       clearReference()
+      clearInspection()
     } else if (wizardState.step === 2) {
-      // Go back to step 1 (area selection) - clear the bounding box
+      // Go back to step 1 (area selection) - stop any load and clear the bounding box
+      cancelLoad()
       setBoundingBox(null)
     }
     back()
-  }, [wizardState.step, clearReference, setBoundingBox, back])
+  }, [wizardState.step, clearReference, clearInspection, cancelLoad, setBoundingBox, back])
+
+  // Handle a reference region drawn in step 3
+  const handleRegionDrawn = useCallback((polygon: [number, number][]) => {
+    if (!embeddingData || wizardState.step !== 3) return
+
+    const result = selectReferenceRegion(polygon, embeddingData)
+
+    if (result.success) {
+      clearError()
+      referenceSelected()
+    } else {
+      setError(result.error || 'Failed to select reference region')
+    }
+  }, [embeddingData, wizardState.step, selectReferenceRegion, referenceSelected, clearError, setError])
+
+  // Removing the last positive reference returns to reference selection
+  const handleRemoveReference = useCallback((id: number) => {
+    const positives = referencePixels.filter(ref => ref.kind === 'positive')
+    if (wizardState.step === 4 && positives.length === 1 && positives[0].id === id) {
+      handleBack()
+    } else {
+      removeReferencePixel(id)
+    }
+  }, [referencePixels, wizardState.step, handleBack, removeReferencePixel])
 
   // Handle reset (start over)
   const handleReset = useCallback(() => {
     setBoundingBox(null)
     clearReference()
+    clearInspection()
     clearEmbeddings()
+    setReferenceShape('pixel')
+    setClickAction('reference')
+    setIsLocalFile(false)
+    coverageRequestRef.current++
+    setSelectionCoverage(null)
     reset()
-  }, [setBoundingBox, clearReference, clearEmbeddings, reset])
+  }, [setBoundingBox, clearReference, clearInspection, clearEmbeddings, reset])
+
+  // Load a dropped GeoTIFF in place of a selection and go straight to picking a reference
+  const handleFileDrop = useCallback(async (file: File) => {
+    handleReset()
+
+    try {
+      const data = await loadFile(file)
+      setIsLocalFile(true)
+      setBoundingBox(data.bounds)
+      areaSelected()
+      changeRequestedForRef.current = null
+      dataLoaded()
+    } catch (error) {
+      if (isAbortError(error)) return
+      setError(error instanceof Error ? error.message : 'Failed to load file')
+    }
+  }, [handleReset, loadFile, setBoundingBox, areaSelected, dataLoaded, setError])
 
   // Handle hover over similarity heatmap
   const handleHover = useCallback((info: HoverInfo | null) => {
@@ -139,7 +400,8 @@ function App() {
 
   // Determine click states
   const isAreaSelectionEnabled = wizardState.step === 1
-  const isReferenceSelectionEnabled = wizardState.step === 3 && embeddingData !== null
+  const isRegionDrawingEnabled = wizardState.step === 3 && referenceShape === 'region' && embeddingData !== null
+  const isMapClickEnabled = (wizardState.step === 3 || wizardState.step === 4) && embeddingData !== null && !isRegionDrawingEnabled
 
   return (
     <div className="h-full flex flex-col">
@@ -147,45 +409,94 @@ function App() {
         onBoundingBoxChange={handleBoundingBoxChange}
         boundingBox={boundingBox}
         onMapClick={handleMapClick}
-        isClickEnabled={isReferenceSelectionEnabled}
+        isClickEnabled={isMapClickEnabled}
         mapRef={mapRef}
         drawControlsRef={drawControlsRef}
         areaMode={wizardState.areaMode}
         areaSize={wizardState.areaSize}
         isAreaSelectionEnabled={isAreaSelectionEnabled}
+        isRegionDrawingEnabled={isRegionDrawingEnabled}
+        onRegionDrawn={handleRegionDrawn}
+        coverage={coverage}
+        isCoverageVisible={isAreaSelectionEnabled}
       />
       <ReferenceMarker
         map={mapRef.current}
-        referencePixel={referencePixel}
+        referencePixels={referencePixels}
+        onRemove={handleRemoveReference}
       />
       <ResultsOverlay
         map={mapRef.current}
         similarityResult={similarityResult}
+        refinedResults={refinedResults}
         threshold={debouncedThreshold}
         opacity={opacity}
         onHover={handleHover}
       />
-      <HoverTooltip hoverInfo={hoverInfo} />
+      <HoverTooltip
+        hoverInfo={hoverInfo}
+        label={similarityResult?.metric ? METRIC_LABELS[similarityResult.metric] : 'Change score'}
+        hint={wizardState.step !== 4
+          ? undefined
+          : wizardState.analysisMode === 'change' || clickAction === 'inspect'
+            ? 'Click to inspect over time'
+            : clickAction === 'negative'
+              ? 'Click to add as negative example'
+              : 'Click to add as reference'}
+      />
       <WizardPanel
         wizard={wizardState}
         onSetMode={setMode}
         onSetSize={setSize}
+        onSetYear={setYear}
+        onSetAnalysisMode={setAnalysisMode}
+        onSetCompareYear={setCompareYear}
         onBack={handleBack}
         onReset={handleReset}
         boundingBox={boundingBox}
         validationError={validationError}
+        selectionCoverage={selectionCoverage}
         onLoadEmbeddings={handleLoadEmbeddings}
+        onCancelLoad={cancelLoad}
         loadingProgress={loadingProgress}
+        loadEstimate={loadEstimate}
+        isEstimating={isEstimating}
         isLoading={isLoading}
-        referencePixel={referencePixel}
+        referencePixels={referencePixels}
+        onRemoveReference={handleRemoveReference}
+        aggregation={aggregation}
+        onSetAggregation={setAggregation}
+        metric={metric}
+        onSetMetric={setMetric}
+        hasReferenceRegion={hasReferenceRegion}
+        negativeMode={negativeMode}
+        onSetNegativeMode={setNegativeMode}
+        negativeWeight={negativeWeight}
+        onNegativeWeightChange={setNegativeWeight}
+        query={query}
+        referenceShape={referenceShape}
+        pixelSize={embeddingData?.pixelSize ?? null}
+        onSetReferenceShape={setReferenceShape}
+        clickAction={clickAction}
+        onSetClickAction={setClickAction}
         similarityResult={similarityResult}
+        canRefine={canRefine}
+        refineEnabled={refineEnabled}
+        onSetRefineEnabled={setRefineEnabled}
+        refinementProgress={refinementProgress}
         threshold={threshold}
         onThresholdChange={setThreshold}
         opacity={opacity}
         onOpacityChange={setOpacity}
         drawControls={drawControlsRef.current}
+        inspectedSeries={inspectedSeries}
+        isInspecting={isInspecting}
+        onInspectPixel={inspectPixel}
+        onCloseInspection={clearInspection}
       />
       <InfoWidget />
+      <CacheSettings />
+      <FileDropZone onFile={handleFileDrop} />
       {/* GitHub link */}
       <a
         href="https://github.com/AwadMaharoof/AlphaEarthSimilarity"
@@ -0,0 +1,108 @@
+import { useState, useEffect, useCallback } from 'react'
+import { clearWindowCache, getCacheStats, setCacheBudget } from '../utils/windowCache'
+import type { CacheStats } from '../utils/windowCache'
+
+const MB = 1024 * 1024
+const BUDGET_OPTIONS_MB = [256, 512, 1024, 2048, 4096]
+
+function formatSize(bytes: number): string {
+  return bytes >= 1024 * MB ? `${(bytes / (1024 * MB)).toFixed(1)} GB` : `${Math.round(bytes / MB)} MB`
+}
+
+export default function CacheSettings() {
+  const [isOpen, setIsOpen] = useState(false)
+  const [stats, setStats] = useState<CacheStats | null>(null)
+  const [isBusy, setIsBusy] = useState(false)
+
+  const refresh = useCallback(async () => {
+    setStats(await getCacheStats())
+  }, [])
+
+  // Refresh the numbers whenever the panel is opened
+  useEffect(() => {
+    if (isOpen) {
+      refresh()
+    }
+  }, [isOpen, refresh])
+
+  const handleBudgetChange = async (budgetMb: number) => {
+    setIsBusy(true)
+    await setCacheBudget(budgetMb * MB)
+    await refresh()
+    setIsBusy(false)
+  }
+
+  const handleClear = async () => {
+    setIsBusy(true)
+    try {
+      await clearWindowCache()
+    } catch (err) {
+      console.error('Failed to clear cache:', err)
+    }
+    await refresh()
+    setIsBusy(false)
+  }
+
+  return (
+    <div className="absolute bottom-4 left-16 z-10">
+      {isOpen && stats && (
+        <div className="absolute bottom-12 left-0 w-64 bg-white rounded-lg shadow-lg overflow-hidden">
+          <div className="bg-gray-50 px-4 py-2 border-b border-gray-200">
+            <h2 className="text-sm font-semibold text-gray-900">Download Cache</h2>
+          </div>
+          <div className="p-4 text-xs text-gray-600 space-y-3">
+            <p>
+              Downloaded embeddings are kept in your browser, so revisiting an area loads it without downloading again.
+            </p>
+            <div className="grid grid-cols-2 gap-x-2 gap-y-0.5">
+              <span className="text-gray-500">Used:</span>
+              <span>{formatSize(stats.bytes)} of {formatSize(stats.budgetBytes)}</span>
+              <span className="text-gray-500">Blocks:</span>
+              <span>{stats.blocks.toLocaleString()}</span>
+            </div>
+            <div
+              className="h-1.5 bg-gray-200 rounded overflow-hidden"
+              role="progressbar"
+              aria-valuenow={Math.round((stats.bytes / stats.budgetBytes) * 100)}
+            >
+              <div
+                className="h-full bg-blue-600"
+                style={{ width: `${Math.min(100, (stats.bytes / stats.budgetBytes) * 100)}%` }}
+              />
+            </div>
+            <label className="block">
+              <span className="text-gray-500">Size limit</span>
+              <select
+                value={Math.round(stats.budgetBytes / MB)}
+                onChange={(e) => handleBudgetChange(Number(e.target.value))}
+                disabled={isBusy}
+                className="mt-1 w-full border border-gray-300 rounded px-2 py-1 text-sm"
+              >
+                {BUDGET_OPTIONS_MB.map(budgetMb => (
+                  <option key={budgetMb} value={budgetMb}>{formatSize(budgetMb * MB)}</option>
+                ))}
+              </select>
+            </label>
+            <button
+              onClick={handleClear}
+              disabled={isBusy || stats.blocks === 0}
+              className="w-full py-1.5 px-3 rounded font-medium bg-gray-100 hover:bg-gray-200 text-gray-700 transition-colors disabled:opacity-50"
+            >
+              Clear Cache
+            </button>
+          </div>
+        </div>
+      )}
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="bg-white rounded-lg shadow-lg p-2.5 hover:bg-gray-50 transition-colors"
+        aria-label="Download cache settings"
+        aria-expanded={isOpen}
+      >
+        <svg className="w-5 h-5 text-gray-700" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 7v10c0 2.21 3.582 4 8 4s8-1.79 8-4V7M4 7c0 2.21 3.582 4 8 4s8-1.79 8-4M4 7c0-2.21 3.582-4 8-4s8 1.79 8 4m0 5c0 2.21-3.582 4-8 4s-8-1.79-8-4" />
+        </svg>
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,68 @@
+import { useState, useEffect } from 'react'
+
+interface FileDropZoneProps {
+  onFile: (file: File) => void
+}
+
+/**
+ * Accepts a GeoTIFF dropped anywhere on the page, showing a hint overlay
+ * while a file is dragged over it
+ */
+export default function FileDropZone({ onFile }: FileDropZoneProps) {
+  const [isDragging, setIsDragging] = useState(false)
+
+  useEffect(() => {
+    // Count enter/leave pairs, since they fire for every child element crossed
+    let depth = 0
+    const hasFiles = (e: DragEvent) => e.dataTransfer?.types.includes('Files') ?? false
+
+    const handleDragEnter = (e: DragEvent) => {
+      if (!hasFiles(e)) return
+      e.preventDefault()
+      depth++
+      setIsDragging(true)
+    }
+    const handleDragOver = (e: DragEvent) => {
+      if (!hasFiles(e)) return
+      // Needed for the drop event to fire
+      e.preventDefault()
+    }
+    const handleDragLeave = (e: DragEvent) => {
+      if (!hasFiles(e)) return
+      depth = Math.max(0, depth - 1)
+      if (depth === 0) setIsDragging(false)
+    }
+    const handleDrop = (e: DragEvent) => {
+      if (!hasFiles(e)) return
+      e.preventDefault()
+      depth = 0
+      setIsDragging(false)
+      const file = e.dataTransfer?.files[0]
+      if (file) onFile(file)
+    }
+
+    window.addEventListener('dragenter', handleDragEnter)
+    window.addEventListener('dragover', handleDragOver)
+    window.addEventListener('dragleave', handleDragLeave)
+    window.addEventListener('drop', handleDrop)
+    return () => {
+      window.removeEventListener('dragenter', handleDragEnter)
+      window.removeEventListener('dragover', handleDragOver)
+      window.removeEventListener('dragleave', handleDragLeave)
+      window.removeEventListener('drop', handleDrop)
+    }
+  }, [onFile])
+
+  if (!isDragging) return null
+
+  return (
+    <div className="absolute inset-0 z-20 flex items-center justify-center bg-blue-600/20 border-4 border-dashed border-blue-600 pointer-events-none">
+      <div className="bg-white rounded-lg shadow-lg px-6 py-4 text-center">
+        <div className="text-sm font-semibold text-gray-900">Drop a GeoTIFF to load it</div>
+        <div className="text-xs text-gray-600 mt-1">
+          64-band AlphaEarth embeddings, Int8 or Float32, in a UTM projection
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -2,9 +2,11 @@ import type { HoverInfo } from '../types';
 
 interface HoverTooltipProps {
   hoverInfo: HoverInfo | null;
+  label: string;
+  hint?: string;
 }
 
-export default function HoverTooltip({ hoverInfo }: HoverTooltipProps) {
+export default function HoverTooltip({ hoverInfo, label, hint }: HoverTooltipProps) {
   // Hide tooltip for null or masked pixels (score < 0)
   if (!hoverInfo || hoverInfo.score < 0) {
     return null;
@@ -18,10 +20,13 @@ export default function HoverTooltip({ hoverInfo }: HoverTooltipProps) {
         top: hoverInfo.y + 12,
       }}
     >
-      <span className="text-gray-600">Similarity score: </span>
+      <span className="text-gray-600">{label}: </span>
       <span className="text-gray-900 font-semibold">
         {hoverInfo.score.toFixed(4)}
       </span>
+      {hint && (
+        <div className="text-xs text-gray-400 font-sans">{hint}</div>
+      )}
     </div>
   );
 }
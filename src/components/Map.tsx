@@ -3,6 +3,7 @@ import maplibregl from 'maplibre-gl'
 import MapboxDraw from '@mapbox/mapbox-gl-draw'
 import { CONFIG } from '../constants'
 import { createSquareBbox } from '../utils/coordinates'
+import type { CoverageFootprints } from '../utils/cogIndex'
 import type { BoundingBox, AreaMode, AreaSize } from '../types'
 
 // Custom styles for MapLibre compatibility (fixes line-dasharray issue)
@@ -99,6 +100,23 @@ const SELECTION_SOURCE_ID = 'selection-source'
 const SELECTION_FILL_LAYER_ID = 'selection-fill'
 const SELECTION_OUTLINE_LAYER_ID = 'selection-outline'
 
+// Source and layer IDs for the footprints of available tiles, drawn below the selection
+const COVERAGE_SOURCE_ID = 'coverage-source'
+const COVERAGE_FILL_LAYER_ID = 'coverage-fill'
+const COVERAGE_OUTLINE_LAYER_ID = 'coverage-outline'
+
+// Footprints shade from amber (a single year) to green (every year)
+const COVERAGE_COLOR: maplibregl.ExpressionSpecification = [
+  'interpolate', ['linear'], ['get', 'yearCount'],
+  1, '#f59e0b',
+  CONFIG.AVAILABLE_YEARS.length, '#16a34a',
+]
+
+const EMPTY_COLLECTION: GeoJSON.FeatureCollection = {
+  type: 'FeatureCollection',
+  features: [],
+}
+
 export interface DrawControls {
   startDrawing: () => void
   clearDrawing: () => void
@@ -115,6 +133,10 @@ interface MapProps {
   areaMode: AreaMode
   areaSize: AreaSize
   isAreaSelectionEnabled: boolean
+  isRegionDrawingEnabled?: boolean
+  onRegionDrawn?: (polygon: [number, number][]) => void
+  coverage?: CoverageFootprints | null
+  isCoverageVisible?: boolean
 }
 
 /**
@@ -161,11 +183,16 @@ export default function Map({
   areaMode,
   areaSize,
   isAreaSelectionEnabled,
+  isRegionDrawingEnabled = false,
+  onRegionDrawn,
+  coverage = null,
+  isCoverageVisible = false,
 }: MapProps) {
   const mapContainer = useRef<HTMLDivElement>(null)
   const map = useRef<maplibregl.Map | null>(null)
   const draw = useRef<MapboxDraw | null>(null)
   const selectionLayersAdded = useRef(false)
+  const coverageLayersAdded = useRef(false)
 
   // Use refs to always have access to latest callbacks without re-registering listeners
   const onBoundingBoxChangeRef = useRef(onBoundingBoxChange)
@@ -174,6 +201,10 @@ export default function Map({
   const areaModeRef = useRef(areaMode)
   const areaSizeRef = useRef(areaSize)
   const isAreaSelectionEnabledRef = useRef(isAreaSelectionEnabled)
+  const isRegionDrawingEnabledRef = useRef(isRegionDrawingEnabled)
+  const onRegionDrawnRef = useRef(onRegionDrawn)
+  const coverageRef = useRef(coverage)
+  const isCoverageVisibleRef = useRef(isCoverageVisible)
 
   // Keep refs in sync with props
   useEffect(() => {
@@ -200,6 +231,22 @@ export default function Map({
     isAreaSelectionEnabledRef.current = isAreaSelectionEnabled
   }, [isAreaSelectionEnabled])
 
+  useEffect(() => {
+    isRegionDrawingEnabledRef.current = isRegionDrawingEnabled
+  }, [isRegionDrawingEnabled])
+
+  useEffect(() => {
+    onRegionDrawnRef.current = onRegionDrawn
+  }, [onRegionDrawn])
+
+  useEffect(() => {
+    coverageRef.current = coverage
+  }, [coverage])
+
+  useEffect(() => {
+    isCoverageVisibleRef.current = isCoverageVisible
+  }, [isCoverageVisible])
+
   const extractBoundingBox = useCallback((feature: GeoJSON.Feature): BoundingBox | null => {
     if (feature.geometry.type !== 'Polygon') return null
 
@@ -216,6 +263,46 @@ export default function Map({
     }
   }, [])
 
+  /**
+   * Add GeoJSON source and layers for the footprints of available tiles.
+   * Added before the selection layers so the selection is drawn on top.
+   */
+  const ensureCoverageLayers = useCallback(() => {
+    if (!map.current || coverageLayersAdded.current) return
+
+    const visibility = isCoverageVisibleRef.current ? 'visible' : 'none'
+
+    map.current.addSource(COVERAGE_SOURCE_ID, {
+      type: 'geojson',
+      data: coverageRef.current ?? EMPTY_COLLECTION,
+    })
+
+    map.current.addLayer({
+      id: COVERAGE_FILL_LAYER_ID,
+      type: 'fill',
+      source: COVERAGE_SOURCE_ID,
+      layout: { visibility },
+      paint: {
+        'fill-color': COVERAGE_COLOR,
+        'fill-opacity': 0.15,
+      },
+    })
+
+    map.current.addLayer({
+      id: COVERAGE_OUTLINE_LAYER_ID,
+      type: 'line',
+      source: COVERAGE_SOURCE_ID,
+      layout: { visibility },
+      paint: {
+        'line-color': COVERAGE_COLOR,
+        'line-width': 1,
+        'line-opacity': 0.6,
+      },
+    })
+
+    coverageLayersAdded.current = true
+  }, [])
+
   /**
    * Add GeoJSON source and layers for displaying click-to-place square
    */
@@ -315,6 +402,20 @@ export default function Map({
 
     // Set up draw event listeners using refs to avoid stale closures
     map.current.on('draw.create', (e: { features: GeoJSON.Feature[] }) => {
+      // Reference regions are handed over and drawn by ReferenceMarker instead
+      if (isRegionDrawingEnabledRef.current) {
+        const feature = e.features[0]
+        draw.current?.deleteAll()
+        if (feature?.geometry.type === 'Polygon' && onRegionDrawnRef.current) {
+          onRegionDrawnRef.current(
+            feature.geometry.coordinates[0].map(c => [c[0], c[1]] as [number, number])
+          )
+        }
+        // Keep drawing until the region is accepted and drawing is disabled
+        draw.current?.changeMode('draw_polygon')
+        return
+      }
+
       // Only keep the latest drawn feature
       const allFeatures = draw.current?.getAll()
       if (allFeatures && allFeatures.features.length > 1) {
@@ -336,14 +437,14 @@ export default function Map({
 
     map.current.on('draw.update', (e: { features: GeoJSON.Feature[] }) => {
       const feature = e.features[0]
-      if (feature && areaModeRef.current === 'draw') {
+      if (feature && areaModeRef.current === 'draw' && !isRegionDrawingEnabledRef.current) {
         const box = extractBoundingBox(feature)
         onBoundingBoxChangeRef.current(box)
       }
     })
 
     map.current.on('draw.delete', () => {
-      if (areaModeRef.current === 'draw') {
+      if (areaModeRef.current === 'draw' && !isRegionDrawingEnabledRef.current) {
         onBoundingBoxChangeRef.current(null)
       }
     })
@@ -374,13 +475,15 @@ export default function Map({
       }
     })
 
-    // Add square layers when style loads
+    // Add coverage and square layers when style loads
     map.current.on('style.load', () => {
+      ensureCoverageLayers()
       ensureSelectionLayers()
     })
 
     // Also try adding immediately in case style already loaded
     if (map.current.isStyleLoaded()) {
+      ensureCoverageLayers()
       ensureSelectionLayers()
     }
 
@@ -437,8 +540,26 @@ export default function Map({
       map.current = null
       draw.current = null
       selectionLayersAdded.current = false
+      coverageLayersAdded.current = false
     }
-  }, [extractBoundingBox, mapRef, drawControlsRef, ensureSelectionLayers])
+  }, [extractBoundingBox, mapRef, drawControlsRef, ensureCoverageLayers, ensureSelectionLayers])
+
+  // Update the footprints of available tiles once the index has loaded
+  useEffect(() => {
+    if (!map.current || !coverageLayersAdded.current) return
+
+    const source = map.current.getSource(COVERAGE_SOURCE_ID) as maplibregl.GeoJSONSource | undefined
+    source?.setData(coverage ?? EMPTY_COLLECTION)
+  }, [coverage])
+
+  // Only show them while an area is being picked
+  useEffect(() => {
+    if (!map.current || !coverageLayersAdded.current) return
+
+    const visibility = isCoverageVisible ? 'visible' : 'none'
+    map.current.setLayoutProperty(COVERAGE_FILL_LAYER_ID, 'visibility', visibility)
+    map.current.setLayoutProperty(COVERAGE_OUTLINE_LAYER_ID, 'visibility', visibility)
+  }, [isCoverageVisible])
 
   // Selection layer visibility state machine:
   // - Click mode:                    static layer shows boundingBox
@@ -467,6 +588,17 @@ export default function Map({
     }
   }, [areaMode, isAreaSelectionEnabled])
 
+  // Draw reference regions with the same control once the area is locked
+  useEffect(() => {
+    if (!draw.current) return
+
+    if (isRegionDrawingEnabled) {
+      draw.current.changeMode('draw_polygon')
+    } else if (!isAreaSelectionEnabled) {
+      draw.current.deleteAll()
+      draw.current.changeMode('simple_select')
+    }
+  }, [isRegionDrawingEnabled, isAreaSelectionEnabled])
 
   // Update cursor based on state
   useEffect(() => {
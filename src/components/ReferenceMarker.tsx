@@ -1,50 +1,107 @@
-import { useEffect, useRef } from 'react';
+import { useEffect } from 'react';
 import maplibregl from 'maplibre-gl';
 import type { ReferencePixel } from '../types';
 
+// Source and layer IDs for the outlines of region references
+const REGION_SOURCE_ID = 'reference-regions';
+const REGION_FILL_LAYER_ID = 'reference-regions-fill';
+const REGION_OUTLINE_LAYER_ID = 'reference-regions-outline';
+
+// Red for positive references, dark grey for negative examples
+const POSITIVE_COLOR = '#ef4444';
+const NEGATIVE_COLOR = '#374151';
+
 interface ReferenceMarkerProps {
   map: maplibregl.Map | null;
-  referencePixel: ReferencePixel | null;
+  referencePixels: ReferencePixel[];
+  onRemove: (id: number) => void;
 }
 
-export default function ReferenceMarker({ map, referencePixel }: ReferenceMarkerProps) {
-  const markerRef = useRef<maplibregl.Marker | null>(null);
-
+export default function ReferenceMarker({ map, referencePixels, onRemove }: ReferenceMarkerProps) {
   useEffect(() => {
-    // Clean up existing marker
-    if (markerRef.current) {
-      markerRef.current.remove();
-      markerRef.current = null;
-    }
-
-    // Don't create marker if no map or reference pixel
-    if (!map || !referencePixel) {
+    // Don't create markers if no map or reference pixels
+    if (!map || referencePixels.length === 0) {
       return;
     }
 
-    // Create marker element
-    const el = document.createElement('div');
-    el.className = 'reference-marker';
-    el.style.width = '20px';
-    el.style.height = '20px';
-    el.style.borderRadius = '50%';
-    el.style.backgroundColor = '#ef4444';
-    el.style.border = '3px solid white';
-    el.style.boxShadow = '0 2px 4px rgba(0, 0, 0, 0.3)';
-    el.style.cursor = 'pointer';
-
-    // Create and add marker
-    markerRef.current = new maplibregl.Marker({ element: el })
-      .setLngLat([referencePixel.lng, referencePixel.lat])
-      .addTo(map);
+    const markers = referencePixels.map((referencePixel) => {
+      // Create marker element
+      const el = document.createElement('div');
+      el.className = 'reference-marker';
+      el.style.width = '20px';
+      el.style.height = '20px';
+      el.style.borderRadius = '50%';
+      el.style.backgroundColor = referencePixel.kind === 'negative' ? NEGATIVE_COLOR : POSITIVE_COLOR;
+      el.style.border = '3px solid white';
+      el.style.boxShadow = '0 2px 4px rgba(0, 0, 0, 0.3)';
+      el.style.cursor = 'pointer';
+      el.title = referencePixel.kind === 'negative'
+        ? 'Negative example (click to remove)'
+        : 'Reference (click to remove)';
+
+      // Remove on click without triggering a map click underneath
+      el.addEventListener('click', (e) => {
+        e.stopPropagation();
+        onRemove(referencePixel.id);
+      });
+
+      // Create and add marker
+      return new maplibregl.Marker({ element: el })
+        .setLngLat([referencePixel.lng, referencePixel.lat])
+        .addTo(map);
+    });
 
     return () => {
-      if (markerRef.current) {
-        markerRef.current.remove();
-        markerRef.current = null;
-      }
+      markers.forEach(marker => marker.remove());
     };
-  }, [map, referencePixel]);
+  }, [map, referencePixels, onRemove]);
+
+  // Outline region references
+  useEffect(() => {
+    if (!map) {
+      return;
+    }
+
+    const data: GeoJSON.FeatureCollection<GeoJSON.Polygon> = {
+      type: 'FeatureCollection',
+      features: referencePixels
+        .filter(ref => ref.region)
+        .map(ref => ({
+          type: 'Feature',
+          properties: { color: ref.kind === 'negative' ? NEGATIVE_COLOR : POSITIVE_COLOR },
+          geometry: { type: 'Polygon', coordinates: [ref.region!.polygon] },
+        })),
+    };
+
+    const source = map.getSource(REGION_SOURCE_ID) as maplibregl.GeoJSONSource | undefined;
+    if (source) {
+      source.setData(data);
+      return;
+    }
+    if (data.features.length === 0) {
+      return;
+    }
+
+    map.addSource(REGION_SOURCE_ID, { type: 'geojson', data });
+    map.addLayer({
+      id: REGION_FILL_LAYER_ID,
+      type: 'fill',
+      source: REGION_SOURCE_ID,
+      paint: {
+        'fill-color': ['get', 'color'],
+        'fill-opacity': 0.15,
+      },
+    });
+    map.addLayer({
+      id: REGION_OUTLINE_LAYER_ID,
+      type: 'line',
+      source: REGION_SOURCE_ID,
+      paint: {
+        'line-color': ['get', 'color'],
+        'line-width': 2,
+      },
+    });
+  }, [map, referencePixels]);
 
   // This component doesn't render anything directly
   return null;
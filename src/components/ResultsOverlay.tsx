@@ -3,94 +3,109 @@ import maplibregl from 'maplibre-gl';
 import { MapboxOverlay } from '@deck.gl/mapbox';
 import { BitmapLayer } from '@deck.gl/layers';
 import type { SimilarityResult, HoverInfo } from '../types';
-import { scoresToRGBA } from '../utils/colormap';
+import { computeScoreRange, scoresToRGBA } from '../utils/colormap';
+import { isDistanceMetric } from '../utils/similarity';
 import type { PickingInfo } from '@deck.gl/core';
 
 interface ResultsOverlayProps {
   map: maplibregl.Map | null;
   similarityResult: SimilarityResult | null;
+  // Full-resolution blocks drawn over the coarse result
+  refinedResults: SimilarityResult[];
   threshold: number;
   opacity: number;
   onHover: (info: HoverInfo | null) => void;
 }
 
+/**
+ * Create a heatmap layer drawing one result's RGBA image over its bounds
+ */
+function createHeatmapLayer(
+  id: string,
+  result: SimilarityResult,
+  rgba: Uint8ClampedArray,
+  onHover: (info: HoverInfo | null) => void
+): BitmapLayer | null {
+  const { bounds, width, height, scores } = result;
+
+  // Create ImageData object for BitmapLayer
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  const imgData = ctx.createImageData(width, height);
+  imgData.data.set(rgba);
+  ctx.putImageData(imgData, 0, 0);
+
+  return new BitmapLayer({
+    id,
+    // Bounding box corners: [minLng, minLat] to [maxLng, maxLat]
+    bounds: [bounds.minLng, bounds.minLat, bounds.maxLng, bounds.maxLat],
+    image: canvas,
+    // Nearest neighbor interpolation for crisp pixels
+    textureParameters: {
+      minFilter: 'nearest',
+      magFilter: 'nearest',
+    },
+    pickable: true,
+    onHover: (info: PickingInfo) => {
+      if (!info.coordinate) {
+        onHover(null);
+        return;
+      }
+
+      const [lng, lat] = info.coordinate;
+
+      // Convert lng/lat to pixel index
+      const x = Math.floor((lng - bounds.minLng) / (bounds.maxLng - bounds.minLng) * width);
+      const y = Math.floor((lat - bounds.minLat) / (bounds.maxLat - bounds.minLat) * height);
+
+      // Bounds check
+      if (x < 0 || x >= width || y < 0 || y >= height) {
+        onHover(null);
+        return;
+      }
+
+      const score = scores[y * width + x];
+      onHover({ x: info.x, y: info.y, score });
+    },
+  });
+}
+
 export default function ResultsOverlay({
   map,
   similarityResult,
+  refinedResults,
   threshold,
   opacity,
   onHover,
 }: ResultsOverlayProps) {
   const overlayRef = useRef<MapboxOverlay | null>(null);
 
-  // Create the RGBA image data from similarity scores
-  const imageData = useMemo(() => {
-    if (!similarityResult) return null;
+  // Create the RGBA image data from similarity scores. Refined blocks are
+  // colored on the coarse result's scale so they blend in with it.
+  const images = useMemo(() => {
+    if (!similarityResult) return [];
 
-    const { scores, width, height } = similarityResult;
-    const rgba = scoresToRGBA(scores, width, height, threshold, opacity);
+    const lowerIsBetter = similarityResult.metric !== null && isDistanceMetric(similarityResult.metric);
+    const range = computeScoreRange(similarityResult.scores);
 
-    return {
-      data: rgba,
-      width,
-      height,
-    };
-  }, [similarityResult, threshold, opacity]);
+    return [similarityResult, ...refinedResults].map(result => ({
+      result,
+      rgba: scoresToRGBA(result.scores, result.width, result.height, threshold, opacity, lowerIsBetter, range),
+    }));
+  }, [similarityResult, refinedResults, threshold, opacity]);
 
-  // Create deck.gl layer
+  // Create deck.gl layers, refined blocks above the coarse heatmap
   const layers = useMemo(() => {
-    if (!imageData || !similarityResult) return [];
-
-    const { bounds } = similarityResult;
-
-    // Create ImageData object for BitmapLayer
-    const canvas = document.createElement('canvas');
-    canvas.width = imageData.width;
-    canvas.height = imageData.height;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return [];
-
-    const imgData = ctx.createImageData(imageData.width, imageData.height);
-    imgData.data.set(imageData.data);
-    ctx.putImageData(imgData, 0, 0);
-
-    return [
-      new BitmapLayer({
-        id: 'similarity-heatmap',
-        // Bounding box corners: [minLng, minLat] to [maxLng, maxLat]
-        bounds: [bounds.minLng, bounds.minLat, bounds.maxLng, bounds.maxLat],
-        image: canvas,
-        // Nearest neighbor interpolation for crisp pixels
-        textureParameters: {
-          minFilter: 'nearest',
-          magFilter: 'nearest',
-        },
-        pickable: true,
-        onHover: (info: PickingInfo) => {
-          if (!info.coordinate || !similarityResult) {
-            onHover(null);
-            return;
-          }
-
-          const [lng, lat] = info.coordinate;
-          const { width, height, scores } = similarityResult;
-
-          // Convert lng/lat to pixel index
-          const x = Math.floor((lng - bounds.minLng) / (bounds.maxLng - bounds.minLng) * width);
-          const y = Math.floor((lat - bounds.minLat) / (bounds.maxLat - bounds.minLat) * height);
-
-          // Bounds check
-          if (x < 0 || x >= width || y < 0 || y >= height) {
-            onHover(null);
-            return;
-          }
-
-          const score = scores[y * width + x];
-          onHover({ x: info.x, y: info.y, score });
-        },
-      }),
-    ];
-  }, [imageData, similarityResult, onHover]);
+    return images
+      .map(({ result, rgba }, i) =>
+        createHeatmapLayer(i === 0 ? 'similarity-heatmap' : `similarity-refined-${i}`, result, rgba, onHover)
+      )
+      .filter((layer): layer is BitmapLayer => layer !== null);
+  }, [images, onHover]);
 
   // Initialize the deck.gl overlay once when map is available
   useEffect(() => {
@@ -0,0 +1,139 @@
+import type { PixelTimeSeries, SimilarityQuery } from '../types'
+import { yearToYearSimilarity, similarityToReference } from '../utils/timeSeries'
+import { METRIC_LABELS, isDistanceMetric } from '../utils/similarity'
+
+interface TimeSeriesInspectorProps {
+  series: PixelTimeSeries | null
+  query: SimilarityQuery | null
+  isLoading: boolean
+  onClose: () => void
+}
+
+const SPARKLINE_WIDTH = 240
+const SPARKLINE_HEIGHT = 40
+
+/**
+ * Sparkline of year-to-year similarity. Missing years break the line.
+ */
+function Sparkline({ values }: { values: (number | null)[] }) {
+  const valid = values.filter((v): v is number => v !== null)
+  if (valid.length === 0) {
+    return <div className="text-xs text-gray-400">No consecutive years with data</div>
+  }
+
+  // Scale from the lowest value up to 1 (identical embeddings)
+  const min = Math.min(...valid, 0.9)
+  const max = 1
+  const stepX = values.length > 1 ? SPARKLINE_WIDTH / (values.length - 1) : 0
+  const toY = (v: number) => SPARKLINE_HEIGHT - ((v - min) / (max - min)) * SPARKLINE_HEIGHT
+
+  // Split into runs of consecutive valid points
+  const segments: string[] = []
+  let current: string[] = []
+  values.forEach((v, i) => {
+    if (v === null) {
+      if (current.length > 0) segments.push(current.join(' '))
+      current = []
+    } else {
+      current.push(`${(i * stepX).toFixed(1)},${toY(v).toFixed(1)}`)
+    }
+  })
+  if (current.length > 0) segments.push(current.join(' '))
+
+  return (
+    <svg
+      width="100%"
+      viewBox={`-3 -3 ${SPARKLINE_WIDTH + 6} ${SPARKLINE_HEIGHT + 6}`}
+      className="overflow-visible"
+    >
+      {segments.map((points, i) => (
+        <polyline key={i} points={points} fill="none" stroke="#2563eb" strokeWidth={2} />
+      ))}
+      {values.map((v, i) => v !== null && (
+        <circle key={i} cx={i * stepX} cy={toY(v)} r={2.5} fill="#2563eb" />
+      ))}
+    </svg>
+  )
+}
+
+export default function TimeSeriesInspector({
+  series,
+  query,
+  isLoading,
+  onClose,
+}: TimeSeriesInspectorProps) {
+  if (!series && !isLoading) {
+    return null
+  }
+
+  const pairs = series ? yearToYearSimilarity(series) : []
+  const referenceScores = series && query
+    ? similarityToReference(series, query)
+    : []
+  // Distances have no fixed upper bound, so only similarities get bars
+  const showBars = !!query && !isDistanceMetric(query.metric)
+
+  return (
+    <div className="text-xs text-gray-600 bg-gray-50 p-2 rounded border border-gray-200">
+      <div className="flex items-center justify-between mb-1">
+        <span className="font-medium text-gray-800">Pixel Over Time</span>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-gray-600"
+          aria-label="Close time series"
+        >
+          &times;
+        </button>
+      </div>
+
+      {isLoading || !series ? (
+        <div>Fetching all years...</div>
+      ) : (
+        <div className="space-y-2">
+          <div>Location: {series.lat.toFixed(5)}, {series.lng.toFixed(5)}</div>
+
+          {/* Year-to-year similarity */}
+          <div>
+            <div className="text-gray-500 mb-0.5">Year-to-year similarity</div>
+            <Sparkline values={pairs.map(p => p.similarity)} />
+            <div className="flex justify-between text-gray-400">
+              <span>{pairs[0]?.to}</span>
+              <span>{pairs[pairs.length - 1]?.to}</span>
+            </div>
+          </div>
+
+          {/* Similarity of each year to the reference */}
+          {referenceScores.length > 0 && (
+            <div>
+              <div className="text-gray-500 mb-0.5">
+                {query && METRIC_LABELS[query.metric]} to {query && query.positives.length + query.negatives.length > 1 ? 'references' : 'reference'}
+              </div>
+              <div className="space-y-0.5">
+                {referenceScores.map(({ year, similarity }) => (
+                  <div key={year} className="flex items-center gap-2">
+                    <span className="w-8 text-gray-500">{year}</span>
+                    {showBars ? (
+                      <div className="flex-1 bg-gray-200 rounded h-1.5">
+                        {similarity !== null && similarity > 0 && (
+                          <div
+                            className="bg-blue-600 h-1.5 rounded"
+                            style={{ width: `${similarity * 100}%` }}
+                          />
+                        )}
+                      </div>
+                    ) : (
+                      <div className="flex-1" />
+                    )}
+                    <span className="w-10 text-right font-mono">
+                      {similarity === null ? '—' : similarity < 0 ? 'excl.' : similarity.toFixed(3)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,8 +1,13 @@
-import type { BoundingBox, ReferencePixel, SimilarityResult, LoadingProgress, WizardState, AreaMode, AreaSize } from '../types'
+import type { BoundingBox, CoverageStatus, SelectionCoverage, ReferencePixel, SimilarityResult, LoadingProgress, LoadEstimate, RefinementProgress, WizardState, AreaMode, AreaSize, AnalysisMode, PixelTimeSeries, ReferenceAggregation, ClickAction, NegativeMode, SimilarityQuery, ReferenceShape, SimilarityMetric } from '../types'
 import type { DrawControls } from './Map'
 import { STEP_TITLES } from '../hooks/useWizard'
 import ThresholdSlider from './ThresholdSlider'
+import TimeSeriesInspector from './TimeSeriesInspector'
 import { downloadGeoTiff } from '../utils/exportGeoTiff'
+import { METRIC_LABELS, isDistanceMetric } from '../utils/similarity'
+import { CONFIG } from '../constants'
+import { expectedOverviewFactor } from '../utils/overviews'
+import { formatBytes, formatDuration } from '../utils/downloadProgress'
 
 // Viridis gradient CSS (matches colormap.ts stops)
 const VIRIDIS_GRADIENT = 'linear-gradient(to right, rgb(68, 1, 84), rgb(59, 82, 139), rgb(33, 145, 140), rgb(94, 201, 98), rgb(253, 231, 37))';
@@ -11,55 +16,174 @@ interface WizardPanelProps {
   wizard: WizardState
   onSetMode: (mode: AreaMode) => void
   onSetSize: (size: AreaSize) => void
+  onSetYear: (year: string) => void
+  onSetAnalysisMode: (mode: AnalysisMode) => void
+  onSetCompareYear: (year: string) => void
   onBack: () => void
   onReset: () => void
   boundingBox: BoundingBox | null
   validationError: string | null
+  selectionCoverage: SelectionCoverage | null
   onLoadEmbeddings: () => void
+  onCancelLoad: () => void
   loadingProgress: LoadingProgress | null
+  loadEstimate: LoadEstimate | null
+  isEstimating: boolean
   isLoading: boolean
-  referencePixel: ReferencePixel | null
+  referencePixels: ReferencePixel[]
+  onRemoveReference: (id: number) => void
+  aggregation: ReferenceAggregation
+  onSetAggregation: (aggregation: ReferenceAggregation) => void
+  metric: SimilarityMetric
+  onSetMetric: (metric: SimilarityMetric) => void
+  hasReferenceRegion: boolean
+  negativeMode: NegativeMode
+  onSetNegativeMode: (mode: NegativeMode) => void
+  negativeWeight: number
+  onNegativeWeightChange: (weight: number) => void
+  query: SimilarityQuery | null
+  referenceShape: ReferenceShape
+  pixelSize: number | null
+  onSetReferenceShape: (shape: ReferenceShape) => void
+  clickAction: ClickAction
+  onSetClickAction: (action: ClickAction) => void
   similarityResult: SimilarityResult | null
+  canRefine: boolean
+  refineEnabled: boolean
+  onSetRefineEnabled: (enabled: boolean) => void
+  refinementProgress: RefinementProgress | null
   threshold: number
   onThresholdChange: (value: number) => void
   opacity: number
   onOpacityChange: (value: number) => void
   drawControls: DrawControls | null
+  inspectedSeries: PixelTimeSeries | null
+  isInspecting: boolean
+  onInspectPixel: (lng: number, lat: number) => void
+  onCloseInspection: () => void
 }
 
-const SIZE_OPTIONS: AreaSize[] = [2, 4, 6, 8, 10, 15, 20]
+const SIZE_OPTIONS: AreaSize[] = [2, 4, 6, 8, 10, 15, 20, 40, 60, 80]
+const METRIC_OPTIONS: SimilarityMetric[] = ['cosine', 'angular', 'euclidean', 'mahalanobis']
+
+// Typical download speed from Source Cooperative, for time estimates
+const TYPICAL_MB_PER_SECOND = 3
+
+// Downloads above this are highlighted before loading
+const LARGE_DOWNLOAD_BYTES = 100 * 1024 * 1024
 
 // Estimated download size and time based on area (at 10m resolution, 64 bands)
-function getEstimates(sizeKm: number): { mb: number; seconds: string } {
-  const pixels = (sizeKm * 100) ** 2 // 100 pixels per km
+function getEstimates(sizeKm: number): { mb: number; seconds: string; pixelSize: number } {
+  // Areas above 20km are read from coarser COG overviews
+  const pixelSize = CONFIG.PIXEL_SIZE * expectedOverviewFactor(sizeKm)
+  const pixels = ((sizeKm * 1000) / pixelSize) ** 2
   const mb = (pixels * 64) / (1024 * 1024) // 64 bytes per pixel
-  const seconds = mb / 3 // ~3 MB/s typical download speed
   return {
+    pixelSize,
     mb: Math.round(mb),
-    seconds: seconds < 10 ? `~${Math.round(seconds)}s` : seconds < 60 ? `~${Math.round(seconds)}s` : `~${Math.round(seconds / 60)}min`
+    seconds: formatDuration(mb / TYPICAL_MB_PER_SECOND),
   }
 }
 
+/**
+ * Loading progress, in bytes while downloading
+ */
+function LoadingProgressBar({ progress }: { progress: LoadingProgress }) {
+  const { bytesLoaded, bytesTotal, bytesPerSecond, etaSeconds } = progress
+  const hasBytes = bytesTotal !== undefined && bytesLoaded !== undefined && bytesTotal > 0
+  const fraction = hasBytes ? bytesLoaded / bytesTotal : progress.step / progress.totalSteps
+  return (
+    <div>
+      <div className="flex justify-between text-xs text-gray-600 mb-1">
+        <span>{progress.message}</span>
+        <span>
+          {hasBytes
+            ? `${formatBytes(bytesLoaded)} / ${formatBytes(bytesTotal)}`
+            : `${progress.step}/${progress.totalSteps}`}
+        </span>
+      </div>
+      <div className="w-full bg-gray-200 rounded-full h-1.5">
+        <div
+          className="bg-blue-600 h-1.5 rounded-full transition-all duration-300"
+          style={{ width: `${Math.min(1, fraction) * 100}%` }}
+        />
+      </div>
+      {hasBytes && bytesPerSecond && (
+        <div className="flex justify-between text-xs text-gray-500 mt-1">
+          <span>{formatBytes(bytesPerSecond)}/s</span>
+          {etaSeconds !== null && etaSeconds !== undefined && (
+            <span>{formatDuration(etaSeconds)} left</span>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
 export default function WizardPanel({
   wizard,
   onSetMode,
   onSetSize,
+  onSetYear,
+  onSetAnalysisMode,
+  onSetCompareYear,
   onBack,
   onReset,
   boundingBox,
   validationError,
+  selectionCoverage,
   onLoadEmbeddings,
+  onCancelLoad,
   loadingProgress,
+  loadEstimate,
+  isEstimating,
   isLoading,
-  referencePixel,
+  referencePixels,
+  onRemoveReference,
+  aggregation,
+  onSetAggregation,
+  metric,
+  onSetMetric,
+  hasReferenceRegion,
+  negativeMode,
+  onSetNegativeMode,
+  negativeWeight,
+  onNegativeWeightChange,
+  query,
+  referenceShape,
+  onSetReferenceShape,
+  pixelSize,
+  clickAction,
+  onSetClickAction,
   similarityResult,
+  canRefine,
+  refineEnabled,
+  onSetRefineEnabled,
+  refinementProgress,
   threshold,
   onThresholdChange,
   opacity,
   onOpacityChange,
   drawControls,
+  inspectedSeries,
+  isInspecting,
+  onInspectPixel,
+  onCloseInspection,
 }: WizardPanelProps) {
-  const { step, areaMode, areaSize, error } = wizard
+  const { step, areaMode, areaSize, year, analysisMode, compareYear, error } = wizard
+  const isChangeResult = similarityResult?.kind === 'change'
+  const resultMetric = similarityResult?.metric ?? null
+  const positiveCount = referencePixels.filter(ref => ref.kind === 'positive').length
+  const negativeCount = referencePixels.length - positiveCount
+
+  // Coverage of the selection by a year; unknown if the index couldn't be checked
+  const coverageOf = (y: string): CoverageStatus | null =>
+    selectionCoverage ? selectionCoverage[y] ?? 'none' : null
+  const yearsToLoad = analysisMode === 'change' ? [compareYear, year] : [year]
+  const uncoveredYears = yearsToLoad.filter(y => coverageOf(y) === 'none')
+  const partialYears = yearsToLoad.filter(y => coverageOf(y) === 'partial')
+  const yearButtonTitle = (y: string) =>
+    coverageOf(y) === 'none' ? 'No data for this area' : coverageOf(y) === 'partial' ? 'Covers part of this area' : undefined
 
   // Calculate similarity stats (using loop to avoid call stack overflow with large arrays)
   const similarityStats = similarityResult ? (() => {
@@ -85,6 +209,19 @@ export default function WizardPanel({
     return { max, min, avg: sum / count, above07, total: count }
   })() : null
 
+  // Single-year selections stream in while references are picked and results explored
+  const streamingProgress = isLoading && loadingProgress && (
+    <div className="space-y-2 bg-gray-50 p-2 rounded border border-gray-200">
+      <LoadingProgressBar progress={loadingProgress} />
+      <div className="flex justify-between items-center text-xs text-gray-500">
+        <span>Pixels fill in as blocks arrive.</span>
+        <button onClick={onCancelLoad} className="text-gray-700 hover:underline">
+          Stop loading
+        </button>
+      </div>
+    </div>
+  )
+
   return (
     <div className="absolute top-4 left-4 right-4 sm:right-auto sm:w-80 bg-white rounded-lg shadow-lg overflow-hidden max-h-[calc(100dvh-2rem)] flex flex-col">
       {/* Step header */}
@@ -155,7 +292,7 @@ export default function WizardPanel({
             {areaMode === 'click' && (
               <div>
                 <div className="text-xs text-gray-500 mb-2">Area size (km)</div>
-                <div className="grid grid-cols-4 gap-1">
+                <div className="grid grid-cols-5 gap-1">
                   {SIZE_OPTIONS.map((size) => (
                     <button
                       key={size}
@@ -177,6 +314,7 @@ export default function WizardPanel({
                   return (
                     <div className={`mt-2 text-xs p-1.5 rounded ${isLarge ? 'bg-amber-50 text-amber-700' : 'text-gray-500'}`}>
                       {est.mb}MB download, {est.seconds}
+                      {est.pixelSize > CONFIG.PIXEL_SIZE && `, at ${est.pixelSize}m resolution`}
                       {isLarge && ' — larger areas are slower'}
                     </div>
                   )
@@ -201,6 +339,17 @@ export default function WizardPanel({
                 <div>NE: {boundingBox.maxLat.toFixed(4)}, {boundingBox.maxLng.toFixed(4)}</div>
               </div>
             )}
+
+            {/* Legend for the coverage layer */}
+            <div className="flex items-center gap-2 text-xs text-gray-500">
+              <span className="shrink-0 w-3 h-3 rounded-sm border border-amber-500 bg-amber-500/30" />
+              <span className="shrink-0 w-3 h-3 rounded-sm border border-green-600 bg-green-600/30" />
+              <span>Shaded tiles have embeddings, for one year (amber) up to all {CONFIG.AVAILABLE_YEARS.length} (green).</span>
+            </div>
+
+            <div className="text-xs text-gray-500">
+              Or drop a local 64-band embeddings GeoTIFF (Int8 or Float32, UTM projection) onto the map to load it directly.
+            </div>
           </div>
         )}
 
@@ -211,32 +360,144 @@ export default function WizardPanel({
               Ready to load satellite embedding data for the selected area.
             </p>
 
-            <div className="text-xs text-gray-500 bg-amber-50 p-2 rounded border border-amber-200">
-              Using 2024 satellite embeddings. Note: basemap imagery date may differ.
+            {/* Analysis mode toggle */}
+            <div>
+              <div className="text-xs text-gray-500 mb-2">Analysis</div>
+              <div className="flex rounded-lg overflow-hidden border border-gray-300">
+                <button
+                  onClick={() => onSetAnalysisMode('similarity')}
+                  disabled={isLoading}
+                  className={`flex-1 px-3 py-2 text-sm font-medium transition-colors ${
+                    analysisMode === 'similarity'
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-white text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  Similarity search
+                </button>
+                <button
+                  onClick={() => onSetAnalysisMode('change')}
+                  disabled={isLoading}
+                  className={`flex-1 px-3 py-2 text-sm font-medium border-l border-gray-300 transition-colors ${
+                    analysisMode === 'change'
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-white text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  Change detection
+                </button>
+              </div>
             </div>
 
-            {/* Loading progress */}
-            {loadingProgress && (
+            {/* Baseline year selector (change detection only) */}
+            {analysisMode === 'change' && (
               <div>
-                <div className="flex justify-between text-xs text-gray-600 mb-1">
-                  <span>{loadingProgress.message}</span>
-                  <span>{loadingProgress.step}/{loadingProgress.totalSteps}</span>
-                </div>
-                <div className="w-full bg-gray-200 rounded-full h-1.5">
-                  <div
-                    className="bg-blue-600 h-1.5 rounded-full transition-all duration-300"
-                    style={{ width: `${(loadingProgress.step / loadingProgress.totalSteps) * 100}%` }}
-                  />
+                <div className="text-xs text-gray-500 mb-2">Compare from</div>
+                <div className="grid grid-cols-4 gap-1">
+                  {CONFIG.AVAILABLE_YEARS.filter((y) => y !== year).map((y) => (
+                    <button
+                      key={y}
+                      onClick={() => onSetCompareYear(y)}
+                      disabled={isLoading}
+                      title={yearButtonTitle(y)}
+                      className={`px-2 py-1.5 text-sm font-medium rounded transition-colors ${
+                        compareYear === y
+                          ? 'bg-blue-600 text-white'
+                          : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                      } ${coverageOf(y) === 'none' ? 'line-through opacity-60' : ''}`}
+                    >
+                      {y}
+                    </button>
+                  ))}
                 </div>
               </div>
             )}
 
+            {/* Year selector */}
+            <div>
+              <div className="text-xs text-gray-500 mb-2">
+                {analysisMode === 'change' ? 'Compare to' : 'Embedding year'}
+              </div>
+              <div className="grid grid-cols-4 gap-1">
+                {CONFIG.AVAILABLE_YEARS.map((y) => (
+                  <button
+                    key={y}
+                    onClick={() => onSetYear(y)}
+                    disabled={isLoading}
+                    title={yearButtonTitle(y)}
+                    className={`px-2 py-1.5 text-sm font-medium rounded transition-colors ${
+                      year === y
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    } ${coverageOf(y) === 'none' ? 'line-through opacity-60' : ''}`}
+                  >
+                    {y}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="text-xs text-gray-500 bg-amber-50 p-2 rounded border border-amber-200">
+              {analysisMode === 'change'
+                ? `Comparing ${compareYear} and ${year} satellite embeddings pixel by pixel. This downloads both years.`
+                : `Using ${year} satellite embeddings. Note: basemap imagery date may differ.`}
+            </div>
+
+            {/* Years that don't cover the selection */}
+            {uncoveredYears.length > 0 && (
+              <div className="text-xs p-2 rounded border bg-red-50 border-red-200 text-red-700">
+                No {uncoveredYears.join(' or ')} embeddings cover this area. Choose another year.
+              </div>
+            )}
+            {uncoveredYears.length === 0 && partialYears.length > 0 && (
+              <div className="text-xs p-2 rounded border bg-amber-50 border-amber-200 text-amber-800">
+                The {partialYears.join(' and ')} tiles only cover part of this area; the rest will have no data.
+              </div>
+            )}
+
+            {/* Size and cost estimate from the COG headers */}
+            {!isLoading && isEstimating && !loadEstimate && (
+              <div className="text-xs text-gray-500">Estimating download size...</div>
+            )}
+            {!isLoading && loadEstimate && (() => {
+              const isLarge = loadEstimate.downloadBytes > LARGE_DOWNLOAD_BYTES
+              return (
+                <div className={`text-xs p-2 rounded border ${
+                  isLarge ? 'bg-amber-50 border-amber-200 text-amber-800' : 'bg-gray-50 border-gray-200 text-gray-600'
+                }`}>
+                  <div className="grid grid-cols-2 gap-x-2 gap-y-0.5">
+                    <span className="text-gray-500">Grid:</span>
+                    <span>
+                      {loadEstimate.width.toLocaleString()} × {loadEstimate.height.toLocaleString()} px at {loadEstimate.pixelSize} m
+                    </span>
+                    <span className="text-gray-500">COG tiles:</span>
+                    <span>{loadEstimate.internalTiles.toLocaleString()}</span>
+                    <span className="text-gray-500">Download:</span>
+                    <span>
+                      {loadEstimate.downloadBytes > 0
+                        ? `${formatBytes(loadEstimate.downloadBytes)}, ${formatDuration(
+                          loadEstimate.downloadBytes / (TYPICAL_MB_PER_SECOND * 1024 * 1024)
+                        )}`
+                        : 'none (cached)'}
+                    </span>
+                    <span className="text-gray-500">Memory:</span>
+                    <span>{formatBytes(loadEstimate.memoryBytes)}</span>
+                  </div>
+                  {isLarge && (
+                    <div className="mt-1">Large download — this may take a while on slow connections.</div>
+                  )}
+                </div>
+              )
+            })()}
+
+            {loadingProgress && <LoadingProgressBar progress={loadingProgress} />}
+
             {/* Load button */}
             <button
               onClick={onLoadEmbeddings}
-              disabled={isLoading}
+              disabled={isLoading || uncoveredYears.length > 0}
               className={`w-full py-2 px-4 rounded font-medium transition-colors ${
-                isLoading
+                isLoading || uncoveredYears.length > 0
                   ? 'bg-gray-200 text-gray-500 cursor-not-allowed'
                   : 'bg-blue-600 hover:bg-blue-700 text-white cursor-pointer'
               }`}
@@ -265,18 +526,68 @@ export default function WizardPanel({
                 'Load Embeddings'
               )}
             </button>
+
+            {/* Cancel button */}
+            {isLoading && (
+              <button
+                onClick={onCancelLoad}
+                className="w-full py-2 px-4 rounded font-medium bg-gray-100 hover:bg-gray-200 text-gray-700 transition-colors"
+              >
+                Cancel
+              </button>
+            )}
           </div>
         )}
 
         {/* Step 3: Select Reference */}
         {step === 3 && (
           <div className="space-y-4">
+            {streamingProgress}
+
+            {/* Reference shape toggle */}
+            <div className="flex rounded-lg overflow-hidden border border-gray-300">
+              <button
+                onClick={() => onSetReferenceShape('pixel')}
+                className={`flex-1 px-3 py-2 text-sm font-medium transition-colors ${
+                  referenceShape === 'pixel'
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-white text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                Pixel
+              </button>
+              <button
+                onClick={() => onSetReferenceShape('region')}
+                className={`flex-1 px-3 py-2 text-sm font-medium border-l border-gray-300 transition-colors ${
+                  referenceShape === 'region'
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-white text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                Region
+              </button>
+            </div>
+
             <p className="text-sm text-gray-600">
-              Click on any pixel in the selected area to find similar features.
+              {referenceShape === 'pixel'
+                ? 'Click on any pixel in the selected area to find similar features.'
+                : 'Draw a polygon around an example area. Click to add points, double-click to finish.'}
             </p>
 
+            {referenceShape === 'region' && (
+              <div className="text-xs text-gray-500">
+                The reference is the average embedding of every valid pixel inside the region, which is more robust than a single 10 m pixel for mixed land cover.
+              </div>
+            )}
+
+            {pixelSize !== null && pixelSize > CONFIG.PIXEL_SIZE && (
+              <div className="text-xs text-amber-700 bg-amber-50 p-2 rounded">
+                This area was loaded at {pixelSize} m resolution from the COG overviews, so each pixel covers a {pixelSize / CONFIG.PIXEL_SIZE}×{pixelSize / CONFIG.PIXEL_SIZE} block of 10 m pixels.
+              </div>
+            )}
+
             <div className="text-xs text-gray-500 bg-blue-50 p-2 rounded border border-blue-200">
-              The heatmap will show how similar each pixel is to your selected reference.
+              The heatmap will show how similar each pixel is to your selected reference. You can add more references once it appears.
             </div>
           </div>
         )}
@@ -284,39 +595,289 @@ export default function WizardPanel({
         {/* Step 4: Explore Results */}
         {step === 4 && (
           <div className="space-y-4">
-            {/* Reference pixel info */}
-            {referencePixel && (
+            {streamingProgress}
+
+            {/* Reference pixels */}
+            {referencePixels.length > 0 && (
+              <div className="text-xs text-gray-600 bg-green-50 p-2 rounded border border-green-200">
+                <div className="font-medium text-green-800 mb-1">
+                  {referencePixels.length > 1 ? `Reference Pixels (${referencePixels.length})` : 'Reference Pixel'}
+                </div>
+                <div className="space-y-0.5">
+                  {referencePixels.map((ref) => (
+                    <div key={ref.id} className="flex items-center gap-2">
+                      <span
+                        className={`w-2 h-2 rounded-full ${ref.kind === 'negative' ? 'bg-gray-700' : 'bg-red-500'}`}
+                        title={ref.kind === 'negative' ? 'Negative example' : 'Reference'}
+                      />
+                      <span className="flex-1">
+                        {ref.lat.toFixed(5)}, {ref.lng.toFixed(5)}
+                        {ref.region && (
+                          <span className="block text-gray-500">
+                            {ref.region.pixelCount.toLocaleString()} px, within-region similarity {ref.region.meanSimilarity.toFixed(3)} avg, {ref.region.minSimilarity.toFixed(3)} min
+                          </span>
+                        )}
+                      </span>
+                      <button
+                        onClick={() => onInspectPixel(ref.lng, ref.lat)}
+                        className="text-green-800 underline hover:text-green-900"
+                      >
+                        Over time
+                      </button>
+                      <button
+                        onClick={() => onRemoveReference(ref.id)}
+                        className="text-gray-400 hover:text-gray-600"
+                        aria-label="Remove reference"
+                      >
+                        &times;
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Similarity metric */}
+            {analysisMode === 'similarity' && (
+              <div>
+                <div className="text-xs text-gray-500 mb-2">Metric</div>
+                <div className="grid grid-cols-2 gap-1">
+                  {METRIC_OPTIONS.map((option) => {
+                    const disabled = option === 'mahalanobis' && !hasReferenceRegion
+                    return (
+                      <button
+                        key={option}
+                        onClick={() => onSetMetric(option)}
+                        disabled={disabled}
+                        className={`px-2 py-1 text-xs rounded transition-colors ${
+                          metric === option
+                            ? 'bg-blue-600 text-white'
+                            : disabled
+                              ? 'bg-gray-50 text-gray-300 cursor-not-allowed'
+                              : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                        }`}
+                      >
+                        {METRIC_LABELS[option]}
+                      </button>
+                    )
+                  })}
+                </div>
+                <div className="text-xs text-gray-500 mt-1">
+                  {isDistanceMetric(metric)
+                    ? 'Lower is more similar.'
+                    : 'Higher is more similar.'}
+                  {!hasReferenceRegion && ' Mahalanobis needs a region reference.'}
+                </div>
+              </div>
+            )}
+
+            {/* Reference aggregation toggle */}
+            {positiveCount > 1 && (
+              <div>
+                <div className="text-xs text-gray-500 mb-2">Combine references</div>
+                <div className="flex rounded-lg overflow-hidden border border-gray-300">
+                  <button
+                    onClick={() => onSetAggregation('mean')}
+                    className={`flex-1 px-3 py-1.5 text-sm font-medium transition-colors ${
+                      aggregation === 'mean'
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-white text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    Mean
+                  </button>
+                  <button
+                    onClick={() => onSetAggregation('max')}
+                    className={`flex-1 px-3 py-1.5 text-sm font-medium border-l border-gray-300 transition-colors ${
+                      aggregation === 'max'
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-white text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    Max
+                  </button>
+                </div>
+                <div className="text-xs text-gray-500 mt-1">
+                  {aggregation === 'mean'
+                    ? 'Similarity to the average of all references.'
+                    : 'Similarity to the closest reference.'}
+                </div>
+              </div>
+            )}
+
+            {/* Negative example handling */}
+            {negativeCount > 0 && (
+              <div>
+                <div className="text-xs text-gray-500 mb-2">Negative examples</div>
+                <div className="flex rounded-lg overflow-hidden border border-gray-300">
+                  <button
+                    onClick={() => onSetNegativeMode('subtract')}
+                    className={`flex-1 px-3 py-1.5 text-sm font-medium transition-colors ${
+                      negativeMode === 'subtract'
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-white text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    Subtract
+                  </button>
+                  <button
+                    onClick={() => onSetNegativeMode('exclude')}
+                    className={`flex-1 px-3 py-1.5 text-sm font-medium border-l border-gray-300 transition-colors ${
+                      negativeMode === 'exclude'
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-white text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    Exclude
+                  </button>
+                </div>
+                {negativeMode === 'subtract' ? (
+                  <div className="mt-2">
+                    <div className="flex justify-between text-xs text-gray-600 mb-1">
+                      <span>Negative weight</span>
+                      <span>{negativeWeight.toFixed(2)}</span>
+                    </div>
+                    <input
+                      type="range"
+                      min="0"
+                      max="1"
+                      step="0.05"
+                      value={negativeWeight}
+                      onChange={(e) => onNegativeWeightChange(parseFloat(e.target.value))}
+                      className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+                    />
+                    <div className="text-xs text-gray-400 mt-0.5">
+                      Score minus weighted similarity to the closest negative
+                    </div>
+                  </div>
+                ) : (
+                  <div className="text-xs text-gray-500 mt-1">
+                    Pixels closer to a negative than to any reference are hidden.
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Map click action */}
+            {analysisMode === 'similarity' && (
+              <div>
+                <div className="text-xs text-gray-500 mb-2">Map click</div>
+                <div className="flex rounded-lg overflow-hidden border border-gray-300">
+                  <button
+                    onClick={() => onSetClickAction('reference')}
+                    className={`flex-1 px-3 py-1.5 text-sm font-medium transition-colors ${
+                      clickAction === 'reference'
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-white text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    Reference
+                  </button>
+                  <button
+                    onClick={() => onSetClickAction('negative')}
+                    className={`flex-1 px-3 py-1.5 text-sm font-medium border-l border-gray-300 transition-colors ${
+                      clickAction === 'negative'
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-white text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    Negative
+                  </button>
+                  <button
+                    onClick={() => onSetClickAction('inspect')}
+                    className={`flex-1 px-3 py-1.5 text-sm font-medium border-l border-gray-300 transition-colors ${
+                      clickAction === 'inspect'
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-white text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    Inspect
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {/* Change detection info */}
+            {analysisMode === 'change' && (
               <div className="text-xs text-gray-600 bg-green-50 p-2 rounded border border-green-200">
-                <div className="font-medium text-green-800 mb-1">Reference Pixel</div>
-                <div>Location: {referencePixel.lat.toFixed(5)}, {referencePixel.lng.toFixed(5)}</div>
+                <div className="font-medium text-green-800 mb-1">Change Detection</div>
+                <div>Comparing {compareYear} to {year}</div>
+                {!similarityResult && <div>Calculating...</div>}
               </div>
             )}
 
             {/* Similarity stats */}
             {similarityStats && (
               <div className="text-xs text-gray-600 bg-blue-50 p-2 rounded border border-blue-200">
-                <div className="font-medium text-blue-800 mb-1">Similarity Scores</div>
+                <div className="font-medium text-blue-800 mb-1">
+                  {resultMetric ? METRIC_LABELS[resultMetric] : 'Change Scores'}
+                </div>
                 <div className="grid grid-cols-2 gap-x-2 gap-y-0.5">
                   <span className="text-gray-500">Range:</span>
                   <span>{similarityStats.min.toFixed(3)} – {similarityStats.max.toFixed(3)}</span>
                   <span className="text-gray-500">Average:</span>
                   <span>{similarityStats.avg.toFixed(3)}</span>
-                  <span className="text-gray-500">High similarity:</span>
-                  <span>{similarityStats.above07.toLocaleString()} pixels</span>
+                  {resultMetric === 'cosine' && (
+                    <>
+                      <span className="text-gray-500">High similarity:</span>
+                      <span>{similarityStats.above07.toLocaleString()} pixels</span>
+                    </>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* Coarse-to-fine refinement of overview results */}
+            {canRefine && (
+              <div className="text-xs text-gray-600 bg-amber-50 p-2 rounded border border-amber-200 space-y-1">
+                <label className="flex items-center gap-2 font-medium text-amber-800">
+                  <input
+                    type="checkbox"
+                    checked={refineEnabled}
+                    onChange={(e) => onSetRefineEnabled(e.target.checked)}
+                  />
+                  Refine best areas at {CONFIG.PIXEL_SIZE} m
+                </label>
+                <div>
+                  Reloads the top {CONFIG.REFINE_TOP_BLOCKS} blocks of {CONFIG.REFINE_BLOCK_METERS / 1000} km at full resolution and draws them over the coarse result.
                 </div>
+                {refineEnabled && refinementProgress && (
+                  refinementProgress.error ? (
+                    <div className="text-red-600">{refinementProgress.error}</div>
+                  ) : (
+                    <div>
+                      {refinementProgress.done < refinementProgress.total
+                        ? `Refining block ${refinementProgress.done + 1} of ${refinementProgress.total}...`
+                        : `Refined ${refinementProgress.total} blocks`}
+                    </div>
+                  )
+                )}
+              </div>
+            )}
+
+            {/* Pixel time series */}
+            <TimeSeriesInspector
+              series={inspectedSeries}
+              query={query}
+              isLoading={isInspecting}
+              onClose={onCloseInspection}
+            />
+            {!inspectedSeries && !isInspecting && (analysisMode === 'change' || clickAction === 'inspect') && (
+              <div className="text-xs text-gray-500">
+                Click any pixel to see how its embedding changed across {CONFIG.AVAILABLE_YEARS[0]}–{CONFIG.AVAILABLE_YEARS[CONFIG.AVAILABLE_YEARS.length - 1]}.
               </div>
             )}
 
             {/* Color legend */}
             <div>
-              <div className="text-xs text-gray-600 mb-1">Similarity</div>
+              <div className="text-xs text-gray-600 mb-1">{isChangeResult ? 'Change' : 'Similarity'}</div>
               <div
                 className="h-3 rounded"
                 style={{ background: VIRIDIS_GRADIENT }}
               />
               <div className="flex justify-between text-xs text-gray-500 mt-0.5">
-                <span>Low</span>
-                <span>High</span>
+                <span>{isChangeResult ? 'Stable' : 'Low'}</span>
+                <span>{isChangeResult ? 'Changed' : 'High'}</span>
               </div>
             </div>
 
@@ -336,7 +897,14 @@ export default function WizardPanel({
                   similarityResult.width,
                   similarityResult.height,
                   similarityResult.bounds,
-                  'similarity.tif'
+                  isChangeResult
+                    ? `change_${compareYear}_${year}.tif`
+                    : resultMetric === 'cosine' ? 'similarity.tif' : `similarity_${resultMetric}.tif`,
+                  resultMetric
+                    ? `${METRIC_LABELS[resultMetric]} to reference (${
+                      isDistanceMetric(resultMetric) ? 'lower' : 'higher'
+                    } = more similar); -1 = no data`
+                    : `Change score ${compareYear}-${year} (higher = more change); -1 = no data`
                 )}
                 className="w-full py-2 px-4 rounded font-medium bg-blue-600 hover:bg-blue-700 text-white transition-colors"
               >
@@ -344,12 +912,12 @@ export default function WizardPanel({
               </button>
             )}
 
-            {/* Select new reference button */}
+            {/* Select new reference (or years) button */}
             <button
               onClick={onBack}
               className="w-full py-2 px-4 rounded font-medium bg-gray-100 hover:bg-gray-200 text-gray-700 transition-colors"
             >
-              Select New Reference
+              {analysisMode === 'change' ? 'Compare Different Years' : 'Clear References'}
             </button>
           </div>
         )}
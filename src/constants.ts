@@ -2,20 +2,54 @@ export const CONFIG = {
   // Basemap
   BASEMAP_URL: 'https://basemaps.cartocdn.com/gl/voyager-gl-style/style.json',
 
-  // COG Index (pre-filtered to 2024 for faster loading)
-  COG_INDEX_URL: `${import.meta.env.BASE_URL}aef_index_2024.parquet`,
+  // COG Index (slimmed to the columns we read, all years)
+  COG_INDEX_URL: `${import.meta.env.BASE_URL}aef_index.parquet`,
+  // Optional STAC API or static catalog to discover COGs from instead
+  STAC_URL: import.meta.env.VITE_STAC_URL ?? '',
+  STAC_COLLECTIONS: import.meta.env.VITE_STAC_COLLECTIONS ?? '',
 
   // Constraints
-  MAX_BOX_SIZE_KM: 20,
+  MAX_BOX_SIZE_KM: 80,
+  // Areas needing more pixels than this at full resolution (20km x 20km) are
+  // read from a coarser COG overview instead
+  MAX_GRID_PIXELS: 2000 * 2000,
   EMBEDDING_BANDS: 64,
 
+  // Larger grids are kept as Int8 codes instead of expanding to Float32 (512 MB)
+  MAX_FLOAT32_EMBEDDING_BYTES: 512 * 1024 * 1024,
+
+  // Blocks (COG internal tiles) downloaded at once
+  DOWNLOAD_CONCURRENCY: 6,
+
+  // Failed COG requests are retried with exponential backoff and jitter, up
+  // to FETCH_RETRIES times each and FETCH_RETRY_BUDGET times per load
+  FETCH_RETRIES: 4,
+  FETCH_RETRY_BUDGET: 30,
+  FETCH_RETRY_BASE_MS: 500,
+  FETCH_RETRY_MAX_MS: 8000,
+
+  // Default size budget of the IndexedDB cache of downloaded blocks
+  DEFAULT_CACHE_BUDGET_BYTES: 1024 * 1024 * 1024,
+
+  // While a selection streams in, scores are recalculated at most this often
+  PROGRESSIVE_UPDATE_MS: 500,
+
+  // Upper bound on similarity workers (one per core, up to this many)
+  MAX_SIMILARITY_WORKERS: 8,
+
+  // Coarse (overview) results are refined by reloading their best blocks of
+  // this size at full resolution, up to this many blocks
+  REFINE_BLOCK_METERS: 2000,
+  REFINE_TOP_BLOCKS: 8,
+
   // Pixel resolution in meters (AlphaEarth embeddings are 10m resolution)
   PIXEL_SIZE: 10,
 
-  // Default map view (Singapore - covered by 2024 data)
+  // Default map view (Singapore - covered by all years)
   DEFAULT_CENTER: [103.8, 1.35] as [number, number],
   DEFAULT_ZOOM: 11,
 
-  // Year filter
-  TARGET_YEAR: '2024',
+  // Annual embedding years published in the dataset
+  AVAILABLE_YEARS: ['2018', '2019', '2020', '2021', '2022', '2023', '2024'],
+  DEFAULT_YEAR: '2024',
 } as const;
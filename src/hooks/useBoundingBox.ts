@@ -1,7 +1,6 @@
 import { useState, useMemo } from 'react'
 import type { BoundingBox } from '../types'
 import { CONFIG } from '../constants'
-import { getUTMZone } from '../utils/coordinates'
 
 /**
  * Calculate distance between two points using Haversine formula
@@ -79,18 +78,6 @@ export function useBoundingBox(): UseBoundingBoxReturn {
       }
     }
 
-    // Check UTM zone crossing
-    const minZone = getUTMZone(minLng)
-    const maxZone = getUTMZone(maxLng)
-    if (minZone !== maxZone) {
-      return {
-        error: `Bounding box crosses UTM zone boundary (zones ${minZone} and ${maxZone}). Please draw within a single zone.`,
-        isValid: false,
-        widthKm,
-        heightKm,
-      }
-    }
-
     return {
       error: null,
       isValid: true,
@@ -0,0 +1,196 @@
+// @vitest-environment happy-dom
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import type { GeoTIFF } from 'geotiff';
+import { useCOGLoader } from './useCOGLoader';
+import { alphaEarthSource, setDataSource } from '../utils/dataSource';
+import { ALPHA_EARTH_FORMAT, isPixelValid } from '../utils/quantized';
+import { utmToLatLng } from '../utils/coordinates';
+import { tileTable } from '../utils/tileTable';
+import type { BoundingBox, EmbeddingData, EmbeddingFormat, TileInfo } from '../types';
+
+// One 256 x 256 pixel tile at 10 m in zone 33N
+const utmBounds = { minX: 390000, minY: 5818000, maxX: 392560, maxY: 5820560 };
+const sw = utmToLatLng(utmBounds.minX, utmBounds.minY, 33, 'N');
+const ne = utmToLatLng(utmBounds.maxX, utmBounds.maxY, 33, 'N');
+const bbox: BoundingBox = {
+  minLng: sw.lng + 0.002,
+  minLat: sw.lat + 0.002,
+  maxLng: sw.lng + 0.004,
+  maxLat: sw.lat + 0.004,
+};
+
+let tileCount = 0;
+
+/**
+ * Switch to a source publishing one tile whose COG reads rasters with
+ * readRasters, or fails to open with openError; each call gets a new URL so
+ * no opened COG is reused
+ */
+function publishTile(
+  readRasters: (options: { window: number[] }) => Promise<Uint8Array>,
+  openError?: Error,
+  format: EmbeddingFormat = ALPHA_EARTH_FORMAT
+): TileInfo {
+  const image = {
+    getSamplesPerPixel: () => format.bands,
+    getWidth: () => 256,
+    getHeight: () => 256,
+    getTileWidth: () => 256,
+    getTileHeight: () => 256,
+    fileDirectory: {},
+    planarConfiguration: 1,
+    readRasters,
+  };
+  const tiff = { getImageCount: async () => 1, getImage: async () => image } as unknown as GeoTIFF;
+  const tile: TileInfo = {
+    wkt: '',
+    crs: 'EPSG:32633',
+    url: `fixture://tile-${++tileCount}.tif`,
+    year: '2024',
+    utmZone: '33N',
+    utmBounds,
+    lngLatBounds: { minLng: sw.lng, minLat: sw.lat, maxLng: ne.lng, maxLat: ne.lat },
+  };
+  const tiles = tileTable([tile]);
+
+  setDataSource({
+    name: 'Fixture',
+    listTiles: async () => tiles,
+    openTiff: async () => {
+      if (openError) throw openError;
+      return tiff;
+    },
+    decoders: {},
+    bands: format.bands,
+    dequantizeLut: format.dequantizeLut,
+  });
+  return tile;
+}
+
+// Rasters of 1s for any window
+const readOnes = async ({ window: [x0, y0, x1, y1] }: { window: number[] }) =>
+  new Uint8Array((x1 - x0) * (y1 - y0) * 64).fill(1);
+
+describe('COG Loader Hook', () => {
+  beforeEach(() => {
+    // No backoff between retries
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    setDataSource(alphaEarthSource);
+  });
+
+  describe('loadEmbeddings', () => {
+    it('should keep the streamed grid once every block is in', async () => {
+      publishTile(readOnes);
+      const { result } = renderHook(() => useCOGLoader());
+      const onGridReady = vi.fn();
+
+      let loaded: EmbeddingData | undefined;
+      await act(async () => {
+        loaded = await result.current.loadEmbeddings(bbox, '2024', undefined, { onGridReady });
+      });
+
+      expect(onGridReady).toHaveBeenCalledWith(loaded);
+      expect(result.current.embeddingData).toBe(loaded);
+      // Filled in even without an onUpdate callback
+      expect(isPixelValid(loaded!.mask, 0)).toBe(true);
+      expect(result.current.currentTile?.utmZone).toBe('33N');
+      expect(result.current.isLoading).toBe(false);
+    });
+
+    it('should read and dequantize a source with its own band count and table', async () => {
+      // 16 bands, each code c standing for c / 100
+      const format = { bands: 16, dequantizeLut: new Float32Array(256).map((_, i) => (i - 128) / 100) };
+      publishTile(async ({ window: [x0, y0, x1, y1] }) => new Uint8Array((x1 - x0) * (y1 - y0) * 16).fill(3), undefined, format);
+      const { result } = renderHook(() => useCOGLoader());
+
+      let loaded: EmbeddingData | undefined;
+      await act(async () => {
+        loaded = await result.current.loadEmbeddings(bbox, '2024');
+      });
+
+      if (loaded?.storage !== 'float32') throw new Error('Expected a Float32 grid');
+      expect(loaded.format).toEqual(format);
+      expect(loaded.embeddings).toHaveLength(loaded.width * loaded.height * 16);
+      expect(isPixelValid(loaded.mask, 0)).toBe(true);
+      expect(loaded.magnitudes[0]).toBeCloseTo(Math.sqrt(16 * 0.03 ** 2), 6);
+      expect(loaded.embeddings[0]).toBeCloseTo(0.25, 6);
+    });
+
+    it('should withdraw the streamed grid when the download fails', async () => {
+      publishTile(async () => {
+        throw new Error('Connection reset');
+      });
+      const { result } = renderHook(() => useCOGLoader());
+      const onGridReady = vi.fn();
+
+      await act(async () => {
+        await expect(
+          result.current.loadEmbeddings(bbox, '2024', undefined, { onGridReady })
+        ).rejects.toThrow('Failed to download 1 of 1 blocks');
+      });
+
+      // The grid was published, then taken back with the error
+      expect(onGridReady).toHaveBeenCalledOnce();
+      expect(result.current.embeddingData).toBeNull();
+      expect(result.current.currentTile).toBeNull();
+      expect(result.current.error).toMatch(/^Failed to download/);
+      expect(result.current.isLoading).toBe(false);
+      expect(result.current.loadingProgress).toBeNull();
+    });
+
+    it('should keep the previous selection when a load fails before publishing', async () => {
+      const tile = publishTile(readOnes);
+      const { result } = renderHook(() => useCOGLoader());
+
+      let loaded: EmbeddingData | undefined;
+      await act(async () => {
+        loaded = await result.current.loadEmbeddings(bbox, '2024');
+      });
+
+      // The next selection's COG cannot be opened, so no grid is published
+      publishTile(readOnes, new Error('Forbidden'));
+      const onGridReady = vi.fn();
+      await act(async () => {
+        await expect(
+          result.current.loadEmbeddings(bbox, '2024', undefined, { onGridReady })
+        ).rejects.toThrow('Failed to open satellite data file');
+      });
+
+      expect(onGridReady).not.toHaveBeenCalled();
+      expect(result.current.embeddingData).toBe(loaded);
+      expect(result.current.currentTile?.url).toBe(tile.url);
+      expect(result.current.error).toMatch(/^Failed to open/);
+      expect(result.current.isLoading).toBe(false);
+    });
+  });
+
+  describe('loadPixelTimeSeries', () => {
+    it('should read the block holding the pixel with the caller\'s signal', async () => {
+      const readRasters = vi.fn(readOnes);
+      publishTile(readRasters);
+      const { result } = renderHook(() => useCOGLoader());
+      const controller = new AbortController();
+
+      const series = await result.current.loadPixelTimeSeries(
+        sw.lng + 0.003,
+        sw.lat + 0.003,
+        undefined,
+        controller.signal
+      );
+
+      // The whole internal tile is read, so it can be cached for later
+      expect(readRasters).toHaveBeenCalledOnce();
+      expect(readRasters.mock.calls[0][0]).toMatchObject({ window: [0, 0, 256, 256], signal: controller.signal });
+      const entry = series.entries.find(({ year }) => year === '2024');
+      expect(entry?.vector).toHaveLength(64);
+      expect(entry?.magnitude).toBeCloseTo(8 / 127.5 ** 2, 6);
+      expect(series.entries.filter(({ vector }) => vector)).toHaveLength(1);
+    });
+  });
+});
@@ -1,173 +1,1019 @@
-import { useState, useCallback } from 'react';
-import { fromUrl, addDecoder, BaseDecoder } from 'geotiff';
-import { decompress as zstdDecompress } from 'fzstd';
-import type { BoundingBox, EmbeddingData, TileInfo, LoadingProgress } from '../types';
-import { findTileForBoundingBox, getTileOrigin } from '../utils/cogIndex';
-import { bboxToPixelWindow } from '../utils/coordinates';
+import { useState, useCallback, useRef } from 'react';
+import { fromUrl, fromBlob, addDecoder, BaseDecoder } from 'geotiff';
+import type { GeoTIFF, GeoTIFFImage } from 'geotiff';
+import type { BoundingBox, EmbeddingData, EmbeddingFormat, PixelCoord, TileInfo, LoadingProgress, LoadEstimate, PixelTimeSeries } from '../types';
+import { findTileForBoundingBox, findTilesForBoundingBox, getTileOrigin } from '../utils/cogIndex';
+import {
+  bboxToPixelWindow,
+  latLngToPixel,
+  latLngToUTM,
+  parseUTMZone,
+  utmToLatLng,
+} from '../utils/coordinates';
 import { flipVertical } from '../utils/flipVertical';
 import { dequantize } from '../utils/dequantize';
+import { ALPHA_EARTH_FORMAT, embeddingMemoryBytes, isPixelValid, shouldQuantize, validityMask } from '../utils/quantized';
+import { createEmptyGrid, fillGridRegion } from '../utils/progressive';
+import { floatsToEmbeddingData, localGridFootprint, utmZoneFromEpsg, yearFromFileName } from '../utils/localGeoTiff';
+import type { PixelRange } from '../utils/workerPool';
+import { allocateBuffer } from '../utils/workerPool';
+import { chooseOverviewFactor, overviewFactors } from '../utils/overviews';
+import { cachedKeys, getCachedBlock, putCachedBlock, windowCacheKey } from '../utils/windowCache';
+import { downloadRate, internalTileIndex, tileByteCount } from '../utils/downloadProgress';
+import { abortError, isAbortError, throwIfAborted } from '../utils/abort';
+import { createRetryBudget, withRetry } from '../utils/retry';
+import { getDataSource } from '../utils/dataSource';
+import type { DataSource } from '../utils/dataSource';
+import type { RetryBudget } from '../utils/retry';
+import {
+  alignedBlocks,
+  copyOverlap,
+  createMosaicBuffer,
+  intersectWindows,
+  mappedWindowBounds,
+  resampleWindow,
+} from '../utils/mosaic';
+import type { PixelWindow } from '../utils/mosaic';
 import { CONFIG } from '../constants';
 
-// ZSTD magic bytes
-const ZSTD_MAGIC = [0x28, 0xb5, 0x2f, 0xfd];
+/**
+ * Retry a COG request on failure, with backoff, within an optional shared budget
+ */
+function retryRequest<T>(request: () => Promise<T>, signal?: AbortSignal, budget?: RetryBudget): Promise<T> {
+  return withRetry(request, {
+    retries: CONFIG.FETCH_RETRIES,
+    baseDelayMs: CONFIG.FETCH_RETRY_BASE_MS,
+    maxDelayMs: CONFIG.FETCH_RETRY_MAX_MS,
+    budget,
+    signal,
+  });
+}
+
+// Decoders registered with geotiff.js, by compression code
+const registeredDecoders = new Map<number, DataSource['decoders'][number]>();
+
+/**
+ * Register the active data source's decoders for compression codes
+ * geotiff.js doesn't handle itself (e.g. GDAL's 50000 for ZSTD)
+ */
+function ensureDecoderRegistered() {
+  for (const [code, decode] of Object.entries(getDataSource().decoders)) {
+    const compression = Number(code);
+    if (registeredDecoders.get(compression) === decode) continue;
+    registeredDecoders.set(compression, decode);
 
-function isZstdCompressed(buffer: ArrayBuffer): boolean {
-  const view = new Uint8Array(buffer);
-  return ZSTD_MAGIC.every((byte, i) => view[i] === byte);
+    class SourceDecoder extends BaseDecoder {
+      async decode(_fileDirectory: unknown, buffer: ArrayBuffer) {
+        return decode(buffer);
+      }
+    }
+    addDecoder(compression, () => Promise.resolve(SourceDecoder));
+  }
 }
 
-// Custom decoder for compression code 50000 (ZSTD-compressed raw pixels)
-class ZstdDecoder extends BaseDecoder {
-  async decode(_fileDirectory: unknown, buffer: ArrayBuffer) {
-    if (isZstdCompressed(buffer)) {
-      const compressed = new Uint8Array(buffer);
-      const decompressed = zstdDecompress(compressed);
-      const dataBuffer = new ArrayBuffer(decompressed.byteLength);
-      new Uint8Array(dataBuffer).set(decompressed);
-      return dataBuffer;
+// Opened COGs by URL, with their images, so repeated reads skip refetching headers
+const MAX_OPEN_IMAGES = 32;
+const openImages = new Map<string, Promise<GeoTIFFImage[]>>();
+
+/**
+ * Load the full-resolution image and overviews of a COG, full resolution first.
+ * Images without the data source's band count (e.g. internal masks) are skipped.
+ */
+async function readImages(tiff: GeoTIFF, bands: number): Promise<GeoTIFFImage[]> {
+  const count = await tiff.getImageCount();
+  const images = await Promise.all(
+    Array.from({ length: count }, (_, i) => tiff.getImage(i))
+  );
+  return images.filter(image => image.getSamplesPerPixel() === bands);
+}
+
+/**
+ * Band count and dequantization of the active data source's embeddings
+ */
+function sourceFormat(): EmbeddingFormat {
+  const { bands, dequantizeLut } = getDataSource();
+  return { bands, dequantizeLut };
+}
+
+/**
+ * Open the images of a tile's COG: full resolution first, then its overviews
+ */
+async function openTileImages(tile: TileInfo, signal?: AbortSignal): Promise<GeoTIFFImage[]> {
+  let imagesPromise = openImages.get(tile.url);
+  if (imagesPromise) {
+    // Re-insert to mark as most recently used
+    openImages.delete(tile.url);
+  } else {
+    const { openTiff, bands } = getDataSource();
+    const open = () => (openTiff ? openTiff(tile.url, signal) : fromUrl(tile.url, {}, signal));
+    imagesPromise = retryRequest(() => open().then(tiff => readImages(tiff, bands)), signal);
+  }
+  openImages.set(tile.url, imagesPromise);
+
+  // Evict the least recently used COG
+  if (openImages.size > MAX_OPEN_IMAGES) {
+    const oldest = openImages.keys().next().value;
+    if (oldest !== undefined) {
+      openImages.delete(oldest);
+    }
+  }
+
+  let images: GeoTIFFImage[];
+  try {
+    images = await imagesPromise;
+  } catch (tiffError) {
+    if (openImages.get(tile.url) === imagesPromise) {
+      openImages.delete(tile.url);
+    }
+    throwIfAborted(signal);
+    if (isAbortError(tiffError)) {
+      // Opened by a load that has since been cancelled; open it again for this one
+      return openTileImages(tile, signal);
     }
-    return buffer;
+    console.error('COG open error:', tiffError);
+    throw new Error(
+      `Failed to open satellite data file after ${CONFIG.FETCH_RETRIES + 1} attempts. ` +
+      'This may be a temporary server issue. Please try again in a moment.'
+    );
+  }
+
+  if (images.length === 0) {
+    throw new Error(`Satellite data file has no ${getDataSource().bands}-band image: ${tile.url}`);
   }
+  return images;
 }
 
-// Register decoder for GDAL's compression code 50000
-let decoderRegistered = false;
-function ensureDecoderRegistered() {
-  if (decoderRegistered) return;
-  decoderRegistered = true;
-  addDecoder(50000, () => Promise.resolve(ZstdDecoder));
+/**
+ * Open the image of a tile's COG downsampled by factor (1 = full resolution)
+ */
+async function openTileImage(
+  tile: TileInfo,
+  factor: number = 1,
+  signal?: AbortSignal
+): Promise<GeoTIFFImage> {
+  const images = await openTileImages(tile, signal);
+  const factors = overviewFactors(images.map(image => image.getWidth()));
+  const image = images[factors.indexOf(factor)];
+  if (!image) {
+    throw new Error(
+      `Satellite data file has no ${CONFIG.PIXEL_SIZE * factor}m overview. ` +
+      'Please select a smaller area.'
+    );
+  }
+  return image;
+}
+
+/**
+ * Pick the overview level to read a selection at, so the loaded grid stays
+ * within CONFIG.MAX_GRID_PIXELS. Levels come from the anchor tile's COG.
+ *
+ * @returns Downsampling factor (1 = full resolution)
+ */
+async function chooseReadFactor(
+  bbox: BoundingBox,
+  anchor: TileInfo,
+  signal?: AbortSignal
+): Promise<number> {
+  const origin = getTileOrigin(anchor);
+  const [, , fullWidth, fullHeight] = bboxToPixelWindow(
+    bbox,
+    origin.x,
+    origin.y,
+    CONFIG.PIXEL_SIZE,
+    parseUTMZone(anchor.utmZone).zone
+  );
+
+  const images = await openTileImages(anchor, signal);
+  const factor = chooseOverviewFactor(
+    fullWidth,
+    fullHeight,
+    overviewFactors(images.map(image => image.getWidth()))
+  );
+  if (factor === null) {
+    throw new Error(
+      'The selected area is too large for the resolutions available in the satellite data. ' +
+      'Please select a smaller area.'
+    );
+  }
+  return factor;
+}
+
+/**
+ * Read a pixel window from a COG image as interleaved signed Int8 values
+ * in the COG's native (bottom-up) row order
+ */
+async function readTileWindow(
+  image: GeoTIFFImage,
+  window: PixelWindow,
+  signal?: AbortSignal
+): Promise<Int8Array> {
+  const [x, y, width, height] = window;
+
+  let rasterData;
+  try {
+    rasterData = await image.readRasters({
+      window: [x, y, x + width, y + height],
+      interleave: true,
+      signal,
+    });
+  } catch (rasterError) {
+    throwIfAborted(signal);
+    console.error('Raster read error:', rasterError);
+    throw new Error(
+      'Failed to download embedding data. ' +
+      'Check your internet connection and try again.'
+    );
+  }
+
+  // Validate rasterData is a typed array with buffer access
+  if (!rasterData || typeof rasterData !== 'object' || !('buffer' in rasterData)) {
+    throw new Error('Unexpected raster data format from GeoTIFF library');
+  }
+
+  // Convert to Int8Array (geotiff returns Uint8Array, we need signed interpretation)
+  const rasterArray = rasterData as Uint8Array;
+  return new Int8Array(rasterArray.buffer, rasterArray.byteOffset, rasterArray.length);
+}
+
+/**
+ * Blocks a window is read in: aligned to the COG's internal tiles, so reads
+ * of overlapping selections line up and cached blocks can be reused
+ */
+function windowBlocks(image: GeoTIFFImage, window: PixelWindow): PixelWindow[] {
+  const extent: PixelWindow = [0, 0, image.getWidth(), image.getHeight()];
+  return alignedBlocks(window, image.getTileWidth(), image.getTileHeight(), extent);
+}
+
+/**
+ * Compressed download size of a block, from the COG's tile byte counts.
+ * Falls back to the uncompressed size if the COG has none.
+ */
+function blockByteCount(image: GeoTIFFImage, block: PixelWindow): number {
+  const byteCounts = image.fileDirectory.TileByteCounts as ArrayLike<number> | undefined;
+  if (!byteCounts) {
+    return block[2] * block[3] * image.getSamplesPerPixel();
+  }
+
+  const tileWidth = image.getTileWidth();
+  const tileHeight = image.getTileHeight();
+  const tilesPerPlane = Math.ceil(image.getWidth() / tileWidth) * Math.ceil(image.getHeight() / tileHeight);
+  const planes = image.planarConfiguration === 2 ? image.getSamplesPerPixel() : 1;
+  return tileByteCount(
+    byteCounts,
+    internalTileIndex(block, tileWidth, tileHeight, image.getWidth()),
+    tilesPerPlane,
+    planes
+  );
+}
+
+/**
+ * Run task for each item with at most limit running at once.
+ * Stops starting new items once one has failed.
+ */
+async function forEachConcurrent<T>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  let failed = false;
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length && !failed) {
+      const item = items[next++];
+      try {
+        await task(item);
+      } catch (err) {
+        failed = true;
+        throw err;
+      }
+    }
+  });
+  await Promise.all(runners);
+}
+
+/**
+ * Read a pixel window block by block, going through the persistent cache.
+ *
+ * Blocks are aligned to the COG's internal tiles; cached blocks are reused
+ * (so a selection that partly overlaps an earlier one only downloads the
+ * rest) and the missing ones are downloaded a few at a time and stored for
+ * next time. Each block is handed to onBlock as soon as it is available.
+ * Failed downloads are retried within the load's retry budget; blocks that
+ * still fail are skipped so the rest of the window keeps loading.
+ *
+ * @param onBlock - Called with each block's window and interleaved Int8 data
+ * @param onBytes - Called with the compressed size of each downloaded block
+ * @returns Number of blocks that could not be downloaded
+ */
+async function readCachedBlocks(
+  tile: TileInfo,
+  image: GeoTIFFImage,
+  factor: number,
+  window: PixelWindow,
+  onBlock: (block: PixelWindow, data: Int8Array) => void,
+  onBytes: (bytes: number) => void,
+  retryBudget: RetryBudget,
+  signal?: AbortSignal
+): Promise<number> {
+  const bands = image.getSamplesPerPixel();
+  const keyFor = (block: PixelWindow) => windowCacheKey(tile.url, tile.year, factor, block);
+  const missing: PixelWindow[] = [];
+
+  for (const block of windowBlocks(image, window)) {
+    const cached = await getCachedBlock(keyFor(block));
+    throwIfAborted(signal);
+    if (cached && cached.length === block[2] * block[3] * bands) {
+      onBlock(block, cached);
+    } else {
+      missing.push(block);
+    }
+  }
+
+  let failed = 0;
+  await forEachConcurrent(missing, CONFIG.DOWNLOAD_CONCURRENCY, async (block) => {
+    let blockData;
+    try {
+      blockData = await retryRequest(() => readTileWindow(image, block, signal), signal, retryBudget);
+    } catch (err) {
+      if (isAbortError(err)) throw err;
+      failed++;
+      return;
+    }
+    throwIfAborted(signal);
+    onBlock(block, blockData);
+    onBytes(blockByteCount(image, block));
+    // Don't hold up loading on the write
+    void putCachedBlock(keyFor(block), blockData);
+  });
+  return failed;
+}
+
+// One tile's share of a mosaic: the window to read from it and how to
+// place the data read onto the mosaic grid
+interface TileRead {
+  tile: TileInfo;
+  image: GeoTIFFImage;
+  window: PixelWindow;
+  // Same-zone tiles: the mosaic's extent in this tile's pixel space, so
+  // blocks are pasted straight onto the mosaic as they arrive
+  mosaicWindow: PixelWindow | null;
+  // Other zones: resample the whole window onto the mosaic once it is read
+  resample: ((mosaic: Int8Array, rawData: Int8Array) => void) | null;
+}
+
+// Everything needed to read a selection, worked out from the COG headers
+interface MosaicPlan {
+  width: number;
+  height: number;
+  // SW pixel of the mosaic in the anchor tile's pixel grid
+  windowOrigin: PixelCoord;
+  factor: number;
+  format: EmbeddingFormat;
+  reads: TileRead[];
+}
+
+/**
+ * Work out which window to read from each covering tile, and how to map it
+ * onto the anchor tile's pixel grid. Only COG headers are fetched.
+ *
+ * Tiles in the anchor's UTM zone are pasted directly; tiles from neighbouring
+ * zones are reprojected and resampled onto the grid to fill the remaining gaps.
+ *
+ * @param factor - Overview downsampling factor to read at (1 = full resolution)
+ * @param format - Band count and dequantization of the data source's COGs
+ */
+async function planMosaic(
+  bbox: BoundingBox,
+  anchor: TileInfo,
+  tiles: TileInfo[],
+  factor: number,
+  format: EmbeddingFormat,
+  onProgress: (progress: LoadingProgress) => void,
+  signal?: AbortSignal
+): Promise<MosaicPlan> {
+  const { bands } = format;
+  const pixelSize = CONFIG.PIXEL_SIZE * factor;
+  const anchorZone = parseUTMZone(anchor.utmZone);
+
+  // The anchor tile's origin defines the pixel grid of the mosaic
+  const origin = getTileOrigin(anchor);
+  const [windowX, windowY, windowWidth, windowHeight] = bboxToPixelWindow(
+    bbox,
+    origin.x,
+    origin.y,
+    pixelSize,
+    anchorZone.zone
+  );
+
+  if (windowWidth <= 0 || windowHeight <= 0) {
+    throw new Error(
+      'The selected area is too small or invalid. ' +
+      'Please draw a larger bounding box.'
+    );
+  }
+
+  // Paste same-zone tiles first so resampled data only fills what is left
+  const isAnchorZone = (tile: TileInfo) => tile.utmZone === anchor.utmZone;
+  const orderedTiles = [
+    ...tiles.filter(isAnchorZone),
+    ...tiles.filter(tile => !isAnchorZone(tile)),
+  ];
+
+  const reads: TileRead[] = [];
+  for (let i = 0; i < orderedTiles.length; i++) {
+    const tile = orderedTiles[i];
+    const tileLabel = orderedTiles.length > 1 ? ` (tile ${i + 1} of ${orderedTiles.length})` : '';
+    const tileOrigin = getTileOrigin(tile);
+
+    onProgress({ step: 2, totalSteps: 4, message: `Opening COG file${tileLabel}...` });
+    const image = await openTileImage(tile, factor, signal);
+    const tileExtent: PixelWindow = [0, 0, image.getWidth(), image.getHeight()];
+
+    if (isAnchorZone(tile)) {
+      // Offset of this tile's origin from the anchor's, in pixels
+      const offsetX = Math.round((tileOrigin.x - origin.x) / pixelSize);
+      const offsetY = Math.round((tileOrigin.y - origin.y) / pixelSize);
+
+      // Selection window expressed in this tile's pixel space, clipped to the tile
+      const mosaicWindow: PixelWindow = [windowX - offsetX, windowY - offsetY, windowWidth, windowHeight];
+      const tileWindow = intersectWindows(mosaicWindow, tileExtent);
+      if (!tileWindow) {
+        continue;
+      }
+
+      reads.push({ tile, image, window: tileWindow, mosaicWindow, resample: null });
+    } else {
+      const tileZone = parseUTMZone(tile.utmZone);
+
+      // Map a mosaic pixel center to continuous pixel coordinates in this tile
+      const toTilePixel = (x: number, y: number): [number, number] => {
+        const { lat, lng } = utmToLatLng(
+          origin.x + (windowX + x + 0.5) * pixelSize,
+          origin.y + (windowY + y + 0.5) * pixelSize,
+          anchorZone.zone,
+          anchorZone.hemisphere
+        );
+        const utm = latLngToUTM(lat, lng, tileZone.zone);
+        return [
+          (utm.easting - tileOrigin.x) / pixelSize,
+          (utm.northing - tileOrigin.y) / pixelSize,
+        ];
+      };
+
+      const tileWindow = intersectWindows(
+        mappedWindowBounds(toTilePixel, windowWidth, windowHeight),
+        tileExtent
+      );
+      if (!tileWindow) {
+        continue;
+      }
+
+      const [tileX, tileY, tileWidth, tileHeight] = tileWindow;
+      reads.push({
+        tile,
+        image,
+        window: tileWindow,
+        mosaicWindow: null,
+        resample: (mosaic, rawData) => resampleWindow(
+          mosaic,
+          windowWidth,
+          windowHeight,
+          rawData,
+          tileWidth,
+          tileHeight,
+          (x, y) => {
+            const [sx, sy] = toTilePixel(x, y);
+            return [sx - tileX, sy - tileY];
+          },
+          bands
+        ),
+      });
+    }
+  }
+
+  return { width: windowWidth, height: windowHeight, windowOrigin: { x: windowX, y: windowY }, factor, format, reads };
+}
+
+/**
+ * Compressed bytes a plan still has to download, skipping cached blocks
+ */
+async function planDownloadBytes(plan: MosaicPlan): Promise<number> {
+  const sizes = await Promise.all(plan.reads.map(async ({ tile, image, window }) => {
+    const blocks = windowBlocks(image, window);
+    const keys = blocks.map(block => windowCacheKey(tile.url, tile.year, plan.factor, block));
+    const cached = await cachedKeys(keys);
+    return blocks.reduce(
+      (sum, block, i) => (cached.has(keys[i]) ? sum : sum + blockByteCount(image, block)),
+      0
+    );
+  }));
+  return sizes.reduce((sum, bytes) => sum + bytes, 0);
+}
+
+/**
+ * Read a planned selection from every covering tile and stitch the windows
+ * onto the anchor tile's pixel grid (see planMosaic), reporting download
+ * progress in bytes against the COG tile byte counts. Blocks that fail even
+ * after retrying are reported together once the rest have been read.
+ *
+ * @param onRegion - Called whenever part of the mosaic has been filled in,
+ *                   with the updated window in mosaic pixels
+ * @param signal - Aborts the downloads when the load is cancelled
+ * @returns Interleaved Int8 mosaic in native (bottom-up) row order
+ */
+async function readPlannedMosaic(
+  plan: MosaicPlan,
+  onProgress: (progress: LoadingProgress) => void,
+  onRegion: (mosaic: Int8Array, region: PixelWindow) => void,
+  signal?: AbortSignal
+): Promise<Int8Array> {
+  const { bands } = plan.format;
+  const bytesTotal = await planDownloadBytes(plan);
+  throwIfAborted(signal);
+
+  // Pixels not covered by any tile stay as nodata and end up masked
+  const mosaic = createMosaicBuffer(plan.width, plan.height, bands);
+  const mosaicExtent: PixelWindow = [0, 0, plan.width, plan.height];
+
+  // One budget for the whole load, so a dead connection fails it quickly
+  const retryBudget = createRetryBudget(CONFIG.FETCH_RETRY_BUDGET);
+  let failedBlocks = 0;
+
+  let bytesLoaded = 0;
+  const startTime = performance.now();
+  const reportBytes = (bytes: number) => {
+    bytesLoaded += bytes;
+    onProgress({
+      step: 3,
+      totalSteps: 4,
+      message: 'Downloading embeddings...',
+      bytesLoaded,
+      bytesTotal,
+      ...downloadRate(bytesLoaded, bytesTotal, performance.now() - startTime),
+    });
+  };
+  reportBytes(0);
+
+  for (const { tile, image, window, mosaicWindow, resample } of plan.reads) {
+    if (mosaicWindow) {
+      // Paste each block as it arrives
+      failedBlocks += await readCachedBlocks(tile, image, plan.factor, window, (block, data) => {
+        const overlap = intersectWindows(block, mosaicWindow);
+        if (!overlap) return;
+        copyOverlap(mosaic, mosaicWindow, data, block, bands);
+        onRegion(mosaic, [overlap[0] - mosaicWindow[0], overlap[1] - mosaicWindow[1], overlap[2], overlap[3]]);
+      }, reportBytes, retryBudget, signal);
+    } else if (resample) {
+      // Reprojection needs the whole window before resampling
+      const rawData = createMosaicBuffer(window[2], window[3], bands);
+      failedBlocks += await readCachedBlocks(tile, image, plan.factor, window, (block, data) => {
+        copyOverlap(rawData, window, data, block, bands);
+      }, reportBytes, retryBudget, signal);
+      resample(mosaic, rawData);
+      onRegion(mosaic, mosaicExtent);
+    }
+  }
+
+  if (failedBlocks > 0) {
+    const totalBlocks = plan.reads.reduce((sum, { image, window }) => sum + windowBlocks(image, window).length, 0);
+    throw new Error(
+      `Failed to download ${failedBlocks} of ${totalBlocks} blocks of embedding data, even after retrying. ` +
+      'Check your internet connection and try again; blocks already downloaded are cached and won\'t be fetched again.'
+    );
+  }
+
+  return mosaic;
+}
+
+/**
+ * Plan and read a selection in one go (see planMosaic and readPlannedMosaic)
+ *
+ * @param factor - Overview downsampling factor to read at (1 = full resolution)
+ * @returns Interleaved Int8 mosaic in native (bottom-up) row order
+ */
+async function readMosaic(
+  bbox: BoundingBox,
+  anchor: TileInfo,
+  tiles: TileInfo[],
+  factor: number,
+  format: EmbeddingFormat,
+  onProgress: (progress: LoadingProgress) => void,
+  signal?: AbortSignal
+): Promise<{ mosaic: Int8Array; width: number; height: number; windowOrigin: PixelCoord }> {
+  const plan = await planMosaic(bbox, anchor, tiles, factor, format, onProgress, signal);
+  const mosaic = await readPlannedMosaic(plan, onProgress, () => {}, signal);
+  return { mosaic, width: plan.width, height: plan.height, windowOrigin: plan.windowOrigin };
+}
+
+/**
+ * Look up the tiles covering a selection for one year, with user-facing errors
+ */
+async function findTilesForYear(
+  bbox: BoundingBox,
+  year: string,
+  signal?: AbortSignal
+): Promise<{ anchor: TileInfo; tiles: TileInfo[] }> {
+  let tileResult;
+  try {
+    tileResult = await findTilesForBoundingBox(bbox, year);
+  } catch (indexError) {
+    console.error('Tile index error:', indexError);
+    throw new Error(
+      'Failed to load tile index. Check your internet connection and try again.'
+    );
+  }
+
+  // The index can't be cancelled mid-read, so stop once it returns
+  throwIfAborted(signal);
+
+  if (!tileResult) {
+    throw new Error(
+      `No satellite data available for this location in ${year}. ` +
+      'AlphaEarth embeddings are not available everywhere. ' +
+      'Try selecting a different area or year.'
+    );
+  }
+
+  return tileResult;
+}
+
+/**
+ * Flip a native-order mosaic to north-up and dequantize it, or keep the
+ * Int8 codes for grids too large to hold as Float32
+ */
+function mosaicToEmbeddingData(
+  mosaic: Int8Array,
+  width: number,
+  height: number,
+  bbox: BoundingBox,
+  pixelSize: number,
+  windowOrigin: PixelCoord,
+  year: string,
+  format: EmbeddingFormat
+): EmbeddingData {
+  // Shared when possible, so the worker pool can read the codes without copies
+  const codes = flipVertical(
+    mosaic,
+    width,
+    height,
+    format.bands,
+    shouldQuantize(width, height, format.bands) ? new Int8Array(allocateBuffer(mosaic.length)) : undefined
+  );
+  return codesToEmbeddingData(codes, width, height, bbox, pixelSize, windowOrigin, year, format);
+}
+
+/**
+ * Dequantize north-up Int8 codes, or keep them as they are for grids too
+ * large to hold as Float32
+ */
+function codesToEmbeddingData(
+  codes: Int8Array,
+  width: number,
+  height: number,
+  bbox: BoundingBox,
+  pixelSize: number,
+  windowOrigin: PixelCoord,
+  year: string,
+  format: EmbeddingFormat
+): EmbeddingData {
+  const grid = { width, height, bounds: bbox, pixelSize, windowOrigin, year, format };
+  const mask = validityMask(codes, width * height, format.bands);
+
+  if (shouldQuantize(width, height, format.bands)) {
+    return { ...grid, storage: 'int8', codes, mask };
+  }
+
+  const { embeddings, magnitudes } = dequantize(codes, width, height, format);
+  return { ...grid, storage: 'float32', embeddings, magnitudes, mask };
+}
+
+/**
+ * Read a local 64-band GeoTIFF (Int8 codes or Float32 values, e.g. an Earth
+ * Engine export) into embedding data. Its bounds come from the geokeys,
+ * which must give a WGS 84 / UTM projection (see localGridFootprint).
+ */
+async function readLocalGeoTiff(
+  file: File,
+  signal?: AbortSignal
+): Promise<{ data: EmbeddingData; tile: TileInfo }> {
+  let image: GeoTIFFImage;
+  try {
+    const tiff = await fromBlob(file, signal);
+    image = await tiff.getImage();
+  } catch (err) {
+    throwIfAborted(signal);
+    console.error('GeoTIFF open error:', err);
+    throw new Error(`${file.name} is not a readable GeoTIFF.`);
+  }
+
+  const bands = image.getSamplesPerPixel();
+  if (bands !== ALPHA_EARTH_FORMAT.bands) {
+    throw new Error(`${file.name} has ${bands} bands; AlphaEarth embeddings have ${ALPHA_EARTH_FORMAT.bands}.`);
+  }
+
+  const bitsPerSample = (image.fileDirectory.BitsPerSample as number[] | undefined)?.[0];
+  const sampleFormat = (image.fileDirectory.SampleFormat as number[] | undefined)?.[0] ?? 1;
+  const isInt8 = bitsPerSample === 8;
+  if (!isInt8 && !(bitsPerSample === 32 && sampleFormat === 3)) {
+    throw new Error(`${file.name} must hold Int8 (quantized) or Float32 embeddings.`);
+  }
+
+  const geoKeys = image.getGeoKeys() as { ProjectedCSTypeGeoKey?: number } | null;
+  const epsg = geoKeys?.ProjectedCSTypeGeoKey;
+  const utmZone = epsg ? utmZoneFromEpsg(epsg) : null;
+  if (!epsg || !utmZone) {
+    throw new Error(
+      `${file.name} must be in a WGS 84 / UTM projection (EPSG:326xx or 327xx), ` +
+      'as the embeddings are published. Re-export it in the UTM zone of the area.'
+    );
+  }
+
+  const width = image.getWidth();
+  const height = image.getHeight();
+  if (width * height > CONFIG.MAX_GRID_PIXELS) {
+    throw new Error(
+      `${file.name} is ${width}×${height} pixels; files up to ${CONFIG.MAX_GRID_PIXELS.toLocaleString()} pixels can be loaded.`
+    );
+  }
+
+  const [minX, minY, maxX, maxY] = image.getBoundingBox();
+  const year = yearFromFileName(file.name) ?? 'local';
+  const { bounds, tile, windowOrigin } = localGridFootprint(file.name, epsg, utmZone, { minX, minY, maxX, maxY }, year);
+  const [resolutionX, resolutionY] = image.getResolution();
+  const pixelSize = Math.abs(resolutionX);
+
+  const rasterData = await image.readRasters({ interleave: true, signal });
+  throwIfAborted(signal);
+
+  // Exports are normally stored north-up (negative Y resolution), unlike the COGs
+  const isNorthUp = resolutionY < 0;
+  let data: EmbeddingData;
+  if (isInt8) {
+    const raster = rasterData as unknown as Uint8Array;
+    const codes = new Int8Array(raster.buffer, raster.byteOffset, raster.length);
+    data = isNorthUp
+      ? codesToEmbeddingData(codes, width, height, bounds, pixelSize, windowOrigin, year, ALPHA_EARTH_FORMAT)
+      : mosaicToEmbeddingData(codes, width, height, bounds, pixelSize, windowOrigin, year, ALPHA_EARTH_FORMAT);
+  } else {
+    const raster = rasterData as unknown as Float32Array;
+    const values = isNorthUp ? raster : flipVertical(raster, width, height, bands);
+    data = floatsToEmbeddingData(values, width, height, image.getGDALNoData(), bounds, pixelSize, windowOrigin, year);
+  }
+
+  return { data, tile };
+}
+
+/**
+ * Read and dequantize the embedding of the pixel containing a point, through
+ * the block cache (see readCachedBlocks), at an overview factor's resolution
+ * Returns null if the point falls outside the tile or the pixel is masked
+ */
+async function readPixelVector(
+  tile: TileInfo,
+  lng: number,
+  lat: number,
+  factor: number,
+  format: EmbeddingFormat,
+  signal?: AbortSignal
+): Promise<{ vector: Float32Array; magnitude: number } | null> {
+  const { bands } = format;
+  const origin = getTileOrigin(tile);
+  const { zone } = parseUTMZone(tile.utmZone);
+  const pixel = latLngToPixel(lat, lng, origin.x, origin.y, CONFIG.PIXEL_SIZE * factor, zone);
+
+  const image = await openTileImage(tile, factor, signal);
+  const window = intersectWindows([pixel.x, pixel.y, 1, 1], [0, 0, image.getWidth(), image.getHeight()]);
+  if (!window) {
+    return null;
+  }
+
+  // The pixel's codes, picked out of the block containing it
+  const codes = new Int8Array(bands);
+  const failed = await readCachedBlocks(tile, image, factor, window, (block, data) => {
+    const offset = ((pixel.y - block[1]) * block[2] + (pixel.x - block[0])) * bands;
+    codes.set(data.subarray(offset, offset + bands));
+  }, () => {}, createRetryBudget(CONFIG.FETCH_RETRY_BUDGET), signal);
+  if (failed > 0) {
+    throw new Error(
+      'Failed to download embedding data. ' +
+      'Check your internet connection and try again.'
+    );
+  }
+
+  const { embeddings, mask, magnitudes } = dequantize(codes, 1, 1, format);
+  return isPixelValid(mask, 0) ? { vector: embeddings, magnitude: magnitudes[0] } : null;
+}
+
+// Callbacks for following a selection as it streams in
+export interface ProgressiveLoadCallbacks {
+  // The grid has been published with every pixel masked, before any data arrives
+  onGridReady?: (data: EmbeddingData) => void;
+  // Some blocks have been filled in, covering this range of grid pixels
+  onUpdate?: (data: EmbeddingData, range: PixelRange) => void;
 }
 
 interface UseCOGLoaderResult {
-  loadEmbeddings: (bbox: BoundingBox) => Promise<EmbeddingData>;
+  loadEmbeddings: (
+    bbox: BoundingBox,
+    year: string,
+    compareYear?: string,
+    callbacks?: ProgressiveLoadCallbacks
+  ) => Promise<EmbeddingData>;
+  loadWindow: (bbox: BoundingBox, year: string, signal?: AbortSignal) => Promise<EmbeddingData>;
+  loadFile: (file: File) => Promise<EmbeddingData>;
+  cancelLoad: () => void;
+  estimateLoad: (bbox: BoundingBox, year: string, compareYear?: string, signal?: AbortSignal) => Promise<LoadEstimate>;
   embeddingData: EmbeddingData | null;
+  comparisonData: EmbeddingData | null;
   currentTile: TileInfo | null;
   isLoading: boolean;
   error: string | null;
   loadingProgress: LoadingProgress | null;
   clearEmbeddings: () => void;
+  loadPixelTimeSeries: (lng: number, lat: number, pixelSize?: number, signal?: AbortSignal) => Promise<PixelTimeSeries>;
 }
 
 export function useCOGLoader(): UseCOGLoaderResult {
   const [embeddingData, setEmbeddingData] = useState<EmbeddingData | null>(null);
+  const [comparisonData, setComparisonData] = useState<EmbeddingData | null>(null);
   const [currentTile, setCurrentTile] = useState<TileInfo | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [loadingProgress, setLoadingProgress] = useState<LoadingProgress | null>(null);
+  // Controller of the load in progress, aborted to cancel it
+  const abortRef = useRef<AbortController | null>(null);
+
+  /**
+   * Load embeddings for a selection. If compareYear is given, the same
+   * selection is also loaded for that year onto the identical pixel grid,
+   * for per-pixel change detection.
+   *
+   * Single-year loads are progressive: the grid is published as soon as the
+   * COG headers are read and filled in block by block as data arrives (see
+   * callbacks), so it can be explored before the download finishes.
+   */
+  const loadEmbeddings = useCallback(async (
+    bbox: BoundingBox,
+    year: string,
+    compareYear?: string,
+    callbacks: ProgressiveLoadCallbacks = {}
+  ): Promise<EmbeddingData> => {
+    // A new load supersedes any still running
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const { signal } = controller;
 
-  const loadEmbeddings = useCallback(async (bbox: BoundingBox): Promise<EmbeddingData> => {
     setIsLoading(true);
     setError(null);
-    setLoadingProgress({ step: 1, totalSteps: 4, message: 'Finding tile...' });
+    setLoadingProgress({ step: 1, totalSteps: 4, message: 'Finding tiles...' });
     ensureDecoderRegistered();
 
-    try {
-      let tileResult;
-      try {
-        tileResult = await findTileForBoundingBox(bbox);
-      } catch (indexError) {
-        if (indexError instanceof Error && indexError.message.includes('UTM zone')) {
-          throw indexError; // Re-throw UTM zone errors as-is
-        }
-        throw new Error(
-          'Failed to load tile index. Check your internet connection and try again.'
-        );
-      }
+    // Label progress messages with the year when loading two of them
+    const progressFor = (label: string) => (progress: LoadingProgress) => {
+      if (signal.aborted) return;
+      setLoadingProgress(
+        compareYear ? { ...progress, message: `${label}: ${progress.message}` } : progress
+      );
+    };
 
-      if (!tileResult) {
-        throw new Error(
-          'No satellite data available for this location. ' +
-          'AlphaEarth embeddings are not available everywhere. ' +
-          'Try selecting a different area.'
-        );
-      }
+    // Whether a grid has been published, so a failed load can withdraw it
+    let isGridPublished = false;
+    const format = sourceFormat();
 
-      const { tile, fullyContained } = tileResult;
-      if (!fullyContained) {
-        console.warn('Bounding box extends beyond tile boundaries. Data may be clipped.');
-      }
+    try {
+      const { anchor, tiles } = await findTilesForYear(bbox, year, signal);
 
-      setCurrentTile(tile);
+      // Large areas are read from a coarser overview; both years use the same level
+      const factor = await chooseReadFactor(bbox, anchor, signal);
+      const pixelSize = CONFIG.PIXEL_SIZE * factor;
 
-      const origin = getTileOrigin(tile);
-      const [windowX, windowY, windowWidth, windowHeight] = bboxToPixelWindow(
-        bbox,
-        origin.x,
-        origin.y,
-        CONFIG.PIXEL_SIZE
-      );
+      const plan = await planMosaic(bbox, anchor, tiles, factor, format, progressFor(year), signal);
+      const { width, height, windowOrigin } = plan;
 
-      if (windowWidth <= 0 || windowHeight <= 0) {
-        throw new Error(
-          'The selected area is too small or invalid. ' +
-          'Please draw a larger bounding box.'
-        );
-      }
+      let result: EmbeddingData;
+      if (!compareYear) {
+        // Publish the empty grid now and fill it in as blocks arrive
+        const grid = createEmptyGrid(width, height, bbox, pixelSize, windowOrigin, year, format);
+        setComparisonData(null);
+        setEmbeddingData(grid);
+        setCurrentTile(anchor);
+        isGridPublished = true;
+        callbacks.onGridReady?.(grid);
 
-      setLoadingProgress({ step: 2, totalSteps: 4, message: 'Opening COG file...' });
-      let tiff;
-      let image;
-      try {
-        tiff = await fromUrl(tile.url);
-        image = await tiff.getImage();
-      } catch (tiffError) {
-        console.error('COG open error:', tiffError);
-        throw new Error(
-          'Failed to open satellite data file. ' +
-          'This may be a temporary server issue. Please try again in a moment.'
-        );
+        await readPlannedMosaic(plan, progressFor(year), (mosaic, region) => {
+          if (signal.aborted) return;
+          const range = fillGridRegion(grid, mosaic, region);
+          callbacks.onUpdate?.(grid, range);
+        }, signal);
+        result = grid;
+      } else {
+        const mosaic = await readPlannedMosaic(plan, progressFor(year), () => {}, signal);
+        throwIfAborted(signal);
+        setLoadingProgress({ step: 4, totalSteps: 4, message: 'Processing data...' });
+        result = mosaicToEmbeddingData(mosaic, width, height, bbox, pixelSize, windowOrigin, year, format);
       }
 
-      setLoadingProgress({ step: 3, totalSteps: 4, message: 'Downloading embeddings...' });
-      let rasterData;
-      try {
-        rasterData = await image.readRasters({
-          window: [windowX, windowY, windowX + windowWidth, windowY + windowHeight],
-          interleave: true,
-        });
-      } catch (rasterError) {
-        console.error('Raster read error:', rasterError);
-        throw new Error(
-          'Failed to download embedding data. ' +
-          'Check your internet connection and try again.'
+      let comparison: EmbeddingData | null = null;
+      if (compareYear) {
+        // Reuse the first year's anchor so both rasters share one pixel grid
+        const compareTiles = await findTilesForYear(bbox, compareYear, signal);
+        const compareMosaic = await readMosaic(
+          bbox,
+          anchor,
+          compareTiles.tiles,
+          factor,
+          format,
+          progressFor(compareYear),
+          signal
+        );
+        throwIfAborted(signal);
+        setLoadingProgress({ step: 4, totalSteps: 4, message: 'Processing data...' });
+        comparison = mosaicToEmbeddingData(
+          compareMosaic.mosaic, width, height, bbox, pixelSize, windowOrigin, compareYear, format
         );
       }
 
-      setLoadingProgress({ step: 4, totalSteps: 4, message: 'Processing data...' });
+      // Late results of a cancelled load never reach state
+      throwIfAborted(signal);
+      abortRef.current = null;
 
-      // Validate rasterData is a typed array with buffer access
-      if (!rasterData || typeof rasterData !== 'object' || !('buffer' in rasterData)) {
-        throw new Error('Unexpected raster data format from GeoTIFF library');
+      setComparisonData(comparison);
+      setEmbeddingData(result);
+      setCurrentTile(anchor);
+      setIsLoading(false);
+      setLoadingProgress(null);
+
+      return result;
+    } catch (err) {
+      // Cancelling already reset the loading state (or a newer load owns it)
+      if (signal.aborted) {
+        throw isAbortError(err) ? err : abortError();
+      }
+      abortRef.current = null;
+      if (isGridPublished) {
+        // Don't leave a partly filled grid behind to be explored
+        setEmbeddingData(null);
+        setCurrentTile(null);
       }
+      const message = err instanceof Error ? err.message : 'Failed to load embeddings';
+      setError(message);
+      setIsLoading(false);
+      setLoadingProgress(null);
+      throw err;
+    }
+  }, []);
 
-      // Convert to Int8Array (geotiff returns Uint8Array, we need signed interpretation)
-      const rasterArray = rasterData as Uint8Array;
-      const rawData = new Int8Array(rasterArray.buffer, rasterArray.byteOffset, rasterArray.length);
+  /**
+   * Read a small area at full resolution without replacing the loaded
+   * selection, e.g. to refine blocks of a coarse overview result
+   */
+  const loadWindow = useCallback(async (
+    bbox: BoundingBox,
+    year: string,
+    signal?: AbortSignal
+  ): Promise<EmbeddingData> => {
+    ensureDecoderRegistered();
+    const format = sourceFormat();
+    const { anchor, tiles } = await findTilesForYear(bbox, year, signal);
+    const { mosaic, width, height, windowOrigin } = await readMosaic(bbox, anchor, tiles, 1, format, () => {}, signal);
+    throwIfAborted(signal);
+    return mosaicToEmbeddingData(mosaic, width, height, bbox, CONFIG.PIXEL_SIZE, windowOrigin, year, format);
+  }, []);
 
-      const flippedData = flipVertical(
-        rawData,
-        windowWidth,
-        windowHeight,
-        CONFIG.EMBEDDING_BANDS
-      );
+  /**
+   * Load embeddings from a local GeoTIFF instead of the COGs, replacing the
+   * loaded selection (see readLocalGeoTiff)
+   */
+  const loadFile = useCallback(async (file: File): Promise<EmbeddingData> => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const { signal } = controller;
 
-      const { embeddings, mask } = dequantize(flippedData, windowWidth, windowHeight);
+    setIsLoading(true);
+    setError(null);
+    setLoadingProgress({ step: 1, totalSteps: 1, message: `Reading ${file.name}...` });
+    ensureDecoderRegistered();
 
-      const result: EmbeddingData = {
-        embeddings,
-        width: windowWidth,
-        height: windowHeight,
-        bounds: bbox,
-        mask,
-      };
+    try {
+      const { data, tile } = await readLocalGeoTiff(file, signal);
+      throwIfAborted(signal);
+      abortRef.current = null;
 
-      setEmbeddingData(result);
+      setCurrentTile(tile);
+      setComparisonData(null);
+      setEmbeddingData(data);
       setIsLoading(false);
       setLoadingProgress(null);
 
-      return result;
+      return data;
     } catch (err) {
-      const message = err instanceof Error ? err.message : 'Failed to load embeddings';
+      if (signal.aborted) {
+        throw isAbortError(err) ? err : abortError();
+      }
+      abortRef.current = null;
+      const message = err instanceof Error ? err.message : 'Failed to read file';
       setError(message);
       setIsLoading(false);
       setLoadingProgress(null);
@@ -175,20 +1021,119 @@ export function useCOGLoader(): UseCOGLoaderResult {
     }
   }, []);
 
+  /**
+   * Work out what loadEmbeddings would read for a selection (grid size, COG
+   * tiles, download and memory) from the COG headers and the cache, without
+   * downloading any embeddings
+   */
+  const estimateLoad = useCallback(async (
+    bbox: BoundingBox,
+    year: string,
+    compareYear?: string,
+    signal?: AbortSignal
+  ): Promise<LoadEstimate> => {
+    const format = sourceFormat();
+    const { anchor, tiles } = await findTilesForYear(bbox, year, signal);
+    const factor = await chooseReadFactor(bbox, anchor, signal);
+    const plans = [await planMosaic(bbox, anchor, tiles, factor, format, () => {}, signal)];
+
+    if (compareYear) {
+      const compareTiles = await findTilesForYear(bbox, compareYear, signal);
+      plans.push(await planMosaic(bbox, anchor, compareTiles.tiles, factor, format, () => {}, signal));
+    }
+
+    const downloadBytes = (await Promise.all(plans.map(planDownloadBytes)))
+      .reduce((sum, bytes) => sum + bytes, 0);
+    throwIfAborted(signal);
+
+    const { width, height } = plans[0];
+    return {
+      width,
+      height,
+      pixelSize: CONFIG.PIXEL_SIZE * factor,
+      internalTiles: plans.reduce(
+        (sum, plan) => sum + plan.reads.reduce(
+          (count, read) => count + windowBlocks(read.image, read.window).length,
+          0
+        ),
+        0
+      ),
+      downloadBytes,
+      memoryBytes: embeddingMemoryBytes(width, height, format.bands) * plans.length,
+    };
+  }, []);
+
+  /**
+   * Stop the load in progress; its results are discarded
+   */
+  const cancelLoad = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setIsLoading(false);
+    setLoadingProgress(null);
+  }, []);
+
   const clearEmbeddings = useCallback(() => {
+    cancelLoad();
     setEmbeddingData(null);
+    setComparisonData(null);
     setCurrentTile(null);
     setError(null);
     setLoadingProgress(null);
+  }, [cancelLoad]);
+
+  /**
+   * Fetch one pixel's embedding from every available year's COG.
+   * Independent of the loaded selection, so any location can be inspected;
+   * pass the selection's pixel size to read at its resolution, which also
+   * reuses its cached blocks.
+   */
+  const loadPixelTimeSeries = useCallback(async (
+    lng: number,
+    lat: number,
+    pixelSize: number = CONFIG.PIXEL_SIZE,
+    signal?: AbortSignal
+  ): Promise<PixelTimeSeries> => {
+    ensureDecoderRegistered();
+    const point: BoundingBox = { minLng: lng, minLat: lat, maxLng: lng, maxLat: lat };
+    const factor = Math.round(pixelSize / CONFIG.PIXEL_SIZE);
+    const format = sourceFormat();
+
+    const entries = await Promise.all(
+      CONFIG.AVAILABLE_YEARS.map(async (year) => {
+        let tileResult;
+        try {
+          tileResult = await findTileForBoundingBox(point, year);
+        } catch (indexError) {
+          console.error('Tile index error:', indexError);
+          throw new Error(
+            'Failed to load tile index. Check your internet connection and try again.'
+          );
+        }
+
+        throwIfAborted(signal);
+
+        const pixel = tileResult ? await readPixelVector(tileResult.tile, lng, lat, factor, format, signal) : null;
+        return { year, vector: pixel?.vector ?? null, magnitude: pixel?.magnitude ?? 0 };
+      })
+    );
+
+    return { lng, lat, entries };
   }, []);
 
   return {
     loadEmbeddings,
+    loadWindow,
+    loadFile,
+    cancelLoad,
+    estimateLoad,
     embeddingData,
+    comparisonData,
     currentTile,
     isLoading,
     error,
     loadingProgress,
     clearEmbeddings,
+    loadPixelTimeSeries,
   };
 }
@@ -0,0 +1,44 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { BoundingBox, SelectionCoverage } from '../types';
+import { checkCoverage, fetchCoverageFootprints } from '../utils/cogIndex';
+import type { CoverageFootprints } from '../utils/cogIndex';
+
+interface UseCoverageResult {
+  coverage: CoverageFootprints | null;
+  checkSelection: (bbox: BoundingBox) => Promise<SelectionCoverage | null>;
+}
+
+/**
+ * Footprints of the tiles the data source publishes, fetched on mount so
+ * they can be drawn while an area is picked, and a check of which years
+ * cover a selection. Both give up quietly (null) if the index can't be
+ * read: loading then reports the problem.
+ */
+export function useCoverage(): UseCoverageResult {
+  const [coverage, setCoverage] = useState<CoverageFootprints | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchCoverageFootprints()
+      .then((footprints) => {
+        if (!cancelled) setCoverage(footprints);
+      })
+      .catch((error) => {
+        console.warn('Failed to load tile coverage:', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const checkSelection = useCallback(async (bbox: BoundingBox): Promise<SelectionCoverage | null> => {
+    try {
+      return await checkCoverage(bbox);
+    } catch (error) {
+      console.warn('Coverage check failed:', error);
+      return null;
+    }
+  }, []);
+
+  return { coverage, checkSelection };
+}
@@ -0,0 +1,111 @@
+import { useState, useEffect, useRef } from 'react';
+import type { BoundingBox, EmbeddingData, RefinementProgress, SimilarityQuery, SimilarityResult } from '../types';
+import { blockBounds, topBlocks } from '../utils/refinement';
+import { isDistanceMetric } from '../utils/similarity';
+import { CONFIG } from '../constants';
+
+interface UseRefinementOptions {
+  similarityResult: SimilarityResult | null;
+  query: SimilarityQuery | null;
+  embeddingData: EmbeddingData | null;
+  enabled: boolean;
+  loadWindow: (bbox: BoundingBox, year: string, signal?: AbortSignal) => Promise<EmbeddingData>;
+  scoreWindow: (windowData: EmbeddingData, query: SimilarityQuery) => Promise<Float32Array>;
+}
+
+interface UseRefinementResult {
+  refinedResults: SimilarityResult[];
+  refinementProgress: RefinementProgress | null;
+  canRefine: boolean;
+}
+
+/**
+ * Coarse-to-fine search: once a similarity result computed on an overview
+ * grid arrives, reload its best blocks at full resolution one at a time and
+ * score them with the same query. Refined blocks appear as they finish; a
+ * newer result aborts the downloads still pending.
+ */
+export function useRefinement({
+  similarityResult,
+  query,
+  embeddingData,
+  enabled,
+  loadWindow,
+  scoreWindow,
+}: UseRefinementOptions): UseRefinementResult {
+  const [refinedResults, setRefinedResults] = useState<SimilarityResult[]>([]);
+  const [refinementProgress, setRefinementProgress] = useState<RefinementProgress | null>(null);
+
+  // Bumped for every result so blocks of an older one are dropped
+  const runIdRef = useRef(0);
+
+  // Refinement needs the query the result was scored with; read it when a result lands
+  const queryRef = useRef(query);
+  queryRef.current = query;
+
+  const canRefine =
+    similarityResult?.kind === 'similarity' &&
+    embeddingData !== null &&
+    embeddingData.pixelSize > CONFIG.PIXEL_SIZE;
+
+  useEffect(() => {
+    const runId = ++runIdRef.current;
+    setRefinedResults([]);
+    setRefinementProgress(null);
+
+    const refineQuery = queryRef.current;
+    if (!enabled || !canRefine || !similarityResult || !embeddingData || !refineQuery) {
+      return;
+    }
+
+    const { scores, width, height, bounds, metric } = similarityResult;
+    const blockSize = Math.max(1, Math.round(CONFIG.REFINE_BLOCK_METERS / embeddingData.pixelSize));
+    const lowerIsBetter = metric !== null && isDistanceMetric(metric);
+    const blocks = topBlocks(scores, width, height, blockSize, CONFIG.REFINE_TOP_BLOCKS, lowerIsBetter);
+    if (blocks.length === 0) {
+      return;
+    }
+
+    const controller = new AbortController();
+
+    const run = async () => {
+      setRefinementProgress({ done: 0, total: blocks.length, error: null });
+
+      for (let i = 0; i < blocks.length; i++) {
+        const blockBbox = blockBounds(blocks[i], bounds, width, height);
+        try {
+          const windowData = await loadWindow(blockBbox, embeddingData.year, controller.signal);
+          if (runId !== runIdRef.current) return;
+
+          const windowScores = await scoreWindow(windowData, refineQuery);
+          if (runId !== runIdRef.current) return;
+
+          setRefinedResults(prev => [...prev, {
+            scores: windowScores,
+            width: windowData.width,
+            height: windowData.height,
+            bounds: windowData.bounds,
+            kind: 'similarity',
+            metric,
+          }]);
+          setRefinementProgress({ done: i + 1, total: blocks.length, error: null });
+        } catch (err) {
+          if (runId !== runIdRef.current) return;
+          console.error('Refinement error:', err);
+          setRefinementProgress({
+            done: i,
+            total: blocks.length,
+            error: err instanceof Error ? err.message : 'Failed to refine results',
+          });
+          return;
+        }
+      }
+    };
+
+    run();
+
+    return () => controller.abort();
+  }, [similarityResult, embeddingData, enabled, canRefine, loadWindow, scoreWindow]);
+
+  return { refinedResults, refinementProgress, canRefine };
+}
@@ -1,90 +1,215 @@
-import { useState, useCallback, useRef, useEffect } from 'react';
-import { EmbeddingData, ReferencePixel, SimilarityResult, BoundingBox } from '../types';
-import { latLngToPixel } from '../utils/coordinates';
-import { extractEmbeddingVector } from '../utils/dequantize';
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import { EmbeddingData, ReferencePixel, SimilarityResult, BoundingBox, AnalysisMode, ReferenceAggregation, ReferenceKind, NegativeMode, SimilarityQuery, SimilarityMetric } from '../types';
+import { gridPixelAt, parseUTMZone } from '../utils/coordinates';
+import { isPixelValid, readEmbedding, unpackMask } from '../utils/quantized';
 import { getTileOrigin } from '../utils/cogIndex';
 import { createPolygonMask } from '../utils/polygonMask';
+import { regionReference } from '../utils/similarity';
+import { pooledCovariance } from '../utils/mahalanobis';
+import { allocateBuffer, isShared, mergeChunks, pixelChunk, poolSize, splitPixels, PixelRange } from '../utils/workerPool';
 import { CONFIG } from '../constants';
+import { useDebounce } from './useDebounce';
 import type { TileInfo } from '../types';
 import type { WorkerResponse } from '../workers/similarity.worker';
 import SimilarityWorker from '../workers/similarity.worker?worker';
 
 interface UseSimilarityResult {
-  referencePixel: ReferencePixel | null;
+  referencePixels: ReferencePixel[];
   similarityResult: SimilarityResult | null;
+  aggregation: ReferenceAggregation;
+  setAggregation: (aggregation: ReferenceAggregation) => void;
+  metric: SimilarityMetric;
+  setMetric: (metric: SimilarityMetric) => void;
+  hasReferenceRegion: boolean;
+  negativeMode: NegativeMode;
+  setNegativeMode: (mode: NegativeMode) => void;
+  negativeWeight: number;
+  setNegativeWeight: (weight: number) => void;
+  query: SimilarityQuery | null;
   selectReferencePixel: (
     lng: number,
     lat: number,
     embeddingData: EmbeddingData,
-    tile: TileInfo
+    tile: TileInfo,
+    kind?: ReferenceKind
   ) => { success: boolean; error?: string };
+  selectReferenceRegion: (
+    polygon: [number, number][],
+    embeddingData: EmbeddingData,
+    kind?: ReferenceKind
+  ) => { success: boolean; error?: string };
+  removeReferencePixel: (id: number) => void;
+  calculateChange: (embeddingData: EmbeddingData) => { success: boolean; error?: string };
   clearReference: () => void;
   isCalculating: boolean;
-  initWorker: (embeddingData: EmbeddingData) => void;
+  isWorkerReady: boolean;
+  initWorker: (embeddingData: EmbeddingData, comparisonData?: EmbeddingData | null) => void;
+  updateWorker: (embeddingData: EmbeddingData, range: PixelRange) => void;
+  scoreWindow: (windowData: EmbeddingData, query: SimilarityQuery) => Promise<Float32Array>;
+}
+
+/**
+ * Copy a boolean mask into a Uint8Array the worker pool can share
+ */
+function toMaskArray(mask: boolean[]): Uint8Array {
+  const array = new Uint8Array(allocateBuffer(mask.length));
+  mask.forEach((valid, i) => {
+    array[i] = valid ? 1 : 0;
+  });
+  return array;
 }
 
 export function useSimilarity(): UseSimilarityResult {
-  const [referencePixel, setReferencePixel] = useState<ReferencePixel | null>(null);
+  const [referencePixels, setReferencePixels] = useState<ReferencePixel[]>([]);
+  const [aggregation, setAggregation] = useState<ReferenceAggregation>('mean');
+  const [metric, setMetric] = useState<SimilarityMetric>('cosine');
+  const [negativeMode, setNegativeMode] = useState<NegativeMode>('subtract');
+  const [negativeWeight, setNegativeWeight] = useState(0.5);
   const [similarityResult, setSimilarityResult] = useState<SimilarityResult | null>(null);
   const [isCalculating, setIsCalculating] = useState(false);
   const [isWorkerReady, setIsWorkerReady] = useState(false);
+  // Bumped as blocks of a streaming selection arrive, to rescore the new pixels
+  const [dataVersion, setDataVersion] = useState(0);
 
-  const workerRef = useRef<Worker | null>(null);
+  // Scoring is split across a pool of workers, each owning one range of pixels
+  const workersRef = useRef<Worker[]>([]);
+  const rangesRef = useRef<PixelRange[]>([]);
+  const readyCountRef = useRef(0);
   const requestIdRef = useRef(0);
+  // Score chunks received so far for the current request
+  const chunksRef = useRef<{
+    requestId: number;
+    ranges: PixelRange[];
+    chunks: Float32Array[];
+    remaining: number;
+  } | null>(null);
+  // Standalone windows being scored (coarse-to-fine refinement), by id
+  const windowsRef = useRef(new Map<number, {
+    resolve: (scores: Float32Array) => void;
+    reject: (error: Error) => void;
+  }>());
+  const nextWindowIdRef = useRef(0);
+  const nextReferenceIdRef = useRef(1);
+  // Grid of the embeddings the worker was initialized with
+  const gridRef = useRef<{ bounds: BoundingBox; width: number; height: number } | null>(null);
+  // The embeddings themselves and their unpacked mask, for progressive updates
+  const dataRef = useRef<EmbeddingData | null>(null);
+  const maskArrayRef = useRef<Uint8Array | null>(null);
+  const updateTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const pendingResultRef = useRef<{
     bounds: BoundingBox;
     width: number;
     height: number;
+    kind: AnalysisMode;
+    metric: SimilarityMetric | null;
   } | null>(null);
 
-  // Initialize worker on mount
+  // Initialize the worker pool on mount
   useEffect(() => {
-    const worker = new SimilarityWorker();
+    const resetPending = () => {
+      setIsCalculating(false);
+      pendingResultRef.current = null;
+      chunksRef.current = null;
+    };
 
-    worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
-      if (e.data.type === 'ready') {
-        setIsWorkerReady(true);
-      } else if (e.data.type === 'result') {
+    const handleMessage = (workerIndex: number, response: WorkerResponse) => {
+      if (response.type === 'ready') {
+        // Ready once every worker that was given a range has its data
+        readyCountRef.current++;
+        if (readyCountRef.current === rangesRef.current.length) {
+          setIsWorkerReady(true);
+        }
+      } else if (response.type === 'result') {
         // Ignore stale results
-        if (e.data.requestId === requestIdRef.current && pendingResultRef.current) {
-          const result: SimilarityResult = {
-            scores: e.data.scores,
-            width: pendingResultRef.current.width,
-            height: pendingResultRef.current.height,
-            bounds: pendingResultRef.current.bounds,
-          };
-          setSimilarityResult(result);
-          setIsCalculating(false);
-          pendingResultRef.current = null;
+        const pending = chunksRef.current;
+        if (response.requestId !== requestIdRef.current || !pending || pending.requestId !== response.requestId) {
+          return;
+        }
+
+        pending.chunks[workerIndex] = response.scores;
+        pending.remaining--;
+        if (pending.remaining > 0 || !pendingResultRef.current) {
+          return;
+        }
+
+        const grid = pendingResultRef.current;
+        const result: SimilarityResult = {
+          scores: mergeChunks(pending.chunks, pending.ranges, grid.width * grid.height),
+          width: grid.width,
+          height: grid.height,
+          bounds: grid.bounds,
+          kind: grid.kind,
+          metric: grid.metric,
+        };
+        setSimilarityResult(result);
+        resetPending();
+      } else if (response.type === 'windowResult') {
+        windowsRef.current.get(response.windowId)?.resolve(response.scores);
+        windowsRef.current.delete(response.windowId);
+      } else if (response.type === 'error') {
+        console.error('Worker error:', response.message);
+        if (response.windowId !== undefined) {
+          windowsRef.current.get(response.windowId)?.reject(new Error(response.message));
+          windowsRef.current.delete(response.windowId);
+        } else {
+          resetPending();
         }
-      } else if (e.data.type === 'error') {
-        console.error('Worker error:', e.data.message);
-        setIsCalculating(false);
-        pendingResultRef.current = null;
       }
     };
 
-    worker.onerror = (e) => {
-      console.error('Worker error:', e);
-      setIsCalculating(false);
-      pendingResultRef.current = null;
+    const rejectWindows = (message: string) => {
+      windowsRef.current.forEach(({ reject }) => reject(new Error(message)));
+      windowsRef.current.clear();
     };
 
-    workerRef.current = worker;
+    const workers = Array.from({ length: poolSize(navigator.hardwareConcurrency) }, (_, index) => {
+      const worker = new SimilarityWorker();
+      worker.onmessage = (e: MessageEvent<WorkerResponse>) => handleMessage(index, e.data);
+      worker.onerror = (e) => {
+        console.error('Worker error:', e);
+        resetPending();
+        rejectWindows('Similarity worker failed');
+      };
+      return worker;
+    });
+
+    workersRef.current = workers;
 
     return () => {
-      worker.terminate();
+      if (updateTimerRef.current) clearTimeout(updateTimerRef.current);
+      workers.forEach(worker => worker.terminate());
+      workersRef.current = [];
+      rejectWindows('Similarity workers stopped');
     };
   }, []);
 
-  // Initialize worker with embeddings
-  const initWorker = useCallback((embeddingData: EmbeddingData) => {
-    if (!workerRef.current) return;
+  // Initialize the workers with embeddings (and optionally a second year for change detection)
+  const initWorker = useCallback((
+    embeddingData: EmbeddingData,
+    comparisonData: EmbeddingData | null = null
+  ) => {
+    const workers = workersRef.current;
+    if (workers.length === 0) return;
 
     setIsWorkerReady(false);
+    // Scores still in flight belong to the previous grid
+    requestIdRef.current++;
+    pendingResultRef.current = null;
+    chunksRef.current = null;
+    setIsCalculating(false);
+    gridRef.current = {
+      bounds: embeddingData.bounds,
+      width: embeddingData.width,
+      height: embeddingData.height,
+    };
 
-    // Convert boolean[] to Uint8Array
-    const maskArray = new Uint8Array(embeddingData.mask.map(b => b ? 1 : 0));
+    // Unpack validity bitmasks to one byte per pixel
+    const numPixels = embeddingData.width * embeddingData.height;
+    const unpack = (mask: Uint8Array) => unpackMask(mask, numPixels, new Uint8Array(allocateBuffer(numPixels)));
+    const maskArray = unpack(embeddingData.mask);
+    dataRef.current = embeddingData;
+    maskArrayRef.current = maskArray;
+    const comparisonMaskArray = comparisonData ? unpack(comparisonData.mask) : null;
 
     // Create polygon mask if custom shape was drawn
     const polygonMask = createPolygonMask(
@@ -92,17 +217,135 @@ export function useSimilarity(): UseSimilarityResult {
       embeddingData.width,
       embeddingData.height
     );
-    const polygonMaskArray = polygonMask
-      ? new Uint8Array(polygonMask.map(b => b ? 1 : 0))
-      : null;
-
-    workerRef.current.postMessage({
-      type: 'init',
-      embeddings: embeddingData.embeddings,
-      mask: maskArray,
-      polygonMask: polygonMaskArray,
-      width: embeddingData.width,
-      height: embeddingData.height,
+    const polygonMaskArray = polygonMask ? toMaskArray(polygonMask) : null;
+
+    // Hand each worker its range of pixels: views when the buffers are shared,
+    // otherwise copies whose buffers are transferred
+    const ranges = splitPixels(numPixels, workers.length);
+    rangesRef.current = ranges;
+    readyCountRef.current = 0;
+
+    const { bands } = embeddingData.format;
+    ranges.forEach((range, i) => {
+      const isFloat = embeddingData.storage === 'float32';
+      const chunks = {
+        embeddings: isFloat ? pixelChunk(embeddingData.embeddings, range, bands) : null,
+        magnitudes: isFloat ? pixelChunk(embeddingData.magnitudes, range) : null,
+        codes: isFloat ? null : pixelChunk(embeddingData.codes, range, bands),
+        mask: pixelChunk(maskArray, range),
+        polygonMask: polygonMaskArray && pixelChunk(polygonMaskArray, range),
+        comparisonEmbeddings: comparisonData?.storage === 'float32'
+          ? pixelChunk(comparisonData.embeddings, range, bands)
+          : null,
+        comparisonCodes: comparisonData?.storage === 'int8'
+          ? pixelChunk(comparisonData.codes, range, bands)
+          : null,
+        comparisonMask: comparisonMaskArray && pixelChunk(comparisonMaskArray, range),
+      };
+      const transfer = Object.values(chunks)
+        .filter((chunk): chunk is Float32Array | Int8Array | Uint8Array => chunk !== null && !isShared(chunk))
+        .map(chunk => chunk.buffer as ArrayBuffer);
+
+      workers[i].postMessage({ type: 'init', ...chunks, format: embeddingData.format }, transfer);
+    });
+  }, []);
+
+  /**
+   * Pass newly loaded pixels of a streaming selection to the workers, then
+   * rescore once updates have settled. Updates for embeddings other than
+   * those the workers were initialized with are ignored (init copies them).
+   */
+  const updateWorker = useCallback((embeddingData: EmbeddingData, range: PixelRange) => {
+    const maskArray = maskArrayRef.current;
+    if (embeddingData !== dataRef.current || !maskArray) return;
+
+    for (let i = range.start; i < range.end; i++) {
+      maskArray[i] = isPixelValid(embeddingData.mask, i) ? 1 : 0;
+    }
+
+    // Shared buffers are already up to date in every worker
+    if (!isShared(maskArray)) {
+      const { bands } = embeddingData.format;
+      const isFloat = embeddingData.storage === 'float32';
+      rangesRef.current.forEach((workerRange, i) => {
+        const overlap = {
+          start: Math.max(range.start, workerRange.start),
+          end: Math.min(range.end, workerRange.end),
+        };
+        if (overlap.start >= overlap.end) return;
+
+        const chunks = {
+          embeddings: isFloat ? pixelChunk(embeddingData.embeddings, overlap, bands) : null,
+          magnitudes: isFloat ? pixelChunk(embeddingData.magnitudes, overlap) : null,
+          codes: isFloat ? null : pixelChunk(embeddingData.codes, overlap, bands),
+          mask: pixelChunk(maskArray, overlap),
+        };
+        const transfer = Object.values(chunks)
+          .filter((chunk): chunk is Float32Array | Int8Array | Uint8Array => chunk !== null)
+          .map(chunk => chunk.buffer as ArrayBuffer);
+
+        workersRef.current[i].postMessage(
+          { type: 'update', offset: overlap.start - workerRange.start, ...chunks },
+          transfer
+        );
+      });
+    }
+
+    if (!updateTimerRef.current) {
+      updateTimerRef.current = setTimeout(() => {
+        updateTimerRef.current = null;
+        setDataVersion(version => version + 1);
+      }, CONFIG.PROGRESSIVE_UPDATE_MS);
+    }
+  }, []);
+
+  // Send a scoring request to every initialized worker, superseding any in flight
+  const postToPool = useCallback((message: { type: 'calculate'; query: SimilarityQuery } | { type: 'change' }) => {
+    requestIdRef.current++;
+    const ranges = rangesRef.current;
+    chunksRef.current = {
+      requestId: requestIdRef.current,
+      ranges,
+      chunks: new Array(ranges.length),
+      remaining: ranges.length,
+    };
+
+    ranges.forEach((_, i) => {
+      workersRef.current[i].postMessage({ ...message, requestId: requestIdRef.current });
+    });
+  }, []);
+
+  /**
+   * Score a separately loaded window (e.g. a full-resolution block) with the
+   * given query. Windows go to the workers in turn, alongside their ranges.
+   */
+  const scoreWindow = useCallback((
+    windowData: EmbeddingData,
+    windowQuery: SimilarityQuery
+  ): Promise<Float32Array> => {
+    const workers = workersRef.current;
+    if (workers.length === 0) {
+      return Promise.reject(new Error('Worker not ready'));
+    }
+
+    const windowId = nextWindowIdRef.current++;
+    const polygonMask = createPolygonMask(windowData.bounds, windowData.width, windowData.height);
+    const isFloat = windowData.storage === 'float32';
+    const message = {
+      type: 'scoreWindow',
+      embeddings: isFloat ? windowData.embeddings : null,
+      magnitudes: isFloat ? windowData.magnitudes : null,
+      codes: isFloat ? null : windowData.codes,
+      mask: unpackMask(windowData.mask, windowData.width * windowData.height),
+      polygonMask: polygonMask ? toMaskArray(polygonMask) : null,
+      format: windowData.format,
+      query: windowQuery,
+      windowId,
+    };
+
+    return new Promise((resolve, reject) => {
+      windowsRef.current.set(windowId, { resolve, reject });
+      workers[windowId % workers.length].postMessage(message);
     });
   }, []);
 
@@ -111,49 +354,31 @@ export function useSimilarity(): UseSimilarityResult {
       lng: number,
       lat: number,
       embeddingData: EmbeddingData,
-      tile: TileInfo
+      tile: TileInfo,
+      kind: ReferenceKind = 'positive'
     ): { success: boolean; error?: string } => {
-      if (!workerRef.current || !isWorkerReady) {
+      if (workersRef.current.length === 0 || !isWorkerReady) {
         return { success: false, error: 'Worker not ready' };
       }
 
       try {
-        // Convert click coordinates to pixel coordinates in native COG order
+        // Convert click coordinates to a pixel of the grid, projected into the
+        // tile's zone even if the click lies in a neighbouring one, at the loaded
+        // grid's resolution (coarser when read from an overview)
         const origin = getTileOrigin(tile);
-        const pixelCoord = latLngToPixel(lat, lng, origin.x, origin.y, CONFIG.PIXEL_SIZE);
-
-        // Calculate the SW corner of the window (smallest pixel coords in native order)
-        const windowSW = latLngToPixel(
-          embeddingData.bounds.minLat,
-          embeddingData.bounds.minLng,
-          origin.x,
-          origin.y,
-          CONFIG.PIXEL_SIZE
-        );
-
-        // Local coordinates in native COG order (row 0 = south)
-        const localX = pixelCoord.x - windowSW.x;
-        const nativeLocalY = pixelCoord.y - windowSW.y;
-
-        // After flipVertical, row 0 is north, so we need to flip Y
-        const localY = (embeddingData.height - 1) - nativeLocalY;
-
-        // Validate pixel is within bounds
-        if (
-          localX < 0 ||
-          localX >= embeddingData.width ||
-          localY < 0 ||
-          localY >= embeddingData.height
-        ) {
+        const { zone } = parseUTMZone(tile.utmZone);
+        const pixel = gridPixelAt(lat, lng, embeddingData, origin.x, origin.y, zone);
+        if (!pixel) {
           return {
             success: false,
             error: 'Click outside loaded area. Please click within the bounding box.',
           };
         }
+        const { x: localX, y: localY } = pixel;
 
         // Check if pixel is masked
         const pixelIdx = localY * embeddingData.width + localX;
-        if (!embeddingData.mask[pixelIdx]) {
+        if (!isPixelValid(embeddingData.mask, pixelIdx)) {
           return {
             success: false,
             error: 'No data for this pixel (cloud, water, or masked area). Try clicking a different location.',
@@ -161,62 +386,210 @@ export function useSimilarity(): UseSimilarityResult {
         }
 
         // Extract the embedding vector at this pixel
-        const vector = extractEmbeddingVector(
-          embeddingData.embeddings,
-          localX,
-          localY,
-          embeddingData.width
-        );
+        const vector = new Float32Array(embeddingData.format.bands);
+        const magnitude = readEmbedding(embeddingData, pixelIdx, vector);
 
-        // Store reference pixel
+        // Add to the reference set; scores are recalculated by the effect below
         const refPixel: ReferencePixel = {
+          id: nextReferenceIdRef.current++,
+          kind,
           lng,
           lat,
           pixelX: localX,
           pixelY: localY,
           vector,
+          rawVector: vector.map(v => v * magnitude),
         };
-        setReferencePixel(refPixel);
+        setReferencePixels(prev => [...prev, refPixel]);
 
-        // Store pending result metadata for when worker responds
-        pendingResultRef.current = {
-          bounds: embeddingData.bounds,
-          width: embeddingData.width,
-          height: embeddingData.height,
+        return { success: true };
+      } catch (err) {
+        return {
+          success: false,
+          error: err instanceof Error ? err.message : 'Failed to calculate similarity',
         };
+      }
+    },
+    [isWorkerReady]
+  );
 
-        // Send calculation request to worker
-        setIsCalculating(true);
-        requestIdRef.current++;
+  const selectReferenceRegion = useCallback(
+    (
+      polygon: [number, number][],
+      embeddingData: EmbeddingData,
+      kind: ReferenceKind = 'positive'
+    ): { success: boolean; error?: string } => {
+      if (workersRef.current.length === 0 || !isWorkerReady) {
+        return { success: false, error: 'Worker not ready' };
+      }
 
-        workerRef.current.postMessage({
-          type: 'calculate',
-          refVector: vector,
-          requestId: requestIdRef.current,
-        });
+      // Pixels of the loaded grid inside the drawn region
+      const regionMask = createPolygonMask(
+        { ...embeddingData.bounds, polygon },
+        embeddingData.width,
+        embeddingData.height
+      );
+      const region = regionMask && regionReference(embeddingData, regionMask);
 
-        return { success: true };
-      } catch (err) {
+      if (!region) {
         return {
           success: false,
-          error: err instanceof Error ? err.message : 'Failed to calculate similarity',
+          error: 'No valid data inside the drawn region. Draw it over the loaded area, away from masked pixels.',
         };
       }
+
+      // Place the reference at the polygon's vertex centroid (ring is closed)
+      const vertices = polygon.slice(0, -1);
+      const lng = vertices.reduce((sum, [x]) => sum + x, 0) / vertices.length;
+      const lat = vertices.reduce((sum, [, y]) => sum + y, 0) / vertices.length;
+
+      const refPixel: ReferencePixel = {
+        id: nextReferenceIdRef.current++,
+        kind,
+        lng,
+        lat,
+        pixelX: region.centerX,
+        pixelY: region.centerY,
+        vector: region.vector,
+        rawVector: region.rawVector,
+        region: {
+          polygon,
+          pixelCount: region.pixelCount,
+          meanSimilarity: region.meanSimilarity,
+          minSimilarity: region.minSimilarity,
+          covariance: region.covariance,
+        },
+      };
+      setReferencePixels(prev => [...prev, refPixel]);
+
+      return { success: true };
     },
     [isWorkerReady]
   );
 
+  const removeReferencePixel = useCallback((id: number) => {
+    setReferencePixels(prev => prev.filter(ref => ref.id !== id));
+  }, []);
+
+  // Debounce the weight so dragging its slider doesn't queue a calculation per step
+  const debouncedNegativeWeight = useDebounce(negativeWeight, 150);
+
+  // Mahalanobis distance uses the covariance of the positive reference regions
+  const covariance = useMemo(() => {
+    const regions = referencePixels
+      .filter(ref => ref.kind === 'positive' && ref.region)
+      .map(ref => ref.region!);
+    return regions.length > 0 ? pooledCovariance(regions) : null;
+  }, [referencePixels]);
+  const hasReferenceRegion = covariance !== null;
+
+  // Fall back to cosine similarity when the last reference region is removed
+  useEffect(() => {
+    if (metric === 'mahalanobis' && !hasReferenceRegion) {
+      setMetric('cosine');
+    }
+  }, [metric, hasReferenceRegion]);
+
+  // Scoring query for the current references; null until there is a positive one
+  const query = useMemo((): SimilarityQuery | null => {
+    const positives = referencePixels.filter(ref => ref.kind === 'positive');
+    const negatives = referencePixels.filter(ref => ref.kind === 'negative');
+    if (positives.length === 0 || (metric === 'mahalanobis' && !covariance)) {
+      return null;
+    }
+    return {
+      metric,
+      positives: positives.map(ref => ref.vector),
+      negatives: negatives.map(ref => ref.vector),
+      rawPositives: positives.map(ref => ref.rawVector),
+      rawNegatives: negatives.map(ref => ref.rawVector),
+      covariance,
+      aggregation,
+      negativeMode,
+      negativeWeight: debouncedNegativeWeight,
+    };
+  }, [referencePixels, metric, covariance, aggregation, negativeMode, debouncedNegativeWeight]);
+
+  // Recalculate similarity whenever the query changes or more data has loaded
+  useEffect(() => {
+    if (!query) {
+      // The last positive reference was removed: drop its heatmap and any
+      // calculation still in flight (change maps have no query and stay)
+      if (pendingResultRef.current?.kind === 'similarity') {
+        requestIdRef.current++;
+        pendingResultRef.current = null;
+        chunksRef.current = null;
+        setIsCalculating(false);
+      }
+      setSimilarityResult(result => (result?.kind === 'similarity' ? null : result));
+      return;
+    }
+    if (workersRef.current.length === 0 || !gridRef.current) {
+      return;
+    }
+
+    // Store pending result metadata for when the workers respond
+    pendingResultRef.current = { ...gridRef.current, kind: 'similarity', metric: query.metric };
+
+    setIsCalculating(true);
+    postToPool({ type: 'calculate', query });
+  }, [query, dataVersion, postToPool]);
+
+  const calculateChange = useCallback(
+    (embeddingData: EmbeddingData): { success: boolean; error?: string } => {
+      if (workersRef.current.length === 0) {
+        return { success: false, error: 'Worker not ready' };
+      }
+
+      pendingResultRef.current = {
+        bounds: embeddingData.bounds,
+        width: embeddingData.width,
+        height: embeddingData.height,
+        kind: 'change',
+        metric: null,
+      };
+
+      // Messages are handled in order, so this runs after any pending init
+      setIsCalculating(true);
+      postToPool({ type: 'change' });
+
+      return { success: true };
+    },
+    [postToPool]
+  );
+
   const clearReference = useCallback(() => {
-    setReferencePixel(null);
+    // Invalidate any calculation still in flight
+    requestIdRef.current++;
+    pendingResultRef.current = null;
+    chunksRef.current = null;
+    setIsCalculating(false);
+    setReferencePixels([]);
     setSimilarityResult(null);
   }, []);
 
   return {
-    referencePixel,
+    referencePixels,
     similarityResult,
+    aggregation,
+    setAggregation,
+    metric,
+    setMetric,
+    hasReferenceRegion,
+    negativeMode,
+    setNegativeMode,
+    negativeWeight,
+    setNegativeWeight,
+    query,
     selectReferencePixel,
+    selectReferenceRegion,
+    removeReferencePixel,
+    calculateChange,
     clearReference,
     isCalculating,
+    isWorkerReady,
     initWorker,
+    updateWorker,
+    scoreWindow,
   };
 }
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { initialState, wizardReducer } from './useWizard';
+import type { WizardAction, WizardState } from '../types';
+
+// Apply actions in order from the initial state
+function run(...actions: WizardAction[]): WizardState {
+  return actions.reduce(wizardReducer, initialState);
+}
+
+describe('Wizard Reducer', () => {
+  describe('analysis mode', () => {
+    it('should set the analysis mode and years', () => {
+      const state = run(
+        { type: 'SET_ANALYSIS_MODE', mode: 'change' },
+        { type: 'SET_YEAR', year: '2024' },
+        { type: 'SET_COMPARE_YEAR', year: '2019' }
+      );
+
+      expect(state.analysisMode).toBe('change');
+      expect(state.year).toBe('2024');
+      expect(state.compareYear).toBe('2019');
+    });
+  });
+
+  describe('DATA_LOADED', () => {
+    it('should go to reference selection for similarity search', () => {
+      const state = run({ type: 'AREA_SELECTED' }, { type: 'LOADING_STARTED' }, { type: 'DATA_LOADED' });
+
+      expect(state.step).toBe(3);
+    });
+
+    it('should skip straight to results for change detection', () => {
+      const state = run(
+        { type: 'SET_ANALYSIS_MODE', mode: 'change' },
+        { type: 'AREA_SELECTED' },
+        { type: 'SET_ERROR', error: 'Failed' },
+        { type: 'DATA_LOADED' }
+      );
+
+      expect(state.step).toBe(4);
+      expect(state.error).toBeNull();
+    });
+  });
+
+  describe('LOAD_FAILED', () => {
+    it('should return to loading from a streamed selection with the error', () => {
+      const state = run(
+        { type: 'AREA_SELECTED' },
+        { type: 'LOADING_STARTED' },
+        { type: 'DATA_LOADED' },
+        { type: 'REFERENCE_SELECTED' },
+        { type: 'LOAD_FAILED', error: 'Failed to download 3 of 12 blocks' }
+      );
+
+      expect(state.step).toBe(2);
+      expect(state.error).toBe('Failed to download 3 of 12 blocks');
+    });
+  });
+
+  describe('BACK', () => {
+    it('should return from change results to loading', () => {
+      const state = run(
+        { type: 'SET_ANALYSIS_MODE', mode: 'change' },
+        { type: 'AREA_SELECTED' },
+        { type: 'DATA_LOADED' },
+        { type: 'BACK' }
+      );
+
+      expect(state.step).toBe(2);
+    });
+
+    it('should step back one at a time for similarity search', () => {
+      const state = run(
+        { type: 'AREA_SELECTED' },
+        { type: 'DATA_LOADED' },
+        { type: 'REFERENCE_SELECTED' },
+        { type: 'BACK' }
+      );
+
+      expect(state.step).toBe(3);
+    });
+  });
+});
@@ -1,14 +1,18 @@
 import { useReducer, useCallback } from 'react';
-import type { WizardStep, WizardState, WizardAction, AreaMode, AreaSize } from '../types';
+import type { WizardStep, WizardState, WizardAction, AreaMode, AreaSize, AnalysisMode } from '../types';
+import { CONFIG } from '../constants';
 
-const initialState: WizardState = {
+export const initialState: WizardState = {
   step: 1,
   areaMode: 'click',
   areaSize: 2,
+  year: CONFIG.DEFAULT_YEAR,
+  analysisMode: 'similarity',
+  compareYear: CONFIG.AVAILABLE_YEARS[0],
   error: null,
 };
 
-function wizardReducer(state: WizardState, action: WizardAction): WizardState {
+export function wizardReducer(state: WizardState, action: WizardAction): WizardState {
   switch (action.type) {
     case 'SET_MODE':
       return { ...state, areaMode: action.mode };
@@ -16,6 +20,15 @@ function wizardReducer(state: WizardState, action: WizardAction): WizardState {
     case 'SET_SIZE':
       return { ...state, areaSize: action.size };
 
+    case 'SET_YEAR':
+      return { ...state, year: action.year };
+
+    case 'SET_ANALYSIS_MODE':
+      return { ...state, analysisMode: action.mode };
+
+    case 'SET_COMPARE_YEAR':
+      return { ...state, compareYear: action.year };
+
     case 'AREA_SELECTED':
       return { ...state, step: 2, error: null };
 
@@ -23,7 +36,12 @@ function wizardReducer(state: WizardState, action: WizardAction): WizardState {
       return { ...state, error: null };
 
     case 'DATA_LOADED':
-      return { ...state, step: 3, error: null };
+      // Change detection needs no reference pixel, so skip straight to results
+      return { ...state, step: state.analysisMode === 'change' ? 4 : 3, error: null };
+
+    case 'LOAD_FAILED':
+      // Streamed loads move on before they finish, so return to loading
+      return { ...state, step: 2, error: action.error };
 
     case 'REFERENCE_SELECTED':
       return { ...state, step: 4, error: null };
@@ -35,6 +53,9 @@ function wizardReducer(state: WizardState, action: WizardAction): WizardState {
       return { ...state, error: null };
 
     case 'BACK':
+      if (state.step === 4 && state.analysisMode === 'change') {
+        return { ...state, step: 2, error: null };
+      }
       if (state.step > 1) {
         return { ...state, step: (state.step - 1) as WizardStep, error: null };
       }
@@ -66,6 +87,18 @@ export function useWizard() {
     dispatch({ type: 'SET_SIZE', size });
   }, []);
 
+  const setYear = useCallback((year: string) => {
+    dispatch({ type: 'SET_YEAR', year });
+  }, []);
+
+  const setAnalysisMode = useCallback((mode: AnalysisMode) => {
+    dispatch({ type: 'SET_ANALYSIS_MODE', mode });
+  }, []);
+
+  const setCompareYear = useCallback((year: string) => {
+    dispatch({ type: 'SET_COMPARE_YEAR', year });
+  }, []);
+
   const areaSelected = useCallback(() => {
     dispatch({ type: 'AREA_SELECTED' });
   }, []);
@@ -78,6 +111,10 @@ export function useWizard() {
     dispatch({ type: 'DATA_LOADED' });
   }, []);
 
+  const loadFailed = useCallback((error: string) => {
+    dispatch({ type: 'LOAD_FAILED', error });
+  }, []);
+
   const referenceSelected = useCallback(() => {
     dispatch({ type: 'REFERENCE_SELECTED' });
   }, []);
@@ -102,9 +139,13 @@ export function useWizard() {
     state,
     setMode,
     setSize,
+    setYear,
+    setAnalysisMode,
+    setCompareYear,
     areaSelected,
     loadingStarted,
     dataLoaded,
+    loadFailed,
     referenceSelected,
     setError,
     clearError,
@@ -2,6 +2,18 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { CONFIG } from './constants'
+import { setDataSource } from './utils/dataSource'
+import { createStacSource } from './utils/stacSource'
+
+// Discover COGs from STAC when configured, instead of the bundled GeoParquet index
+if (CONFIG.STAC_URL) {
+  setDataSource(createStacSource({
+    name: 'STAC',
+    url: CONFIG.STAC_URL,
+    collections: CONFIG.STAC_COLLECTIONS ? CONFIG.STAC_COLLECTIONS.split(',') : undefined,
+  }))
+}
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
@@ -28,20 +28,88 @@ export interface TileInfo {
   lngLatBounds: BoundingBox;
 }
 
-export interface EmbeddingData {
-  embeddings: Float32Array;  // W x H x 64
+// Tiles stored column by column, so an index of every published tile needn't
+// hold an object per tile; row i of each column describes tile i
+export interface TileTable {
+  length: number;
+  lngLatBounds: Float64Array;  // minLng, minLat, maxLng, maxLat of each tile
+  utmBounds: Float64Array;  // minX, minY, maxX, maxY of each tile in its UTM zone
+  crs: string[];
+  urls: string[];
+  years: string[];
+  utmZones: string[];
+}
+
+// How a source stores embeddings as Int8 codes: bands per pixel, and the
+// embedding value each code stands for
+export interface EmbeddingFormat {
+  bands: number;
+  dequantizeLut: Float32Array;  // Indexed by code + 128; -128 is always no data
+}
+
+interface EmbeddingGrid {
   width: number;
   height: number;
   bounds: BoundingBox;
-  mask: boolean[];  // true = valid pixel
+  pixelSize: number;  // Meters per pixel: 10 at full resolution, more when read from an overview
+  windowOrigin: PixelCoord;  // SW pixel of the grid in its tile's native pixel grid (at pixelSize)
+  mask: Uint8Array;  // Packed validity bits, 8 pixels per byte (see isPixelValid)
+  year: string;
+  format: EmbeddingFormat;  // Of the source the grid was read from
+}
+
+// Dequantized and unit-normalized, for grids that fit in memory as Float32
+export interface Float32EmbeddingData extends EmbeddingGrid {
+  storage: 'float32';
+  embeddings: Float32Array;  // W x H x bands
+  magnitudes: Float32Array;  // W x H, embedding length before normalization
 }
 
+// Raw Int8 codes, a quarter of the size, for large grids
+export interface Int8EmbeddingData extends EmbeddingGrid {
+  storage: 'int8';
+  codes: Int8Array;  // W x H x bands, -128 = no data
+}
+
+export type EmbeddingData = Float32EmbeddingData | Int8EmbeddingData;
+
 export interface ReferencePixel {
+  id: number;
+  kind: ReferenceKind;
   lng: number;
   lat: number;
   pixelX: number;
   pixelY: number;
-  vector: Float32Array;  // 64-dim embedding
+  vector: Float32Array;  // Unit embedding, one value per band
+  rawVector: Float32Array;  // Dequantized embedding before normalization
+  region?: ReferenceRegion;  // Set when the reference is the mean of a drawn area
+}
+
+export interface ReferenceRegion {
+  polygon: [number, number][];  // [lng, lat] ring
+  pixelCount: number;
+  meanSimilarity: number;  // Average similarity of region pixels to the reference
+  minSimilarity: number;
+  covariance: Float64Array;  // Of the raw embeddings, bands x bands row-major
+}
+
+// Reference vectors and options sent to the similarity worker
+export interface SimilarityQuery {
+  metric: SimilarityMetric;
+  positives: Float32Array[];
+  negatives: Float32Array[];
+  rawPositives: Float32Array[];  // Same references before normalization
+  rawNegatives: Float32Array[];
+  covariance: Float64Array | null;  // Pooled over positive regions, for 'mahalanobis'
+  aggregation: ReferenceAggregation;
+  negativeMode: NegativeMode;
+  negativeWeight: number;  // Used by 'subtract'
+}
+
+export interface PixelTimeSeries {
+  lng: number;
+  lat: number;
+  entries: { year: string; vector: Float32Array | null; magnitude: number }[];  // null = no data that year
 }
 
 export interface SimilarityResult {
@@ -49,6 +117,8 @@ export interface SimilarityResult {
   width: number;
   height: number;
   bounds: BoundingBox;
+  kind: AnalysisMode;  // 'change' scores are 1 - cosine similarity between years
+  metric: SimilarityMetric | null;  // null for change detection
 }
 
 export interface HoverInfo {
@@ -61,21 +131,35 @@ export interface HoverInfo {
 // Wizard types
 export type WizardStep = 1 | 2 | 3 | 4;
 export type AreaMode = 'click' | 'draw';
-export type AreaSize = 2 | 4 | 6 | 8 | 10 | 15 | 20; // km
+export type AreaSize = 2 | 4 | 6 | 8 | 10 | 15 | 20 | 40 | 60 | 80; // km
+export type AnalysisMode = 'similarity' | 'change';
+export type ReferenceAggregation = 'mean' | 'max';  // Centroid of references, or closest reference
+export type SimilarityMetric = 'cosine' | 'angular' | 'euclidean' | 'mahalanobis';  // Only cosine is higher = more similar
+export type ReferenceKind = 'positive' | 'negative';  // Negative = "not this"
+export type NegativeMode = 'subtract' | 'exclude';
+export type ReferenceShape = 'pixel' | 'region';  // How the first reference is picked in step 3
+export type ClickAction = 'reference' | 'negative' | 'inspect';  // What a map click does in step 4
 
 export interface WizardState {
   step: WizardStep;
   areaMode: AreaMode;
   areaSize: AreaSize;
+  year: string;
+  analysisMode: AnalysisMode;
+  compareYear: string;  // Baseline year for change detection
   error: string | null;
 }
 
 export type WizardAction =
   | { type: 'SET_MODE'; mode: AreaMode }
   | { type: 'SET_SIZE'; size: AreaSize }
+  | { type: 'SET_YEAR'; year: string }
+  | { type: 'SET_ANALYSIS_MODE'; mode: AnalysisMode }
+  | { type: 'SET_COMPARE_YEAR'; year: string }
   | { type: 'AREA_SELECTED' }
   | { type: 'LOADING_STARTED' }
   | { type: 'DATA_LOADED' }
+  | { type: 'LOAD_FAILED'; error: string }
   | { type: 'REFERENCE_SELECTED' }
   | { type: 'SET_ERROR'; error: string }
   | { type: 'CLEAR_ERROR' }
@@ -87,4 +171,33 @@ export interface LoadingProgress {
   step: number;
   totalSteps: number;
   message: string;
+  // While downloading: bytes fetched and expected (from the COG tile byte
+  // counts, excluding cached blocks), average throughput and time remaining
+  bytesLoaded?: number;
+  bytesTotal?: number;
+  bytesPerSecond?: number | null;
+  etaSeconds?: number | null;
 }
+
+// Cost of loading a selection, worked out from the COG headers
+export interface LoadEstimate {
+  width: number;          // Grid size in pixels at the resolution it will be read at
+  height: number;
+  pixelSize: number;      // Meters per pixel (coarser when read from an overview)
+  internalTiles: number;  // COG internal tiles touched, across all covering files and years
+  downloadBytes: number;  // Compressed bytes still to download (cached tiles excluded)
+  memoryBytes: number;    // Memory held by the loaded grid(s)
+}
+
+// Progress of refining a coarse result block by block at full resolution
+export interface RefinementProgress {
+  done: number;
+  total: number;
+  error: string | null;
+}
+
+// How much of a selection a year's tiles cover
+export type CoverageStatus = 'full' | 'partial' | 'none';
+
+// Coverage of a selection by each year with tiles anywhere
+export type SelectionCoverage = Record<string, CoverageStatus>;
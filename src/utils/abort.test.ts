@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { abortError, isAbortError, throwIfAborted } from './abort';
+
+describe('Abort Utilities', () => {
+  it('should recognise abort errors by name', () => {
+    const geotiffAbort = new Error('Request aborted');
+    geotiffAbort.name = 'AbortError';
+
+    expect(isAbortError(abortError())).toBe(true);
+    expect(isAbortError(geotiffAbort)).toBe(true);
+    expect(isAbortError(new Error('Failed to download'))).toBe(false);
+    expect(isAbortError('AbortError')).toBe(false);
+  });
+
+  it('should throw only once the signal is aborted', () => {
+    const controller = new AbortController();
+
+    expect(() => throwIfAborted(controller.signal)).not.toThrow();
+    expect(() => throwIfAborted(undefined)).not.toThrow();
+
+    controller.abort();
+    expect(() => throwIfAborted(controller.signal)).toThrow(/cancelled/);
+  });
+});
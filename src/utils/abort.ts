@@ -0,0 +1,28 @@
+/**
+ * Helpers for cancelling loads with an AbortSignal
+ */
+
+/**
+ * Error thrown when a load is cancelled, matching what fetch throws
+ */
+export function abortError(): DOMException {
+  return new DOMException('Loading was cancelled', 'AbortError');
+}
+
+/**
+ * Whether an error comes from a cancelled load rather than a real failure.
+ * Checks the name, since fetch and geotiff throw different error classes.
+ */
+export function isAbortError(err: unknown): boolean {
+  return (err instanceof DOMException || err instanceof Error) && err.name === 'AbortError';
+}
+
+/**
+ * Throw an AbortError if the signal has been aborted, so a cancelled load
+ * stops at the next await instead of carrying on with stale work
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw abortError();
+  }
+}
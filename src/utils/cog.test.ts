@@ -3,6 +3,7 @@ import { fromUrl, addDecoder, BaseDecoder } from 'geotiff';
 import { decompress as zstdDecompress } from 'fzstd';
 import { flipVertical } from './flipVertical';
 import { dequantize } from './dequantize';
+import { ALPHA_EARTH_FORMAT, isPixelValid, unpackMask } from './quantized';
 
 const TEST_COG_URL = 'https://data.source.coop/tge-labs/aef/v1/annual/2024/10N/xcyo46pot2fg6a61t-0000008192-0000000000.tiff';
 
@@ -144,14 +145,14 @@ describe('COG Pipeline', () => {
       const flippedData = flipVertical(rawData, windowWidth, windowHeight, 64);
 
       // Dequantize
-      const { embeddings, mask } = dequantize(flippedData, windowWidth, windowHeight);
+      const { embeddings, mask } = dequantize(flippedData, windowWidth, windowHeight, ALPHA_EARTH_FORMAT);
 
       console.log('Total pixels:', windowWidth * windowHeight);
-      console.log('Valid pixels:', mask.filter(Boolean).length);
+      console.log('Valid pixels:', unpackMask(mask, windowWidth * windowHeight).reduce((a, b) => a + b, 0));
 
       // Extract a few sample embeddings from different pixels
       const bands = 64;
-      const sampleIndices = [0, 10, 100, 200, 399].filter(i => i < windowWidth * windowHeight && mask[i]);
+      const sampleIndices = [0, 10, 100, 200, 399].filter(i => i < windowWidth * windowHeight && isPixelValid(mask, i));
 
       console.log('\nSample embeddings (first 8 bands):');
       for (const pixelIdx of sampleIndices) {
@@ -163,7 +164,7 @@ describe('COG Pipeline', () => {
       // Calculate variance for first band across all valid pixels
       const firstBandValues: number[] = [];
       for (let i = 0; i < windowWidth * windowHeight; i++) {
-        if (mask[i]) {
+        if (isPixelValid(mask, i)) {
           firstBandValues.push(embeddings[i * bands]);
         }
       }
@@ -205,7 +206,7 @@ describe('COG Pipeline', () => {
       const rasterArray = rasterData as unknown as Uint8Array;
       const rawData = new Int8Array(rasterArray.buffer, rasterArray.byteOffset, rasterArray.length);
       const flippedData = flipVertical(rawData, windowWidth, windowHeight, 64);
-      const { embeddings, mask } = dequantize(flippedData, windowWidth, windowHeight);
+      const { embeddings, mask } = dequantize(flippedData, windowWidth, windowHeight, ALPHA_EARTH_FORMAT);
 
       const bands = 64;
       const numPixels = windowWidth * windowHeight;
@@ -213,7 +214,7 @@ describe('COG Pipeline', () => {
       // Find first valid pixel as reference
       let refIdx = -1;
       for (let i = 0; i < numPixels; i++) {
-        if (mask[i]) {
+        if (isPixelValid(mask, i)) {
           refIdx = i;
           break;
         }
@@ -235,7 +236,7 @@ describe('COG Pipeline', () => {
       // Calculate cosine similarity for all valid pixels
       const similarities: number[] = [];
       for (let i = 0; i < numPixels; i++) {
-        if (!mask[i]) continue;
+        if (!isPixelValid(mask, i)) continue;
 
         let dotProduct = 0;
         let mag = 0;
@@ -1,7 +1,24 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, afterEach } from 'vitest';
 import { load } from '@loaders.gl/core';
 import { ParquetLoader } from '@loaders.gl/parquet';
-import { findTileForBoundingBox, clearTileCache } from './cogIndex';
+import {
+  buildTileIndex,
+  checkCoverage,
+  clearTileCache,
+  coverageFootprints,
+  coverageOfBoundingBox,
+  fetchCoverageFootprints,
+  findTileForBoundingBox,
+  findTilesForBoundingBox,
+  nearestTiles,
+  searchTileIndex,
+  tilesAtPoint,
+} from './cogIndex';
+import { alphaEarthSource, setDataSource } from './dataSource';
+import type { TileQuery } from './dataSource';
+import { DEQUANTIZE_LUT } from './quantized';
+import { tileTable } from './tileTable';
+import type { BoundingBox, TileInfo } from '../types';
 
 const COG_INDEX_URL = 'https://data.source.coop/tge-labs/aef/v1/annual/aef_index.parquet';
 
@@ -141,3 +158,224 @@ describe('COG Index Parquet', () => {
     expect(result).not.toBeNull();
   }, 120000);
 });
+
+function makeTile(minLng: number, minLat: number, maxLng: number, maxLat: number, year = '2024'): TileInfo {
+  return {
+    wkt: '',
+    crs: 'EPSG:32610',
+    url: `https://tiles.example/${year}/${minLng}_${minLat}.tiff`,
+    year,
+    utmZone: '10N',
+    utmBounds: { minX: 0, minY: 0, maxX: 81920, maxY: 81920 },
+    lngLatBounds: { minLng, minLat, maxLng, maxLat },
+  };
+}
+
+/**
+ * Grid of 1x1 degree tiles over [0, size) x [0, size), with a gap at (3, 3)
+ */
+function makeGrid(size: number): TileInfo[] {
+  const tiles: TileInfo[] = [];
+  for (let x = 0; x < size; x++) {
+    for (let y = 0; y < size; y++) {
+      if (x === 3 && y === 3) continue;
+      tiles.push(makeTile(x, y, x + 1, y + 1));
+    }
+  }
+  return tiles;
+}
+
+/**
+ * Switch to a source publishing the given tiles
+ */
+function publishTiles(tiles: TileInfo[]): void {
+  const table = tileTable(tiles);
+  setDataSource({
+    name: 'Fixture',
+    listTiles: async () => table,
+    decoders: {},
+    bands: 64,
+    dequantizeLut: DEQUANTIZE_LUT,
+  });
+}
+
+function overlaps(bbox: BoundingBox, tile: TileInfo): boolean {
+  const b = tile.lngLatBounds;
+  return b.minLng <= bbox.maxLng && b.maxLng >= bbox.minLng && b.minLat <= bbox.maxLat && b.maxLat >= bbox.minLat;
+}
+
+describe('COG Index Utilities', () => {
+  afterEach(() => {
+    setDataSource(alphaEarthSource);
+  });
+
+  describe('buildTileIndex', () => {
+    it('should handle an empty tile list', () => {
+      const index = buildTileIndex(tileTable([]));
+
+      expect(searchTileIndex(index, { minLng: -180, minLat: -90, maxLng: 180, maxLat: 90 })).toEqual([]);
+      expect(nearestTiles(index, 0, 0)).toEqual([]);
+    });
+
+    it('should build a multi-level tree whose root covers every tile', () => {
+      const index = buildTileIndex(tileTable(makeGrid(20)));
+
+      expect(index.levelBounds.length).toBeGreaterThan(2);
+      expect(Array.from(index.boxes.slice(-4))).toEqual([0, 0, 20, 20]);
+    });
+  });
+
+  describe('searchTileIndex', () => {
+    it('should match a brute-force scan', () => {
+      const tiles = makeGrid(30);
+      const index = buildTileIndex(tileTable(tiles));
+
+      // Deterministic pseudo-random query boxes
+      let seed = 1;
+      const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+      for (let i = 0; i < 200; i++) {
+        const minLng = random() * 32 - 1;
+        const minLat = random() * 32 - 1;
+        const bbox = { minLng, minLat, maxLng: minLng + random() * 3, maxLat: minLat + random() * 3 };
+
+        expect(searchTileIndex(index, bbox)).toEqual(tiles.filter(tile => overlaps(bbox, tile)));
+      }
+    });
+
+    it('should find the tiles containing a point, in list order', () => {
+      const tiles = makeGrid(10);
+      const index = buildTileIndex(tileTable(tiles));
+
+      expect(tilesAtPoint(index, 5.5, 2.5)).toEqual([tiles.find(t => t.lngLatBounds.minLng === 5 && t.lngLatBounds.minLat === 2)]);
+      // On a shared corner every touching tile matches
+      expect(tilesAtPoint(index, 5, 5)).toHaveLength(4);
+      expect(tilesAtPoint(index, 3.5, 3.5)).toEqual([]);
+      expect(tilesAtPoint(index, 12, 1)).toEqual([]);
+    });
+  });
+
+  describe('nearestTiles', () => {
+    it('should return the closest tiles first', () => {
+      const tiles = makeGrid(10);
+      const index = buildTileIndex(tileTable(tiles));
+
+      // Inside the gap at (3, 3), all eight neighbours touch it
+      const nearest = nearestTiles(index, 3.5, 3.5, 8);
+      expect(nearest).toHaveLength(8);
+      const sides = nearest.slice(0, 4).map(t => [t.lngLatBounds.minLng, t.lngLatBounds.minLat]);
+      expect(sides).toEqual(expect.arrayContaining([[2, 3], [4, 3], [3, 2], [3, 4]]));
+
+      // East of the grid, the closest tile is on its eastern edge at the same latitude
+      expect(nearestTiles(index, 14, 6.5)[0].lngLatBounds).toEqual({ minLng: 9, minLat: 6, maxLng: 10, maxLat: 7 });
+    });
+
+    it('should respect the maximum distance', () => {
+      const index = buildTileIndex(tileTable(makeGrid(10)));
+
+      expect(nearestTiles(index, 14, 6.5, 1, 2)).toEqual([]);
+      expect(nearestTiles(index, 11, 6.5, 3, 2)).toHaveLength(3);
+    });
+  });
+
+  describe('coverageOfBoundingBox', () => {
+    it('should tell full, partial and missing coverage apart', () => {
+      const index = buildTileIndex(tileTable(makeGrid(10)));
+
+      expect(coverageOfBoundingBox(index, { minLng: 5.1, minLat: 5.1, maxLng: 6.9, maxLat: 6.9 })).toBe('full');
+      // Overlaps the gap at (3, 3)
+      expect(coverageOfBoundingBox(index, { minLng: 2.5, minLat: 2.5, maxLng: 3.5, maxLat: 3.5 })).toBe('partial');
+      expect(coverageOfBoundingBox(index, { minLng: 3.2, minLat: 3.2, maxLng: 3.8, maxLat: 3.8 })).toBe('none');
+      expect(coverageOfBoundingBox(index, { minLng: 9.5, minLat: 2, maxLng: 10.5, maxLat: 2.5 })).toBe('partial');
+      expect(coverageOfBoundingBox(index, { minLng: 11, minLat: 2, maxLng: 12, maxLat: 3 })).toBe('none');
+    });
+  });
+
+  describe('checkCoverage', () => {
+    it('should check every year of the active source', async () => {
+      const tiles = [...makeGrid(10), makeTile(3, 3, 4, 4, '2023')];
+      publishTiles(tiles);
+
+      expect(await checkCoverage({ minLng: 3.2, minLat: 3.2, maxLng: 3.8, maxLat: 3.8 })).toEqual({
+        '2024': 'none',
+        '2023': 'full',
+      });
+    });
+  });
+
+  describe('coverageFootprints', () => {
+    it('should merge the same footprint across years', () => {
+      const footprints = coverageFootprints(tileTable([
+        makeTile(0, 0, 1, 1, '2024'),
+        makeTile(0, 0, 1, 1, '2018'),
+        makeTile(1, 0, 2, 1, '2024'),
+      ]));
+
+      expect(footprints.features).toHaveLength(2);
+      expect(footprints.features[0].properties).toEqual({ years: '2018, 2024', yearCount: 2 });
+      expect(footprints.features[0].geometry.coordinates[0]).toEqual([[0, 0], [1, 0], [1, 1], [0, 1], [0, 0]]);
+      expect(footprints.features[1].properties).toEqual({ years: '2024', yearCount: 1 });
+    });
+  });
+
+  describe('findTileForBoundingBox', () => {
+    it('should pick the tile of the requested year', async () => {
+      const tiles = [
+        makeTile(0, 0, 1, 1, '2018'),
+        makeTile(0, 0, 1, 1, '2023'),
+        makeTile(0, 0, 1, 1, '2024'),
+      ];
+      publishTiles(tiles);
+      const bbox = { minLng: 0.4, minLat: 0.4, maxLng: 0.6, maxLat: 0.6 };
+
+      expect((await findTileForBoundingBox(bbox, '2023'))?.tile).toEqual(tiles[1]);
+      expect((await findTileForBoundingBox(bbox, '2018'))?.tile).toEqual(tiles[0]);
+      expect((await findTileForBoundingBox(bbox))?.tile).toEqual(tiles[2]);
+      // No tiles at all for 2020
+      expect(await findTileForBoundingBox(bbox, '2020')).toBeNull();
+    });
+  });
+
+  describe('findTilesForBoundingBox', () => {
+    it('should look tiles up per year from the active source', async () => {
+      const tiles = [...makeGrid(10), makeTile(3, 3, 4, 4, '2023')];
+      publishTiles(tiles);
+
+      const inside = { minLng: 5.2, minLat: 5.2, maxLng: 5.4, maxLat: 5.4 };
+      expect(await findTileForBoundingBox(inside, '2024')).toEqual({
+        tile: tiles.find(t => t.lngLatBounds.minLng === 5 && t.lngLatBounds.minLat === 5),
+        fullyContained: true,
+      });
+
+      const gap = { minLng: 3.4, minLat: 3.4, maxLng: 3.6, maxLat: 3.6 };
+      expect(await findTileForBoundingBox(gap, '2024')).toBeNull();
+      expect((await findTileForBoundingBox(gap, '2023'))?.tile.year).toBe('2023');
+
+      const across = { minLng: 5.5, minLat: 5.5, maxLng: 6.5, maxLat: 6.2 };
+      expect((await findTilesForBoundingBox(across, '2024'))?.tiles).toHaveLength(4);
+    });
+
+    it('should search sources that can for the selection', async () => {
+      const tiles = [...makeGrid(10), makeTile(3, 3, 4, 4, '2023')];
+      const queries: TileQuery[] = [];
+      setDataSource({
+        name: 'Searched fixture',
+        listTiles: async () => null,
+        searchTiles: async (query) => {
+          queries.push(query);
+          return tileTable(tiles.filter(tile => overlaps(query.bbox, tile) && (!query.year || tile.year === query.year)));
+        },
+        decoders: {},
+        bands: 64,
+        dequantizeLut: DEQUANTIZE_LUT,
+      });
+      const across = { minLng: 5.5, minLat: 5.5, maxLng: 6.5, maxLat: 6.2 };
+
+      expect((await findTilesForBoundingBox(across, '2024'))?.tiles).toHaveLength(4);
+      expect(queries).toContainEqual({ bbox: across, year: '2024' });
+      expect(await checkCoverage({ minLng: 3.2, minLat: 3.2, maxLng: 3.8, maxLat: 3.8 })).toEqual({ '2023': 'full' });
+      expect(queries[queries.length - 1]).toEqual({ bbox: { minLng: 3.2, minLat: 3.2, maxLng: 3.8, maxLat: 3.8 } });
+      // Nothing to draw for a source that isn't listed
+      expect(await fetchCoverageFootprints()).toBeNull();
+    });
+  });
+});
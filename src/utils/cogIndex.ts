@@ -1,104 +1,305 @@
-import { TileInfo, BoundingBox } from '../types';
+import { TileInfo, TileTable, BoundingBox, CoverageStatus, SelectionCoverage } from '../types';
 import { CONFIG } from '../constants';
-import { getUTMZone } from './coordinates';
-import { load } from '@loaders.gl/core';
-import { ParquetLoader } from '@loaders.gl/parquet';
+import { getDataSource } from './dataSource';
+import type { TileQuery } from './dataSource';
+import { selectTiles, tileAt, tileTable } from './tileTable';
 
-let cachedTiles: TileInfo[] | null = null;
+// Entries per node of the tile index
+const NODE_SIZE = 16;
 
 /**
- * Convert S3 URL to HTTPS URL
- * s3://us-west-2.opendata.source.coop/... -> https://data.source.coop/...
+ * Packed Hilbert R-tree over tiles' lng/lat bounds, built once per tile table.
+ * Tiles are sorted along a Hilbert curve through their centres and packed
+ * into a static tree of NODE_SIZE-entry nodes, stored flat: leaves first,
+ * then each level up to the root.
  */
-function s3ToHttps(s3Url: string): string {
-  return s3Url.replace(
-    /^s3:\/\/[^/]*\.opendata\.source\.coop\//,
-    'https://data.source.coop/'
-  );
+export interface TileIndex {
+  table: TileTable;
+  // minLng, minLat, maxLng, maxLat of every node
+  boxes: Float64Array;
+  // Leaves: row in table. Other nodes: offset in boxes of the first child.
+  indices: Uint32Array;
+  // Offset in boxes where each level ends, leaves first
+  levelBounds: number[];
 }
 
 /**
- * Parquet row schema matching aef_index.parquet
- * Note: string fields may come as Uint8Array/Buffer depending on parquet loader version
+ * Position of a point along a Hilbert curve filling a 2^16 x 2^16 grid
  */
-interface ParquetRow {
-  crs: string;
-  path: string | Uint8Array;  // S3 URL, may be binary
-  year: number;  // int64 in parquet
-  utm_zone: string;
-  utm_west: number;  // double in parquet
-  utm_south: number;
-  utm_east: number;
-  utm_north: number;
-  wgs84_west: number;
-  wgs84_south: number;
-  wgs84_east: number;
-  wgs84_north: number;
+function hilbert(x: number, y: number): number {
+  let a = x ^ y;
+  let b = 0xffff ^ a;
+  let c = 0xffff ^ (x | y);
+  let d = x & (y ^ 0xffff);
+
+  let A = a | (b >> 1);
+  let B = (a >> 1) ^ a;
+  let C = ((c >> 1) ^ (b & (d >> 1))) ^ c;
+  let D = ((a & (c >> 1)) ^ (d >> 1)) ^ d;
+
+  a = A; b = B; c = C; d = D;
+  A = (a & (a >> 2)) ^ (b & (b >> 2));
+  B = (a & (b >> 2)) ^ (b & ((a ^ b) >> 2));
+  C ^= (a & (c >> 2)) ^ (b & (d >> 2));
+  D ^= (b & (c >> 2)) ^ ((a ^ b) & (d >> 2));
+
+  a = A; b = B; c = C; d = D;
+  A = (a & (a >> 4)) ^ (b & (b >> 4));
+  B = (a & (b >> 4)) ^ (b & ((a ^ b) >> 4));
+  C ^= (a & (c >> 4)) ^ (b & (d >> 4));
+  D ^= (b & (c >> 4)) ^ ((a ^ b) & (d >> 4));
+
+  a = A; b = B; c = C; d = D;
+  C ^= (a & (c >> 8)) ^ (b & (d >> 8));
+  D ^= (b & (c >> 8)) ^ ((a ^ b) & (d >> 8));
+
+  a = C ^ (C >> 1);
+  b = D ^ (D >> 1);
+
+  let i0 = x ^ y;
+  let i1 = b | (0xffff ^ (i0 | a));
+
+  i0 = (i0 | (i0 << 8)) & 0x00ff00ff;
+  i0 = (i0 | (i0 << 4)) & 0x0f0f0f0f;
+  i0 = (i0 | (i0 << 2)) & 0x33333333;
+  i0 = (i0 | (i0 << 1)) & 0x55555555;
+
+  i1 = (i1 | (i1 << 8)) & 0x00ff00ff;
+  i1 = (i1 | (i1 << 4)) & 0x0f0f0f0f;
+  i1 = (i1 | (i1 << 2)) & 0x33333333;
+  i1 = (i1 | (i1 << 1)) & 0x55555555;
+
+  return ((i1 << 1) | i0) >>> 0;
 }
 
 /**
- * Decode a field that may be a string or Uint8Array
+ * Build the spatial index of a table of tiles
  */
-function decodeField(value: string | Uint8Array): string {
-  if (typeof value === 'string') {
-    return value;
+export function buildTileIndex(table: TileTable): TileIndex {
+  const numTiles = table.length;
+  const bounds = table.lngLatBounds;
+
+  // Number of nodes on each level, up to a single root
+  const levelBounds = [numTiles * 4];
+  let numNodes = numTiles;
+  let count = numTiles;
+  while (count > 1) {
+    count = Math.ceil(count / NODE_SIZE);
+    numNodes += count;
+    levelBounds.push(numNodes * 4);
+  }
+
+  const boxes = new Float64Array(numNodes * 4);
+  const indices = new Uint32Array(numNodes);
+  if (numTiles === 0) {
+    return { table, boxes, indices, levelBounds };
+  }
+
+  // Sort tiles along the Hilbert curve through their centres within the extent
+  let minLng = Infinity;
+  let minLat = Infinity;
+  let maxLng = -Infinity;
+  let maxLat = -Infinity;
+  for (let pos = 0; pos < numTiles * 4; pos += 4) {
+    minLng = Math.min(minLng, bounds[pos]);
+    minLat = Math.min(minLat, bounds[pos + 1]);
+    maxLng = Math.max(maxLng, bounds[pos + 2]);
+    maxLat = Math.max(maxLat, bounds[pos + 3]);
+  }
+  const scaleX = 0xffff / (maxLng - minLng || 1);
+  const scaleY = 0xffff / (maxLat - minLat || 1);
+  const hilbertValues = new Uint32Array(numTiles);
+  for (let row = 0; row < numTiles; row++) {
+    const pos = row * 4;
+    hilbertValues[row] = hilbert(
+      Math.floor(((bounds[pos] + bounds[pos + 2]) / 2 - minLng) * scaleX),
+      Math.floor(((bounds[pos + 1] + bounds[pos + 3]) / 2 - minLat) * scaleY)
+    );
+  }
+  const order = Uint32Array.from({ length: numTiles }, (_, row) => row)
+    .sort((a, b) => hilbertValues[a] - hilbertValues[b]);
+
+  order.forEach((row, i) => {
+    boxes.set(bounds.subarray(row * 4, row * 4 + 4), i * 4);
+    indices[i] = row;
+  });
+
+  // Each parent's box encloses its (up to NODE_SIZE) children
+  let pos = 0;
+  let parent = numTiles * 4;
+  for (let level = 0; level < levelBounds.length - 1; level++) {
+    const end = levelBounds[level];
+    while (pos < end) {
+      indices[parent / 4] = pos;
+      let nodeMinLng = Infinity;
+      let nodeMinLat = Infinity;
+      let nodeMaxLng = -Infinity;
+      let nodeMaxLat = -Infinity;
+      for (let child = 0; child < NODE_SIZE && pos < end; child++, pos += 4) {
+        nodeMinLng = Math.min(nodeMinLng, boxes[pos]);
+        nodeMinLat = Math.min(nodeMinLat, boxes[pos + 1]);
+        nodeMaxLng = Math.max(nodeMaxLng, boxes[pos + 2]);
+        nodeMaxLat = Math.max(nodeMaxLat, boxes[pos + 3]);
+      }
+      boxes.set([nodeMinLng, nodeMinLat, nodeMaxLng, nodeMaxLat], parent);
+      parent += 4;
+    }
   }
-  return new TextDecoder().decode(value);
+
+  return { table, boxes, indices, levelBounds };
 }
 
 /**
- * Fetch and parse the COG index from GeoParquet
+ * End (in boxes) of the level a node belongs to
  */
-async function fetchCOGIndex(): Promise<TileInfo[]> {
-  if (cachedTiles) {
-    return cachedTiles;
+function levelEnd(index: TileIndex, nodePos: number): number {
+  return index.levelBounds.find(bound => bound > nodePos) ?? index.boxes.length;
+}
+
+/**
+ * Tiles whose bounds overlap (or touch) a box, in their original list order
+ */
+export function searchTileIndex(index: TileIndex, bbox: BoundingBox): TileInfo[] {
+  const { table, boxes, indices } = index;
+  if (table.length === 0) return [];
+
+  const leavesEnd = table.length * 4;
+  const found: number[] = [];
+  const queue = [boxes.length - 4];
+
+  while (queue.length > 0) {
+    const nodePos = queue.pop()!;
+    const end = Math.min(nodePos + NODE_SIZE * 4, levelEnd(index, nodePos));
+    for (let pos = nodePos; pos < end; pos += 4) {
+      if (
+        boxes[pos] > bbox.maxLng ||
+        boxes[pos + 1] > bbox.maxLat ||
+        boxes[pos + 2] < bbox.minLng ||
+        boxes[pos + 3] < bbox.minLat
+      ) {
+        continue;
+      }
+      if (nodePos < leavesEnd) {
+        found.push(indices[pos / 4]);
+      } else {
+        queue.push(indices[pos / 4]);
+      }
+    }
   }
 
-  const data = await load(CONFIG.COG_INDEX_URL, ParquetLoader, {
-    parquet: {
-      shape: 'object-row-table',
-    },
-  });
+  return found.sort((a, b) => a - b).map(row => tileAt(table, row));
+}
+
+/**
+ * Tiles containing a point, in their original list order
+ */
+export function tilesAtPoint(index: TileIndex, lng: number, lat: number): TileInfo[] {
+  return searchTileIndex(index, { minLng: lng, minLat: lat, maxLng: lng, maxLat: lat });
+}
+
+/**
+ * Squared distance from a point to a box in degrees, with longitude scaled
+ * by the cosine of the latitude; 0 inside the box
+ */
+function boxDistance(lng: number, lat: number, cosLat: number, boxes: Float64Array, pos: number): number {
+  const dx = Math.max(boxes[pos] - lng, 0, lng - boxes[pos + 2]) * cosLat;
+  const dy = Math.max(boxes[pos + 1] - lat, 0, lat - boxes[pos + 3]);
+  return dx * dx + dy * dy;
+}
+
+/**
+ * The tiles nearest to a point (those containing it first), closest first
+ *
+ * @param count - Number of tiles to return at most
+ * @param maxDistance - Only consider tiles within this many degrees
+ */
+export function nearestTiles(
+  index: TileIndex,
+  lng: number,
+  lat: number,
+  count: number = 1,
+  maxDistance: number = Infinity
+): TileInfo[] {
+  const { table, boxes, indices } = index;
+  if (table.length === 0 || count <= 0) return [];
 
-  const tiles: TileInfo[] = [];
-  // Handle different return shapes from ParquetLoader
-  const rows = Array.isArray(data) ? data : (data as { data: unknown[] }).data;
-
-  for (const row of rows as ParquetRow[]) {
-    try {
-      // Decode path (may be string or Uint8Array)
-      const s3Path = decodeField(row.path);
-      const httpsUrl = s3ToHttps(s3Path);
-
-      const lngLatBounds: BoundingBox = {
-        minLng: row.wgs84_west,
-        minLat: row.wgs84_south,
-        maxLng: row.wgs84_east,
-        maxLat: row.wgs84_north,
-      };
-
-      tiles.push({
-        wkt: '',
-        crs: row.crs,
-        url: httpsUrl,
-        year: String(row.year),
-        utmZone: row.utm_zone,
-        utmBounds: {
-          minX: row.utm_west,
-          minY: row.utm_south,
-          maxX: row.utm_east,
-          maxY: row.utm_north,
-        },
-        lngLatBounds,
-      });
-    } catch (e) {
-      const errorMessage = e instanceof Error ? e.message : String(e);
-      console.warn(`Failed to parse tile row (utm_zone=${row.utm_zone}): ${errorMessage}`);
+  const leavesEnd = table.length * 4;
+  const cosLat = Math.cos((lat * Math.PI) / 180);
+  const maxDistanceSq = maxDistance * maxDistance;
+  const results: TileInfo[] = [];
+
+  // Best-first search over nodes and tiles, kept sorted by distance.
+  // Entries are [distance, node offset or -1 - tile index].
+  const queue: [number, number][] = [];
+  const enqueue = (distance: number, value: number) => {
+    let lo = 0;
+    let hi = queue.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (queue[mid][0] <= distance) lo = mid + 1;
+      else hi = mid;
+    }
+    queue.splice(lo, 0, [distance, value]);
+  };
+
+  let nodePos: number | undefined = boxes.length - 4;
+  while (nodePos !== undefined) {
+    const end = Math.min(nodePos + NODE_SIZE * 4, levelEnd(index, nodePos));
+    for (let pos = nodePos; pos < end; pos += 4) {
+      const distance = boxDistance(lng, lat, cosLat, boxes, pos);
+      if (distance > maxDistanceSq) continue;
+      enqueue(distance, nodePos < leavesEnd ? -1 - indices[pos / 4] : indices[pos / 4]);
     }
+
+    // Tiles closer than any remaining node are final
+    while (queue.length > 0 && queue[0][1] < 0) {
+      results.push(tileAt(table, -1 - queue.shift()![1]));
+      if (results.length === count) return results;
+    }
+    nodePos = queue.shift()?.[1];
+  }
+
+  return results;
+}
+
+// Spatial index of each year's tiles, built once per tile table (so per data
+// source, or per search of sources searched by selection)
+const indexesByYear = new WeakMap<TileTable, Map<string, TileIndex>>();
+
+/**
+ * Get the indexes of every year's tiles the active data source has for a
+ * selection: those its search returns, or every tile it publishes
+ */
+async function fetchTileIndexes(query: TileQuery): Promise<Map<string, TileIndex>> {
+  const source = getDataSource();
+  const tiles = source.searchTiles ? await source.searchTiles(query) : await source.listTiles();
+  if (!tiles) {
+    throw new Error(`${source.name} neither lists nor searches its tiles`);
   }
 
-  cachedTiles = tiles;
-  return tiles;
+  let byYear = indexesByYear.get(tiles);
+  if (!byYear) {
+    const grouped = new Map<string, number[]>();
+    tiles.years.forEach((tileYear, row) => {
+      const rows = grouped.get(tileYear);
+      if (rows) {
+        rows.push(row);
+      } else {
+        grouped.set(tileYear, [row]);
+      }
+    });
+    byYear = new Map(Array.from(grouped, ([tileYear, rows]) => [tileYear, buildTileIndex(selectTiles(tiles, rows))]));
+    indexesByYear.set(tiles, byYear);
+  }
+
+  return byYear;
+}
+
+/**
+ * Get the index of a single year's tiles the active data source has for a selection
+ */
+async function fetchTileIndex(bbox: BoundingBox, year: string): Promise<TileIndex> {
+  return (await fetchTileIndexes({ bbox, year })).get(year) ?? buildTileIndex(tileTable([]));
 }
 
 /**
@@ -114,44 +315,164 @@ function bboxContainedInTile(bbox: BoundingBox, tile: TileInfo): boolean {
 }
 
 /**
- * Check if a point is within a tile's lat/lng bounds
+ * Find the tile containing the center of a bounding box
+ */
+export async function findTileForBoundingBox(
+  bbox: BoundingBox,
+  year: string = CONFIG.DEFAULT_YEAR
+): Promise<{ tile: TileInfo; fullyContained: boolean } | null> {
+  const index = await fetchTileIndex(bbox, year);
+
+  const centerLng = (bbox.minLng + bbox.maxLng) / 2;
+  const centerLat = (bbox.minLat + bbox.maxLat) / 2;
+
+  // Find tile containing the center point
+  const tile = tilesAtPoint(index, centerLng, centerLat)[0];
+  if (!tile) {
+    return null;
+  }
+  return { tile, fullyContained: bboxContainedInTile(bbox, tile) };
+}
+
+/**
+ * Check if a bounding box overlaps a tile's lat/lng bounds
  */
-function pointInTile(lng: number, lat: number, tile: TileInfo): boolean {
+function bboxIntersectsTile(bbox: BoundingBox, tile: TileInfo): boolean {
   return (
-    lng >= tile.lngLatBounds.minLng &&
-    lng <= tile.lngLatBounds.maxLng &&
-    lat >= tile.lngLatBounds.minLat &&
-    lat <= tile.lngLatBounds.maxLat
+    bbox.minLng < tile.lngLatBounds.maxLng &&
+    bbox.maxLng > tile.lngLatBounds.minLng &&
+    bbox.minLat < tile.lngLatBounds.maxLat &&
+    bbox.maxLat > tile.lngLatBounds.minLat
   );
 }
 
 /**
- * Find the tile containing the center of a bounding box
+ * Find every tile needed to cover a bounding box.
+ *
+ * The anchor is the tile containing the bbox center; its origin and UTM zone
+ * define the pixel grid the other tiles are mosaicked onto. Tiles from
+ * neighbouring zones are included and need resampling onto that grid.
  */
-export async function findTileForBoundingBox(
-  bbox: BoundingBox
-): Promise<{ tile: TileInfo; fullyContained: boolean } | null> {
-  const tiles = await fetchCOGIndex();
+export async function findTilesForBoundingBox(
+  bbox: BoundingBox,
+  year: string = CONFIG.DEFAULT_YEAR
+): Promise<{ anchor: TileInfo; tiles: TileInfo[] } | null> {
+  const result = await findTileForBoundingBox(bbox, year);
+  if (!result) {
+    return null;
+  }
 
-  const centerLng = (bbox.minLng + bbox.maxLng) / 2;
-  const centerLat = (bbox.minLat + bbox.maxLat) / 2;
+  const { tile: anchor, fullyContained } = result;
+  if (fullyContained) {
+    return { anchor, tiles: [anchor] };
+  }
+
+  const index = await fetchTileIndex(bbox, year);
+  const intersecting = searchTileIndex(index, bbox).filter(tile => bboxIntersectsTile(bbox, tile));
 
-  const minZone = getUTMZone(bbox.minLng);
-  const maxZone = getUTMZone(bbox.maxLng);
+  return { anchor, tiles: intersecting };
+}
 
-  if (minZone !== maxZone) {
-    throw new Error('Bounding box crosses UTM zone boundary');
+// Points per side of the grid sampled to check a selection is fully covered
+const COVERAGE_SAMPLES = 5;
+
+/**
+ * How much of a bounding box a year's tiles cover. Full coverage is checked
+ * on a grid of sample points, so gaps narrower than the spacing are missed.
+ */
+export function coverageOfBoundingBox(index: TileIndex, bbox: BoundingBox): CoverageStatus {
+  const intersecting = searchTileIndex(index, bbox).filter(tile => bboxIntersectsTile(bbox, tile));
+  if (intersecting.length === 0) {
+    return 'none';
   }
 
-  // Find tile containing the center point
-  for (const tile of tiles) {
-    if (pointInTile(centerLng, centerLat, tile)) {
-      const fullyContained = bboxContainedInTile(bbox, tile);
-      return { tile, fullyContained };
+  const subset = buildTileIndex(tileTable(intersecting));
+  for (let i = 0; i < COVERAGE_SAMPLES; i++) {
+    for (let j = 0; j < COVERAGE_SAMPLES; j++) {
+      const lng = bbox.minLng + ((bbox.maxLng - bbox.minLng) * i) / (COVERAGE_SAMPLES - 1);
+      const lat = bbox.minLat + ((bbox.maxLat - bbox.minLat) * j) / (COVERAGE_SAMPLES - 1);
+      if (tilesAtPoint(subset, lng, lat).length === 0) {
+        return 'partial';
+      }
     }
   }
+  return 'full';
+}
+
+/**
+ * Check which years of the active data source cover a bounding box
+ */
+export async function checkCoverage(bbox: BoundingBox): Promise<SelectionCoverage> {
+  const indexes = await fetchTileIndexes({ bbox });
+  const coverage: SelectionCoverage = {};
+  for (const [year, index] of indexes) {
+    coverage[year] = coverageOfBoundingBox(index, bbox);
+  }
+  return coverage;
+}
 
-  return null;
+/**
+ * Footprints of the tiles at each location, with the years published there
+ * (comma-separated, as GeoJSON properties can't hold arrays for styling)
+ */
+export type CoverageFootprints = GeoJSON.FeatureCollection<GeoJSON.Polygon, { years: string; yearCount: number }>;
+
+/**
+ * Merge tiles with the same footprint across years into one polygon per
+ * location, listing the years available there
+ */
+export function coverageFootprints(tiles: TileTable): CoverageFootprints {
+  const footprints = new Map<string, { bounds: BoundingBox; years: Set<string> }>();
+  for (let row = 0; row < tiles.length; row++) {
+    const [minLng, minLat, maxLng, maxLat] = tiles.lngLatBounds.subarray(row * 4, row * 4 + 4);
+    const year = tiles.years[row];
+    // Rounded to ~10 m so the same tile's bounds match across years
+    const key = [minLng, minLat, maxLng, maxLat].map(v => v.toFixed(4)).join('/');
+    const footprint = footprints.get(key);
+    if (footprint) {
+      footprint.years.add(year);
+    } else {
+      footprints.set(key, { bounds: { minLng, minLat, maxLng, maxLat }, years: new Set([year]) });
+    }
+  }
+
+  return {
+    type: 'FeatureCollection',
+    features: Array.from(footprints.values(), ({ bounds: b, years }) => ({
+      type: 'Feature',
+      properties: { years: Array.from(years).sort().join(', '), yearCount: years.size },
+      geometry: {
+        type: 'Polygon',
+        coordinates: [[
+          [b.minLng, b.minLat],
+          [b.maxLng, b.minLat],
+          [b.maxLng, b.maxLat],
+          [b.minLng, b.maxLat],
+          [b.minLng, b.minLat],
+        ]],
+      },
+    })),
+  };
+}
+
+// Footprints, built once per tile table
+const footprintsByTiles = new WeakMap<TileTable, CoverageFootprints>();
+
+/**
+ * Get the footprints of every tile published by the active data source, or
+ * null if it is searched per selection rather than listed
+ */
+export async function fetchCoverageFootprints(): Promise<CoverageFootprints | null> {
+  const tiles = await getDataSource().listTiles();
+  if (!tiles) {
+    return null;
+  }
+  let footprints = footprintsByTiles.get(tiles);
+  if (!footprints) {
+    footprints = coverageFootprints(tiles);
+    footprintsByTiles.set(tiles, footprints);
+  }
+  return footprints;
 }
 
 /**
@@ -172,5 +493,5 @@ export function getTileOrigin(tile: TileInfo): { x: number; y: number } {
  * Clear the cached tiles (useful for testing or forcing a refresh)
  */
 export function clearTileCache(): void {
-  cachedTiles = null;
+  getDataSource().clearCache?.();
 }
@@ -116,4 +116,57 @@ describe('Colormap', () => {
       }
     });
   });
+
+  describe('scoresToRGBA for distances', () => {
+    it('should map the smallest distance to yellow', () => {
+      const scores = new Float32Array([0.5, 0.75, 1.0]);
+      const rgba = scoresToRGBA(scores, 3, 1, 0.0, 1.0, true);
+
+      const yellow = viridis(1);
+      expect(rgba[0]).toBe(yellow[0]);
+      expect(rgba[1]).toBe(yellow[1]);
+      expect(rgba[2]).toBe(yellow[2]);
+
+      const purple = viridis(0);
+      expect(rgba[8]).toBe(purple[0]);
+      expect(rgba[9]).toBe(purple[1]);
+      expect(rgba[10]).toBe(purple[2]);
+    });
+
+    it('should hide the largest distances above the threshold', () => {
+      const scores = new Float32Array([1.0, 1.5, 2.0]);
+      const rgba = scoresToRGBA(scores, 3, 1, 0.5, 1.0, true);
+
+      expect(rgba[3]).toBe(255);
+      expect(rgba[7]).toBe(255);
+      expect(rgba[11]).toBe(0);
+    });
+
+    it('should still treat negative scores as masked', () => {
+      const scores = new Float32Array([-1, 0.2, 0.4]);
+      const rgba = scoresToRGBA(scores, 3, 1, 0.0, 1.0, true);
+
+      expect(rgba[3]).toBe(0);
+      expect(rgba[7]).toBe(255);
+    });
+  });
+  describe('scoresToRGBA with a shared range', () => {
+    it('should scale by the given range instead of the array', () => {
+      const scores = new Float32Array([0.5, 1.0]);
+      const rgba = scoresToRGBA(scores, 2, 1, 0.0, 1.0, false, { min: 0, max: 1 });
+
+      const teal = viridis(0.5);
+      expect(rgba[0]).toBe(teal[0]);
+      expect(rgba[1]).toBe(teal[1]);
+      expect(rgba[2]).toBe(teal[2]);
+    });
+
+    it('should apply the threshold within the given range', () => {
+      const scores = new Float32Array([0.4, 0.6]);
+      const rgba = scoresToRGBA(scores, 2, 1, 0.5, 1.0, false, { min: 0, max: 1 });
+
+      expect(rgba[3]).toBe(0);
+      expect(rgba[7]).toBe(255);
+    });
+  });
 });
@@ -52,7 +52,7 @@ export function viridis(value: number): RGB {
 /**
  * Compute min and max of valid (non-negative) scores
  */
-function computeScoreRange(scores: Float32Array): { min: number; max: number } {
+export function computeScoreRange(scores: Float32Array): { min: number; max: number } {
   let min = Infinity;
   let max = -Infinity;
 
@@ -88,6 +88,10 @@ function computeScoreRange(scores: Float32Array): { min: number; max: number } {
  * @param height - Image height
  * @param threshold - Minimum score to display (0-1, relative to score range)
  * @param opacity - Overall opacity (0-1)
+ * @param lowerIsBetter - Scores are distances: the lowest maps to yellow and the
+ *                        threshold hides the highest
+ * @param range - Score range to scale by instead of this array's own, so
+ *                several layers share one color scale
  * @returns Uint8ClampedArray suitable for ImageData (W x H x 4 RGBA)
  */
 export function scoresToRGBA(
@@ -95,17 +99,21 @@ export function scoresToRGBA(
   width: number,
   height: number,
   threshold: number,
-  opacity: number
+  opacity: number,
+  lowerIsBetter: boolean = false,
+  range: { min: number; max: number } = computeScoreRange(scores)
 ): Uint8ClampedArray {
   const rgba = new Uint8ClampedArray(width * height * 4);
   const baseAlpha = Math.round(opacity * 255);
 
   // Compute the actual score range for dynamic scaling
-  const { min: scoreMin, max: scoreMax } = computeScoreRange(scores);
+  const { min: scoreMin, max: scoreMax } = range;
   const scoreRange = scoreMax - scoreMin;
 
   // Convert threshold from [0,1] UI range to actual score value
-  const actualThreshold = scoreMin + threshold * scoreRange;
+  const actualThreshold = lowerIsBetter
+    ? scoreMax - threshold * scoreRange
+    : scoreMin + threshold * scoreRange;
 
   for (let i = 0; i < scores.length; i++) {
     const score = scores[i];
@@ -122,11 +130,11 @@ export function scoresToRGBA(
 
     // Normalize score to [0, 1] based on actual range for colormap
     const normalizedScore = scoreRange > 0
-      ? (score - scoreMin) / scoreRange
+      ? (lowerIsBetter ? scoreMax - score : score - scoreMin) / scoreRange
       : 0.5;
 
-    // Show pixels above threshold, hide those below
-    if (score >= actualThreshold) {
+    // Show pixels above threshold (below for distances), hide the rest
+    if (lowerIsBetter ? score <= actualThreshold : score >= actualThreshold) {
       const [r, g, b] = viridis(normalizedScore);
       rgba[rgbaIdx] = r;
       rgba[rgbaIdx + 1] = g;
@@ -6,6 +6,8 @@ import {
   bboxToPixelWindow,
   getUTMZone,
   getHemisphere,
+  parseUTMZone,
+  utmToLatLng,
 } from './coordinates';
 
 describe('Coordinate Utilities', () => {
@@ -55,6 +57,57 @@ describe('Coordinate Utilities', () => {
     });
   });
 
+  describe('parseUTMZone', () => {
+    it('should parse zone number and hemisphere', () => {
+      expect(parseUTMZone('10N')).toEqual({ zone: 10, hemisphere: 'N' });
+      expect(parseUTMZone('56S')).toEqual({ zone: 56, hemisphere: 'S' });
+      expect(parseUTMZone('1N')).toEqual({ zone: 1, hemisphere: 'N' });
+    });
+
+    it('should reject invalid labels', () => {
+      expect(() => parseUTMZone('EPSG:32610')).toThrow('Invalid UTM zone');
+    });
+  });
+
+  describe('latLngToUTM with a forced zone', () => {
+    it('should project a point into a neighbouring zone', () => {
+      // 108.1°E is in zone 49, just east of the zone 48/49 boundary
+      const native = latLngToUTM(1.3, 108.1);
+      const forced = latLngToUTM(1.3, 108.1, 48);
+
+      expect(native.zone).toBe(49);
+      expect(forced.zone).toBe(48);
+      // East of zone 48's central meridian (105°E), beyond its usual extent
+      expect(forced.easting).toBeGreaterThan(800000);
+      expect(native.easting).toBeLessThan(200000);
+      // Northing barely differs between adjacent zones near the equator
+      expect(Math.abs(forced.northing - native.northing)).toBeLessThan(1000);
+    });
+  });
+
+  describe('utmToLatLng', () => {
+    it('should invert latLngToUTM in the northern hemisphere', () => {
+      const utm = latLngToUTM(37.7749, -122.4194);
+      const { lat, lng } = utmToLatLng(utm.easting, utm.northing, utm.zone, utm.hemisphere);
+      expect(lat).toBeCloseTo(37.7749, 6);
+      expect(lng).toBeCloseTo(-122.4194, 6);
+    });
+
+    it('should invert latLngToUTM in the southern hemisphere', () => {
+      const utm = latLngToUTM(-33.9, 151.2);
+      const { lat, lng } = utmToLatLng(utm.easting, utm.northing, utm.zone, utm.hemisphere);
+      expect(lat).toBeCloseTo(-33.9, 6);
+      expect(lng).toBeCloseTo(151.2, 6);
+    });
+
+    it('should invert projections into a neighbouring zone', () => {
+      const utm = latLngToUTM(45.2, 11.9, 32); // 11.9°E lies in zone 33
+      const { lat, lng } = utmToLatLng(utm.easting, utm.northing, 32, 'N');
+      expect(lat).toBeCloseTo(45.2, 6);
+      expect(lng).toBeCloseTo(11.9, 6);
+    });
+  });
+
   describe('utmToPixel (SW origin for bottom-up COGs)', () => {
     // Simulated tile with SW corner at (500000, 4000000) UTM
     const tileOriginX = 500000; // West edge (minX)
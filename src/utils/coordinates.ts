@@ -22,28 +22,51 @@ export function getHemisphere(latitude: number): 'N' | 'S' {
   return latitude >= 0 ? 'N' : 'S';
 }
 
+/**
+ * Parse a UTM zone label such as '10N' or '48S'
+ */
+export function parseUTMZone(label: string): { zone: number; hemisphere: 'N' | 'S' } {
+  const match = /^(\d{1,2})([NS])$/.exec(label.trim().toUpperCase());
+  if (!match) {
+    throw new Error(`Invalid UTM zone: ${label}`);
+  }
+  return { zone: parseInt(match[1], 10), hemisphere: match[2] as 'N' | 'S' };
+}
+
+// WGS84 ellipsoid parameters
+const WGS84_A = 6378137.0; // semi-major axis
+const WGS84_F = 1 / 298.257223563; // flattening
+const UTM_K0 = 0.9996; // scale factor
+const WGS84_E2 = 2 * WGS84_F - WGS84_F * WGS84_F; // eccentricity squared
+const WGS84_EP2 = WGS84_E2 / (1 - WGS84_E2); // second eccentricity squared
+
+/**
+ * Central meridian of a UTM zone in radians
+ */
+function centralMeridian(zone: number): number {
+  return toRad((zone - 1) * 6 - 180 + 3);
+}
+
 /**
  * Convert lat/lng to UTM coordinates
  * Uses WGS84 ellipsoid parameters
+ *
+ * @param zone - Project into this zone instead of the one containing the
+ *   longitude (used to put neighbouring zones on a common grid)
  */
-export function latLngToUTM(lat: number, lng: number): UTMCoord {
-  const zone = getUTMZone(lng);
+export function latLngToUTM(lat: number, lng: number, zone: number = getUTMZone(lng)): UTMCoord {
   const hemisphere = getHemisphere(lat);
 
-  // WGS84 ellipsoid parameters
-  const a = 6378137.0; // semi-major axis
-  const f = 1 / 298.257223563; // flattening
-  const k0 = 0.9996; // scale factor
-
-  const e = Math.sqrt(2 * f - f * f); // eccentricity
-  const e2 = e * e;
-  const ep2 = e2 / (1 - e2); // second eccentricity squared
+  const a = WGS84_A;
+  const k0 = UTM_K0;
+  const e2 = WGS84_E2;
+  const ep2 = WGS84_EP2;
 
   const latRad = toRad(lat);
   const lngRad = toRad(lng);
 
   // Central meridian for the zone
-  const lng0 = toRad((zone - 1) * 6 - 180 + 3);
+  const lng0 = centralMeridian(zone);
 
   const N = a / Math.sqrt(1 - e2 * Math.sin(latRad) * Math.sin(latRad));
   const T = Math.tan(latRad) * Math.tan(latRad);
@@ -97,6 +120,67 @@ export function latLngToUTM(lat: number, lng: number): UTMCoord {
   };
 }
 
+/**
+ * Convert UTM coordinates back to lat/lng
+ * Inverse of latLngToUTM (Snyder's series expansion, WGS84)
+ */
+export function utmToLatLng(
+  easting: number,
+  northing: number,
+  zone: number,
+  hemisphere: 'N' | 'S'
+): { lat: number; lng: number } {
+  const a = WGS84_A;
+  const k0 = UTM_K0;
+  const e2 = WGS84_E2;
+  const ep2 = WGS84_EP2;
+
+  const x = easting - 500000;
+  const y = hemisphere === 'S' ? northing - 10000000 : northing;
+
+  // Footpoint latitude from the meridional arc
+  const M = y / k0;
+  const mu = M / (a * (1 - e2 / 4 - (3 * e2 * e2) / 64 - (5 * e2 * e2 * e2) / 256));
+  const e1 = (1 - Math.sqrt(1 - e2)) / (1 + Math.sqrt(1 - e2));
+  const phi1 =
+    mu +
+    ((3 * e1) / 2 - (27 * e1 * e1 * e1) / 32) * Math.sin(2 * mu) +
+    ((21 * e1 * e1) / 16 - (55 * e1 * e1 * e1 * e1) / 32) * Math.sin(4 * mu) +
+    ((151 * e1 * e1 * e1) / 96) * Math.sin(6 * mu) +
+    ((1097 * e1 * e1 * e1 * e1) / 512) * Math.sin(8 * mu);
+
+  const sinPhi1 = Math.sin(phi1);
+  const cosPhi1 = Math.cos(phi1);
+  const N1 = a / Math.sqrt(1 - e2 * sinPhi1 * sinPhi1);
+  const T1 = Math.tan(phi1) * Math.tan(phi1);
+  const C1 = ep2 * cosPhi1 * cosPhi1;
+  const R1 = (a * (1 - e2)) / Math.pow(1 - e2 * sinPhi1 * sinPhi1, 1.5);
+  const D = x / (N1 * k0);
+
+  const latRad =
+    phi1 -
+    ((N1 * Math.tan(phi1)) / R1) *
+      ((D * D) / 2 -
+        ((5 + 3 * T1 + 10 * C1 - 4 * C1 * C1 - 9 * ep2) * D * D * D * D) / 24 +
+        ((61 + 90 * T1 + 298 * C1 + 45 * T1 * T1 - 252 * ep2 - 3 * C1 * C1) *
+          D * D * D * D * D * D) /
+          720);
+
+  const lngRad =
+    centralMeridian(zone) +
+    (D -
+      ((1 + 2 * T1 + C1) * D * D * D) / 6 +
+      ((5 - 2 * C1 + 28 * T1 - 3 * C1 * C1 + 8 * ep2 + 24 * T1 * T1) *
+        D * D * D * D * D) /
+        120) /
+      cosPhi1;
+
+  return {
+    lat: latRad * (180 / Math.PI),
+    lng: lngRad * (180 / Math.PI),
+  };
+}
+
 /**
  * Convert UTM coordinates to pixel coordinates within a tile
  *
@@ -128,18 +212,51 @@ export function utmToPixel(
 
 /**
  * Convert lat/lng directly to pixel coordinates within a tile
+ *
+ * @param zone - UTM zone of the tile (defaults to the zone containing the point)
  */
 export function latLngToPixel(
   lat: number,
   lng: number,
   tileOriginX: number,
   tileOriginY: number,
-  pixelSize: number = CONFIG.PIXEL_SIZE
+  pixelSize: number = CONFIG.PIXEL_SIZE,
+  zone?: number
 ): PixelCoord {
-  const utm = latLngToUTM(lat, lng);
+  const utm = latLngToUTM(lat, lng, zone);
   return utmToPixel(utm, tileOriginX, tileOriginY, pixelSize);
 }
 
+/**
+ * Pixel of a loaded north-up grid containing a point, or null outside it.
+ * The point is projected into the pixel grid the data was read on, then
+ * offset by the grid's window origin, so no rounding of the grid's bounds
+ * can shift it.
+ *
+ * @param tileOriginX - X origin of the tile the grid was read on (west edge, minX)
+ * @param tileOriginY - Y origin of that tile (south edge, minY)
+ * @param zone - UTM zone of that tile
+ */
+export function gridPixelAt(
+  lat: number,
+  lng: number,
+  grid: { width: number; height: number; pixelSize: number; windowOrigin: PixelCoord },
+  tileOriginX: number,
+  tileOriginY: number,
+  zone: number
+): PixelCoord | null {
+  const pixel = latLngToPixel(lat, lng, tileOriginX, tileOriginY, grid.pixelSize, zone);
+
+  // Local coordinates in native COG order (row 0 = south), flipped to north-up
+  const x = pixel.x - grid.windowOrigin.x;
+  const y = (grid.height - 1) - (pixel.y - grid.windowOrigin.y);
+
+  if (x < 0 || x >= grid.width || y < 0 || y >= grid.height) {
+    return null;
+  }
+  return { x, y };
+}
+
 /**
  * Calculate pixel window for a bounding box within a tile
  *
@@ -151,13 +268,15 @@ export function latLngToPixel(
  * @param tileOriginX - X origin of tile in UTM (west edge, minX)
  * @param tileOriginY - Y origin of tile in UTM (south edge, minY)
  * @param pixelSize - Pixel size in meters
+ * @param zone - UTM zone of the tile (defaults to the zone of each corner)
  * @returns Window as [x, y, width, height] where (x,y) is the SW corner pixel
  */
 export function bboxToPixelWindow(
   bbox: BoundingBox,
   tileOriginX: number,
   tileOriginY: number,
-  pixelSize: number = CONFIG.PIXEL_SIZE
+  pixelSize: number = CONFIG.PIXEL_SIZE,
+  zone?: number
 ): [number, number, number, number] {
   // SW corner of bbox (minLat, minLng) - this gives the smallest pixel coords
   const sw = latLngToPixel(
@@ -165,7 +284,8 @@ export function bboxToPixelWindow(
     bbox.minLng,
     tileOriginX,
     tileOriginY,
-    pixelSize
+    pixelSize,
+    zone
   );
   // NE corner of bbox (maxLat, maxLng) - this gives the largest pixel coords
   const ne = latLngToPixel(
@@ -173,7 +293,8 @@ export function bboxToPixelWindow(
     bbox.maxLng,
     tileOriginX,
     tileOriginY,
-    pixelSize
+    pixelSize,
+    zone
   );
 
   // Window starts at SW corner (smallest x and y)
@@ -0,0 +1,145 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { ParquetColumnarLoader } from '@loaders.gl/parquet';
+import {
+  alphaEarthSource,
+  createParquetSource,
+  decodeZstdTile,
+  getDataSource,
+  s3ToHttps,
+  setDataSource,
+} from './dataSource';
+import type { DataSource } from './dataSource';
+import { DEQUANTIZE_LUT } from './quantized';
+import { tileTable } from './tileTable';
+import type { TileInfo } from '../types';
+
+const fixtureTile: TileInfo = {
+  wkt: '',
+  crs: 'EPSG:32610',
+  url: 'http://localhost:8080/tile.tiff',
+  year: '2024',
+  utmZone: '10N',
+  utmBounds: { minX: 500000, minY: 4000000, maxX: 581920, maxY: 4081920 },
+  lngLatBounds: { minLng: -123, minLat: 36.1, maxLng: -122.1, maxLat: 36.9 },
+};
+
+// A local fixture server publishing a single tile
+const fixtureTiles = tileTable([fixtureTile]);
+const fixtureSource: DataSource = {
+  name: 'Fixture',
+  listTiles: async () => fixtureTiles,
+  decoders: {},
+  bands: 64,
+  dequantizeLut: DEQUANTIZE_LUT,
+};
+
+describe('Data Source Utilities', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+    setDataSource(alphaEarthSource);
+  });
+
+  describe('s3ToHttps', () => {
+    it('should rewrite Source Cooperative S3 paths', () => {
+      expect(s3ToHttps('s3://us-west-2.opendata.source.coop/tge-labs/aef/v1/x.tiff'))
+        .toBe('https://data.source.coop/tge-labs/aef/v1/x.tiff');
+      expect(s3ToHttps('https://example.com/x.tiff')).toBe('https://example.com/x.tiff');
+    });
+  });
+
+  describe('decodeZstdTile', () => {
+    it('should pass through tiles without a ZSTD header', () => {
+      const buffer = new Uint8Array([1, 2, 3, 4, 5]).buffer;
+      expect(decodeZstdTile(buffer)).toBe(buffer);
+    });
+  });
+
+  describe('createParquetSource', () => {
+    it('should describe AlphaEarth-format COGs', () => {
+      const source = createParquetSource({ name: 'Mirror', indexUrl: 'https://mirror.example/index.parquet' });
+
+      expect(source.bands).toBe(64);
+      expect(source.decoders[50000]).toBe(decodeZstdTile);
+      expect(source.dequantizeLut).toBe(DEQUANTIZE_LUT);
+    });
+
+    it('should fill the tile table from every row group of the index', async () => {
+      // Two row groups as the columnar parquet loader reads them
+      const rowGroup = (paths: (string | Uint8Array)[], west: number) => ({
+        shape: 'columnar-table',
+        batchType: 'data',
+        length: paths.length,
+        data: {
+          crs: paths.map(() => 'EPSG:32610'),
+          path: paths,
+          year: paths.map(() => 2024n),
+          utm_zone: paths.map(() => new TextEncoder().encode('10N')),
+          utm_west: paths.map((_, i) => 500000 + i),
+          utm_south: paths.map(() => 4000000),
+          utm_east: paths.map(() => 581920),
+          utm_north: paths.map(() => 4081920),
+          wgs84_west: paths.map((_, i) => west + i),
+          wgs84_south: new Float64Array(paths.length).fill(36.1),
+          wgs84_east: paths.map(() => -122.1),
+          wgs84_north: paths.map(() => 36.9),
+        },
+      });
+      vi.stubGlobal('fetch', vi.fn(async () => new Response(new ArrayBuffer(8))));
+      vi.spyOn(ParquetColumnarLoader, 'parseFileInBatches').mockImplementation(async function* () {
+        yield rowGroup(['s3://bucket/a.tiff', new TextEncoder().encode('s3://bucket/b.tiff')], -123);
+        yield rowGroup(['s3://bucket/c.tiff'], -121);
+      } as unknown as typeof ParquetColumnarLoader.parseFileInBatches);
+
+      const source = createParquetSource({
+        name: 'Mirror',
+        indexUrl: 'https://mirror.example/index.parquet',
+        resolveUrl: path => path.replace('s3://bucket/', 'https://mirror.example/'),
+      });
+      const tiles = await source.listTiles();
+
+      expect(tiles?.length).toBe(3);
+      expect(tiles?.urls).toEqual([
+        'https://mirror.example/a.tiff',
+        'https://mirror.example/b.tiff',
+        'https://mirror.example/c.tiff',
+      ]);
+      expect(tiles?.years).toEqual(['2024', '2024', '2024']);
+      expect(tiles?.utmZones).toEqual(['10N', '10N', '10N']);
+      expect(Array.from(tiles!.lngLatBounds.subarray(4, 12))).toEqual([-122, 36.1, -122.1, 36.9, -121, 36.1, -122.1, 36.9]);
+      expect(Array.from(tiles!.utmBounds.subarray(4, 8))).toEqual([500001, 4000000, 581920, 4081920]);
+    });
+
+    it('should report a failed index request', async () => {
+      vi.stubGlobal('fetch', vi.fn(async () => new Response('Not found', { status: 404 })));
+      const source = createParquetSource({ name: 'Mirror', indexUrl: 'https://mirror.example/index.parquet' });
+
+      await expect(source.listTiles()).rejects.toThrow('Tile index request failed (404)');
+    });
+  });
+
+  describe('setDataSource', () => {
+    it('should switch the active source', async () => {
+      expect(getDataSource()).toBe(alphaEarthSource);
+
+      setDataSource(fixtureSource);
+
+      expect(getDataSource()).toBe(fixtureSource);
+      expect(await getDataSource().listTiles()).toBe(fixtureTiles);
+    });
+
+    it('should accept other band counts and quantizations', () => {
+      const product = { ...fixtureSource, bands: 16, dequantizeLut: new Float32Array(256).fill(0.5) };
+
+      setDataSource(product);
+
+      expect(getDataSource()).toBe(product);
+    });
+
+    it('should reject a source that cannot be decoded', () => {
+      expect(() => setDataSource({ ...fixtureSource, bands: 0 })).toThrow('invalid band count');
+      expect(() => setDataSource({ ...fixtureSource, dequantizeLut: new Float32Array(64) })).toThrow('64 entries');
+      expect(getDataSource()).toBe(alphaEarthSource);
+    });
+  });
+});
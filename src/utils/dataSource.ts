@@ -0,0 +1,243 @@
+/**
+ * Where embedding COGs come from: the tile index, how each COG is opened,
+ * how its tiles are compressed and how their Int8 codes map to embedding
+ * values.
+ *
+ * The default source is the AlphaEarth annual embeddings on Source
+ * Cooperative. Mirrors, test fixture servers or other products can be
+ * plugged in with setDataSource, e.g. a mirror publishing the same index:
+ *
+ *   setDataSource(createParquetSource({
+ *     name: 'Internal mirror',
+ *     indexUrl: 'https://mirror.example/aef_index.parquet',
+ *     resolveUrl: path => path.replace(/^s3:\/\/[^/]+\//, 'https://mirror.example/'),
+ *   }));
+ */
+
+import { BlobFile } from '@loaders.gl/loader-utils';
+import { ParquetColumnarLoader } from '@loaders.gl/parquet';
+import { decompress as zstdDecompress } from 'fzstd';
+import type { GeoTIFF } from 'geotiff';
+import type { BoundingBox, TileTable } from '../types';
+import { CONFIG } from '../constants';
+import { DEQUANTIZE_LUT } from './quantized';
+
+// A selection to find tiles for, in one year or all of them
+export interface TileQuery {
+  bbox: BoundingBox;
+  year?: string;
+}
+
+export interface DataSource {
+  name: string;
+  // Every tile the source publishes, across all years, with fetchable URLs;
+  // null if it can't list them up front and is searched per selection instead
+  listTiles: () => Promise<TileTable | null>;
+  // Tiles for a selection, for sources that can search (e.g. a STAC API) so
+  // lookups don't need every tile; they may return more than intersect it.
+  // The same query should give the same array, so its index is built once.
+  searchTiles?: (query: TileQuery) => Promise<TileTable>;
+  // Drop any cached index so the next listTiles fetches it again
+  clearCache?: () => void;
+  // Open a tile's COG, through which windows are read (defaults to geotiff's
+  // fromUrl); e.g. to add headers or read from somewhere other than HTTP
+  openTiff?: (url: string, signal?: AbortSignal) => Promise<GeoTIFF>;
+  // Decompressors for TIFF compression codes geotiff.js doesn't handle itself
+  decoders: Record<number, (buffer: ArrayBuffer) => ArrayBuffer>;
+  // Bands per pixel
+  bands: number;
+  // Embedding value of each stored Int8 code, indexed by code + 128
+  dequantizeLut: Float32Array;
+}
+
+// ZSTD magic bytes
+const ZSTD_MAGIC = [0x28, 0xb5, 0x2f, 0xfd];
+
+function isZstdCompressed(buffer: ArrayBuffer): boolean {
+  const view = new Uint8Array(buffer);
+  return ZSTD_MAGIC.every((byte, i) => view[i] === byte);
+}
+
+/**
+ * Decompress a tile stored with GDAL's compression code 50000 (ZSTD-compressed
+ * raw pixels); tiles without the ZSTD header are passed through
+ */
+export function decodeZstdTile(buffer: ArrayBuffer): ArrayBuffer {
+  if (!isZstdCompressed(buffer)) {
+    return buffer;
+  }
+  const decompressed = zstdDecompress(new Uint8Array(buffer));
+  const dataBuffer = new ArrayBuffer(decompressed.byteLength);
+  new Uint8Array(dataBuffer).set(decompressed);
+  return dataBuffer;
+}
+
+/**
+ * Convert S3 URL to HTTPS URL
+ * s3://us-west-2.opendata.source.coop/... -> https://data.source.coop/...
+ */
+export function s3ToHttps(s3Url: string): string {
+  return s3Url.replace(
+    /^s3:\/\/[^/]*\.opendata\.source\.coop\//,
+    'https://data.source.coop/'
+  );
+}
+
+/**
+ * Columns of one row group of aef_index.parquet
+ * Note: string columns may hold Uint8Array/Buffer values depending on parquet loader version
+ */
+interface ParquetColumns {
+  crs: ArrayLike<string | Uint8Array>;
+  path: ArrayLike<string | Uint8Array>;  // S3 URL, may be binary
+  year: ArrayLike<number | bigint>;  // int64 in parquet
+  utm_zone: ArrayLike<string | Uint8Array>;
+  utm_west: ArrayLike<number>;  // double in parquet
+  utm_south: ArrayLike<number>;
+  utm_east: ArrayLike<number>;
+  utm_north: ArrayLike<number>;
+  wgs84_west: ArrayLike<number>;
+  wgs84_south: ArrayLike<number>;
+  wgs84_east: ArrayLike<number>;
+  wgs84_north: ArrayLike<number>;
+}
+
+/**
+ * Decode a field that may be a string or Uint8Array
+ */
+function decodeField(value: string | Uint8Array): string {
+  if (typeof value === 'string') {
+    return value;
+  }
+  return new TextDecoder().decode(value);
+}
+
+/**
+ * Fetch and parse a GeoParquet tile index with the aef_index.parquet schema
+ * into a tile table, filling each of its columns from the parquet columns
+ *
+ * @param resolveUrl - Turns a row's path into the URL its COG is fetched from
+ */
+async function fetchParquetIndex(indexUrl: string, resolveUrl: (path: string) => string): Promise<TileTable> {
+  const response = await fetch(indexUrl);
+  if (!response.ok) {
+    throw new Error(`Tile index request failed (${response.status}): ${indexUrl}`);
+  }
+  const file = new BlobFile(await response.arrayBuffer());
+
+  // Read every row group (parsing the file in one go only returns the first)
+  const rowGroups: { length: number; columns: ParquetColumns }[] = [];
+  let rowCount = 0;
+  for await (const batch of ParquetColumnarLoader.parseFileInBatches(file)) {
+    rowGroups.push({ length: batch.length, columns: batch.data as unknown as ParquetColumns });
+    rowCount += batch.length;
+  }
+
+  const lngLatBounds = new Float64Array(rowCount * 4);
+  const utmBounds = new Float64Array(rowCount * 4);
+  const crs: string[] = [];
+  const urls: string[] = [];
+  const years: string[] = [];
+  const utmZones: string[] = [];
+
+  for (const { length, columns } of rowGroups) {
+    for (let row = 0; row < length; row++) {
+      let url: string;
+      try {
+        url = resolveUrl(decodeField(columns.path[row]));
+      } catch (e) {
+        const errorMessage = e instanceof Error ? e.message : String(e);
+        console.warn(`Failed to parse tile row (utm_zone=${columns.utm_zone[row]}): ${errorMessage}`);
+        continue;
+      }
+
+      const pos = urls.length * 4;
+      lngLatBounds[pos] = columns.wgs84_west[row];
+      lngLatBounds[pos + 1] = columns.wgs84_south[row];
+      lngLatBounds[pos + 2] = columns.wgs84_east[row];
+      lngLatBounds[pos + 3] = columns.wgs84_north[row];
+      utmBounds[pos] = columns.utm_west[row];
+      utmBounds[pos + 1] = columns.utm_south[row];
+      utmBounds[pos + 2] = columns.utm_east[row];
+      utmBounds[pos + 3] = columns.utm_north[row];
+      crs.push(decodeField(columns.crs[row]));
+      urls.push(url);
+      years.push(String(columns.year[row]));
+      utmZones.push(decodeField(columns.utm_zone[row]));
+    }
+  }
+
+  // Rows that failed to parse leave unused space at the end
+  return {
+    length: urls.length,
+    lngLatBounds: lngLatBounds.slice(0, urls.length * 4),
+    utmBounds: utmBounds.slice(0, urls.length * 4),
+    crs,
+    urls,
+    years,
+    utmZones,
+  };
+}
+
+/**
+ * A source of AlphaEarth-format COGs (64 Int8 bands, ZSTD tiles) listed in a
+ * GeoParquet index with the aef_index.parquet schema
+ */
+export function createParquetSource(options: {
+  name: string;
+  indexUrl: string;
+  resolveUrl?: (path: string) => string;
+}): DataSource {
+  const { name, indexUrl, resolveUrl = s3ToHttps } = options;
+  let tilesPromise: Promise<TileTable> | null = null;
+
+  return {
+    name,
+    listTiles: () => {
+      if (!tilesPromise) {
+        tilesPromise = fetchParquetIndex(indexUrl, resolveUrl);
+        // Let a failed fetch be retried
+        tilesPromise.catch(() => {
+          tilesPromise = null;
+        });
+      }
+      return tilesPromise;
+    },
+    clearCache: () => {
+      tilesPromise = null;
+    },
+    decoders: { 50000: decodeZstdTile },
+    bands: CONFIG.EMBEDDING_BANDS,
+    dequantizeLut: DEQUANTIZE_LUT,
+  };
+}
+
+export const alphaEarthSource = createParquetSource({
+  name: 'AlphaEarth annual embeddings (Source Cooperative)',
+  indexUrl: CONFIG.COG_INDEX_URL,
+});
+
+let activeSource: DataSource = alphaEarthSource;
+
+/**
+ * The source tiles are currently looked up and read from
+ */
+export function getDataSource(): DataSource {
+  return activeSource;
+}
+
+/**
+ * Switch to another source
+ */
+export function setDataSource(source: DataSource): void {
+  if (!Number.isInteger(source.bands) || source.bands < 1) {
+    throw new Error(`${source.name} has an invalid band count: ${source.bands}`);
+  }
+  if (source.dequantizeLut.length !== DEQUANTIZE_LUT.length) {
+    throw new Error(
+      `${source.name}'s dequantization table has ${source.dequantizeLut.length} entries; ` +
+      `it needs one for each of the ${DEQUANTIZE_LUT.length} Int8 codes.`
+    );
+  }
+  activeSource = source;
+}
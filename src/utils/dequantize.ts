@@ -1,26 +1,47 @@
-import { CONFIG } from '../constants';
+import type { EmbeddingFormat } from '../types';
+import { allocateBuffer } from './workerPool';
+import { getSimdKernels, SimdKernels } from './simd';
+import { isAlphaEarthFormat, setPixelValid } from './quantized';
 
 /**
  * Dequantize Int8 embeddings to Float32
  *
- * The COG stores quantized embeddings as Int8 values.
- * Formula: float = sign(raw) * (raw / 127.5)^2
+ * The COG stores quantized embeddings as Int8 values, which the source's
+ * lookup table maps to embedding values (for AlphaEarth,
+ * float = sign(raw) * (raw / 127.5)^2).
  * -128 is used as a mask value (no valid data)
  *
- * @param data - Int8Array of quantized embeddings (W x H x 64)
+ * @param data - Int8Array of quantized embeddings (W x H x bands)
  * @param width - Width of the raster
  * @param height - Height of the raster
- * @returns Object with dequantized Float32Array and boolean mask
+ * @param format - Band count and dequantization of the codes
+ * @param kernels - SIMD kernels to use, or null for the plain JS loop
+ *                  (only AlphaEarth's format has a kernel)
+ * @returns Object with unit-normalized Float32Array, packed validity mask
+ *          and the magnitude of each pixel before normalization (0 if masked)
  */
 export function dequantize(
   data: Int8Array,
   width: number,
-  height: number
-): { embeddings: Float32Array; mask: boolean[] } {
-  const bands = CONFIG.EMBEDDING_BANDS;
+  height: number,
+  format: EmbeddingFormat,
+  kernels: SimdKernels | null = getSimdKernels()
+): { embeddings: Float32Array; mask: Uint8Array; magnitudes: Float32Array } {
+  const { bands, dequantizeLut } = format;
   const numPixels = width * height;
-  const embeddings = new Float32Array(numPixels * bands);
-  const mask: boolean[] = new Array(numPixels).fill(true);
+  // Shared when possible, so the worker pool can read them without copies
+  const embeddings = new Float32Array(allocateBuffer(numPixels * bands * 4));
+  const mask = new Uint8Array(Math.ceil(numPixels / 8));
+  const magnitudes = new Float32Array(allocateBuffer(numPixels * 4));
+
+  if (kernels && isAlphaEarthFormat(format)) {
+    const validity = new Uint8Array(numPixels);
+    kernels.dequantize(data, embeddings, validity, magnitudes);
+    for (let pixelIdx = 0; pixelIdx < numPixels; pixelIdx++) {
+      setPixelValid(mask, pixelIdx, validity[pixelIdx] === 1);
+    }
+    return { embeddings, mask, magnitudes };
+  }
 
   for (let pixelIdx = 0; pixelIdx < numPixels; pixelIdx++) {
     const baseIdx = pixelIdx * bands;
@@ -35,14 +56,11 @@ export function dequantize(
         isValid = false;
         embeddings[baseIdx + band] = 0;
       } else {
-        // Dequantize: float = sign(raw) * (raw / 127.5)^2
-        const sign = raw >= 0 ? 1 : -1;
-        const absNormalized = Math.abs(raw) / 127.5;
-        embeddings[baseIdx + band] = sign * absNormalized * absNormalized;
+        embeddings[baseIdx + band] = dequantizeLut[raw + 128];
       }
     }
 
-    mask[pixelIdx] = isValid;
+    setPixelValid(mask, pixelIdx, isValid);
 
     // Second pass: normalize to unit length (as Google intended)
     if (isValid) {
@@ -52,6 +70,7 @@ export function dequantize(
         magnitude += val * val;
       }
       magnitude = Math.sqrt(magnitude);
+      magnitudes[pixelIdx] = magnitude;
 
       if (magnitude > 0) {
         for (let band = 0; band < bands; band++) {
@@ -61,7 +80,7 @@ export function dequantize(
     }
   }
 
-  return { embeddings, mask };
+  return { embeddings, mask, magnitudes };
 }
 
 /**
@@ -71,9 +90,9 @@ export function extractEmbeddingVector(
   embeddings: Float32Array,
   pixelX: number,
   pixelY: number,
-  width: number
+  width: number,
+  bands: number
 ): Float32Array {
-  const bands = CONFIG.EMBEDDING_BANDS;
   const pixelIdx = pixelY * width + pixelX;
   const baseIdx = pixelIdx * bands;
 
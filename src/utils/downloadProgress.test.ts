@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import {
+  internalTileIndex,
+  tileByteCount,
+  downloadRate,
+  formatBytes,
+  formatDuration,
+} from './downloadProgress';
+
+describe('Download Progress Utilities', () => {
+  describe('internalTileIndex', () => {
+    it('should count tiles row by row', () => {
+      // 1000px wide image with 256px tiles: 4 tiles per row
+      expect(internalTileIndex([0, 0, 256, 256], 256, 256, 1000)).toBe(0);
+      expect(internalTileIndex([768, 0, 232, 256], 256, 256, 1000)).toBe(3);
+      expect(internalTileIndex([256, 512, 256, 256], 256, 256, 1000)).toBe(9);
+    });
+  });
+
+  describe('tileByteCount', () => {
+    it('should read one count for pixel-interleaved data', () => {
+      expect(tileByteCount([100, 200, 300, 400], 2, 4, 1)).toBe(300);
+    });
+
+    it('should sum the tile across band planes', () => {
+      // Two planes of two tiles each
+      expect(tileByteCount([10, 20, 30, 40], 1, 2, 2)).toBe(60);
+    });
+  });
+
+  describe('downloadRate', () => {
+    it('should report throughput and time remaining', () => {
+      const rate = downloadRate(2_000_000, 10_000_000, 2000);
+
+      expect(rate.bytesPerSecond).toBe(1_000_000);
+      expect(rate.etaSeconds).toBe(8);
+    });
+
+    it('should wait for enough data before estimating', () => {
+      expect(downloadRate(0, 100, 5000)).toEqual({ bytesPerSecond: null, etaSeconds: null });
+      expect(downloadRate(50, 100, 100)).toEqual({ bytesPerSecond: null, etaSeconds: null });
+    });
+  });
+
+  describe('formatting', () => {
+    it('should format sizes with sensible units', () => {
+      expect(formatBytes(512 * 1024)).toBe('512 KB');
+      expect(formatBytes(2.5 * 1024 * 1024)).toBe('2.5 MB');
+      expect(formatBytes(244 * 1024 * 1024)).toBe('244 MB');
+      expect(formatBytes(1.5 * 1024 * 1024 * 1024)).toBe('1.5 GB');
+    });
+
+    it('should format durations in seconds or minutes', () => {
+      expect(formatDuration(12.4)).toBe('~12s');
+      expect(formatDuration(0.2)).toBe('~1s');
+      expect(formatDuration(190)).toBe('~3min');
+    });
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Helpers for byte-accurate download progress: expected sizes from a COG's
+ * tile byte counts, and throughput / time remaining while downloading.
+ */
+
+import type { PixelWindow } from './mosaic';
+
+// Don't report a rate until enough time has passed for it to mean anything
+const MIN_RATE_ELAPSED_MS = 500;
+
+export interface DownloadRate {
+  bytesPerSecond: number | null;
+  etaSeconds: number | null;
+}
+
+/**
+ * Index of the internal tile containing the top-left pixel of a block,
+ * counting row by row across the image (TIFF tile order)
+ */
+export function internalTileIndex(
+  block: PixelWindow,
+  tileWidth: number,
+  tileHeight: number,
+  imageWidth: number
+): number {
+  const tilesAcross = Math.ceil(imageWidth / tileWidth);
+  return Math.floor(block[1] / tileHeight) * tilesAcross + Math.floor(block[0] / tileWidth);
+}
+
+/**
+ * Compressed size of one internal tile across all of its planes.
+ * Pixel-interleaved COGs have one plane; band-separate ones store each band's
+ * tiles after the previous band's.
+ *
+ * @param byteCounts - The image's TileByteCounts tag
+ * @param tilesPerPlane - Number of internal tiles in one plane
+ * @param planes - 1 for pixel-interleaved data, otherwise the band count
+ */
+export function tileByteCount(
+  byteCounts: ArrayLike<number>,
+  tileIndex: number,
+  tilesPerPlane: number,
+  planes: number
+): number {
+  let bytes = 0;
+  for (let plane = 0; plane < planes; plane++) {
+    bytes += byteCounts[plane * tilesPerPlane + tileIndex] ?? 0;
+  }
+  return bytes;
+}
+
+/**
+ * Average throughput so far and the time left at that rate
+ */
+export function downloadRate(loaded: number, total: number, elapsedMs: number): DownloadRate {
+  if (loaded <= 0 || elapsedMs < MIN_RATE_ELAPSED_MS) {
+    return { bytesPerSecond: null, etaSeconds: null };
+  }
+  const bytesPerSecond = loaded / (elapsedMs / 1000);
+  return {
+    bytesPerSecond,
+    etaSeconds: Math.max(0, total - loaded) / bytesPerSecond,
+  };
+}
+
+/**
+ * Format a byte count for display, e.g. "850 KB" or "61.2 MB"
+ */
+export function formatBytes(bytes: number): string {
+  const mb = bytes / (1024 * 1024);
+  if (mb >= 1024) return `${(mb / 1024).toFixed(1)} GB`;
+  if (mb >= 10) return `${Math.round(mb)} MB`;
+  if (mb >= 1) return `${mb.toFixed(1)} MB`;
+  return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+}
+
+/**
+ * Format a rough duration for display, e.g. "~12s" or "~3min"
+ */
+export function formatDuration(seconds: number): string {
+  return seconds < 60 ? `~${Math.max(1, Math.round(seconds))}s` : `~${Math.round(seconds / 60)}min`;
+}
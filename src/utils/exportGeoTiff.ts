@@ -10,6 +10,7 @@ const TAG = {
   BitsPerSample: 258,
   Compression: 259,
   PhotometricInterpretation: 262,
+  ImageDescription: 270,
   StripOffsets: 273,
   SamplesPerPixel: 277,
   RowsPerStrip: 278,
@@ -58,14 +59,16 @@ function writeFloat64(view: DataView, offset: number, value: number): void {
  *
  * The output is a single-band Float32 GeoTIFF with:
  * - CRS: EPSG:4326 (WGS84 geographic coordinates)
- * - Pixel values: similarity scores (0-1, or -1 for masked)
+ * - Pixel values: similarity scores (0-1) or distances, -1 for masked
+ * - ImageDescription: what the values mean, e.g. whether lower is more similar
  */
 export function downloadGeoTiff(
   scores: Float32Array,
   width: number,
   height: number,
   bounds: BoundingBox,
-  filename: string = 'similarity.tif'
+  filename: string = 'similarity.tif',
+  description?: string
 ): void {
   // Calculate pixel size in degrees
   const pixelScaleX = (bounds.maxLng - bounds.minLng) / width;
@@ -96,7 +99,7 @@ export function downloadGeoTiff(
   // - 2 bytes: number of entries
   // - N * 12 bytes: directory entries
   // - 4 bytes: next IFD offset (0)
-  const numTags = 14;
+  const numTags = description ? 15 : 14;
   const ifdSize = 2 + numTags * 12 + 4;
 
   // Extended data (values that don't fit in 4 bytes)
@@ -104,7 +107,15 @@ export function downloadGeoTiff(
   const pixelScaleSize = 24; // 3 doubles
   const tiepointSize = 48; // 6 doubles
   const geoKeysSize = 32; // 16 shorts
-  const extDataSize = pixelScaleSize + tiepointSize + geoKeysSize;
+  // NUL-terminated ASCII description, stored inline if it fits in 4 bytes,
+  // otherwise padded to an even length so the following values stay word aligned
+  const descriptionBytes = description
+    ? [...Array.from(description, c => c.charCodeAt(0) & 0x7f), 0]
+    : [];
+  const descriptionSize = descriptionBytes.length > 4
+    ? descriptionBytes.length + (descriptionBytes.length % 2)
+    : 0;
+  const extDataSize = pixelScaleSize + tiepointSize + geoKeysSize + descriptionSize;
 
   // Image data offset (must be 4-byte aligned for Float32Array)
   const unalignedOffset = extDataOffset + extDataSize;
@@ -146,7 +157,12 @@ export function downloadGeoTiff(
 
     if (valueSize <= 4) {
       // Value fits in the offset field
-      if (type === 3) { // SHORT
+      if (type === 2) { // ASCII
+        const values = value as number[];
+        for (let i = 0; i < count; i++) {
+          uint8[ifdOffset + 8 + i] = values[i];
+        }
+      } else if (type === 3) { // SHORT
         if (Array.isArray(value)) {
           for (let i = 0; i < count && i < 2; i++) {
             writeUint16(view, ifdOffset + 8 + i * 2, value[i]);
@@ -172,8 +188,10 @@ export function downloadGeoTiff(
         for (let i = 0; i < count; i++) {
           writeUint16(view, extOffset + i * 2, values[i]);
         }
+      } else if (type === 2) { // ASCII
+        uint8.set(value as number[], extOffset);
       }
-      extOffset += valueSize;
+      extOffset += valueSize + (valueSize % 2);
     }
 
     ifdOffset += 12;
@@ -185,6 +203,9 @@ export function downloadGeoTiff(
   writeTag(TAG.BitsPerSample, 3, 1, 32);
   writeTag(TAG.Compression, 3, 1, 1); // No compression
   writeTag(TAG.PhotometricInterpretation, 3, 1, 1); // BlackIsZero
+  if (description) {
+    writeTag(TAG.ImageDescription, 2, descriptionBytes.length, descriptionBytes);
+  }
   writeTag(TAG.StripOffsets, 4, 1, imageDataOffset);
   writeTag(TAG.SamplesPerPixel, 3, 1, 1);
   writeTag(TAG.RowsPerStrip, 4, 1, height);
@@ -6,15 +6,17 @@
  * @param width - Width of the raster in pixels
  * @param height - Height of the raster in pixels
  * @param bands - Number of bands per pixel
- * @returns New array with flipped data
+ * @param out - Array to write into (defaults to a new one of the same type)
+ * @returns Array with flipped data
  */
 export function flipVertical<T extends Int8Array | Float32Array>(
   data: T,
   width: number,
   height: number,
-  bands: number
+  bands: number,
+  out?: T
 ): T {
-  const result = new (data.constructor as new (length: number) => T)(data.length);
+  const result = out ?? new (data.constructor as new (length: number) => T)(data.length);
   const rowSize = width * bands;
 
   for (let y = 0; y < height; y++) {
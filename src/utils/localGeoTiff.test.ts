@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { floatsToEmbeddingData, localGridFootprint, quantizeValue, utmZoneFromEpsg, yearFromFileName } from './localGeoTiff';
+import { DEQUANTIZE_LUT, isPixelValid } from './quantized';
+import { getTileOrigin } from './cogIndex';
+import { gridPixelAt, parseUTMZone, utmToLatLng } from './coordinates';
+
+const bounds = { minLng: 0, minLat: 0, maxLng: 1, maxLat: 1 };
+
+describe('Local GeoTIFF Utilities', () => {
+  describe('utmZoneFromEpsg', () => {
+    it('should read WGS 84 / UTM codes', () => {
+      expect(utmZoneFromEpsg(32643)).toBe('43N');
+      expect(utmZoneFromEpsg(32701)).toBe('1S');
+      expect(utmZoneFromEpsg(32660)).toBe('60N');
+    });
+
+    it('should reject other coordinate systems', () => {
+      expect(utmZoneFromEpsg(4326)).toBeNull();
+      expect(utmZoneFromEpsg(3857)).toBeNull();
+      expect(utmZoneFromEpsg(32661)).toBeNull();
+    });
+  });
+
+  describe('yearFromFileName', () => {
+    it('should find a year in the name', () => {
+      expect(yearFromFileName('aef_2023_berlin.tif')).toBe('2023');
+      expect(yearFromFileName('2019.tif')).toBe('2019');
+    });
+
+    it('should ignore longer numbers', () => {
+      expect(yearFromFileName('export_120234.tif')).toBeNull();
+      expect(yearFromFileName('embeddings.tif')).toBeNull();
+    });
+  });
+
+  describe('quantizeValue', () => {
+    it('should invert dequantization', () => {
+      for (const code of [-127, -64, -1, 0, 1, 50, 127]) {
+        expect(quantizeValue(DEQUANTIZE_LUT[code + 128])).toBe(code);
+      }
+    });
+
+    it('should clamp out-of-range values', () => {
+      expect(quantizeValue(2)).toBe(127);
+      expect(quantizeValue(-2)).toBe(-127);
+    });
+  });
+
+  describe('localGridFootprint', () => {
+    // A 100 x 50 pixel export at 10 m in zone 33N
+    const utmBounds = { minX: 390005, minY: 5818005, maxX: 391005, maxY: 5818505 };
+    const { bounds, tile, windowOrigin } = localGridFootprint('berlin_2024.tif', 32633, '33N', utmBounds, '2024');
+    const values = new Float32Array(100 * 50 * 64).fill(0.1);
+    const data = floatsToEmbeddingData(values, 100, 50, -9999, bounds, 10, windowOrigin, '2024');
+    const origin = getTileOrigin(tile);
+    const { zone, hemisphere } = parseUTMZone(tile.utmZone);
+    const pixelAt = (x: number, y: number) => {
+      const { lat, lng } = utmToLatLng(x, y, zone, hemisphere);
+      return gridPixelAt(lat, lng, data, origin.x, origin.y, zone);
+    };
+
+    it('should describe the file as a tile whose origin is its SW corner', () => {
+      expect(tile.utmBounds).toEqual(utmBounds);
+      expect(tile.crs).toBe('EPSG:32633');
+      expect(windowOrigin).toEqual({ x: 0, y: 0 });
+    });
+
+    it('should pick the clicked pixel', () => {
+      // Pixel centres, from the SW corner (last grid row) to the NE corner
+      expect(pixelAt(390010, 5818010)).toEqual({ x: 0, y: 49 });
+      expect(pixelAt(391000, 5818500)).toEqual({ x: 99, y: 0 });
+      expect(pixelAt(390260, 5818130)).toEqual({ x: 25, y: 37 });
+    });
+
+    it('should keep clicks just inside the edges on the grid', () => {
+      expect(pixelAt(390005.5, 5818005.5)).toEqual({ x: 0, y: 49 });
+      expect(pixelAt(391004.5, 5818504.5)).toEqual({ x: 99, y: 0 });
+      expect(pixelAt(390004.5, 5818100)).toBeNull();
+      expect(pixelAt(390100, 5818505.5)).toBeNull();
+    });
+  });
+
+  describe('floatsToEmbeddingData', () => {
+    it('should normalize pixels and mask nodata', () => {
+      // Three pixels: valid, one NaN band, one nodata band
+      const values = new Float32Array(3 * 64).fill(0.1);
+      values[64 + 3] = NaN;
+      values[2 * 64 + 7] = -9999;
+
+      const data = floatsToEmbeddingData(values, 3, 1, -9999, bounds, 10, { x: 0, y: 0 }, '2024');
+      if (data.storage !== 'float32') throw new Error('Expected a Float32 grid');
+
+      expect(isPixelValid(data.mask, 0)).toBe(true);
+      expect(isPixelValid(data.mask, 1)).toBe(false);
+      expect(isPixelValid(data.mask, 2)).toBe(false);
+      expect(data.magnitudes[0]).toBeCloseTo(0.8, 5);
+      expect(data.embeddings[0]).toBeCloseTo(0.125, 5);
+    });
+  });
+});
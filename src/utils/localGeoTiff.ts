@@ -0,0 +1,137 @@
+/**
+ * Helpers for loading embeddings from a local GeoTIFF (e.g. an Earth Engine
+ * export of the AlphaEarth dataset) instead of the published COGs
+ */
+
+import type { BoundingBox, EmbeddingData, PixelCoord, TileInfo } from '../types';
+import { parseUTMZone, utmToLatLng } from './coordinates';
+import { NODATA_VALUE } from './mosaic';
+import { ALPHA_EARTH_FORMAT, packMask, shouldQuantize, validityMask } from './quantized';
+import { allocateBuffer } from './workerPool';
+
+// Local files hold AlphaEarth embeddings, quantized like the COGs when too large
+const BANDS = ALPHA_EARTH_FORMAT.bands;
+
+/**
+ * UTM zone label (e.g. "43N") of a WGS 84 / UTM EPSG code, or null for any
+ * other CRS
+ */
+export function utmZoneFromEpsg(code: number): string | null {
+  const zone = code % 100;
+  if (zone < 1 || zone > 60) return null;
+  if (code - zone === 32600) return `${zone}N`;
+  if (code - zone === 32700) return `${zone}S`;
+  return null;
+}
+
+/**
+ * Year in a file name like "aef_2023_berlin.tif", or null if there is none
+ */
+export function yearFromFileName(name: string): string | null {
+  const match = /(?:^|\D)(20\d\d)(?:\D|$)/.exec(name);
+  return match ? match[1] : null;
+}
+
+/**
+ * Bounds of a local grid from its projected bounds, and a tile describing
+ * the file that stands in for the COG tile when converting clicks to pixels.
+ * The tile's origin is the grid's SW corner, so the grid starts at pixel
+ * (0, 0) of the tile; clicks are located from that exact origin rather than
+ * from the lat/lng bounds, which can't be projected back without rounding.
+ */
+export function localGridFootprint(
+  name: string,
+  epsg: number,
+  utmZone: string,
+  utmBounds: TileInfo['utmBounds'],
+  year: string
+): { bounds: BoundingBox; tile: TileInfo; windowOrigin: PixelCoord } {
+  // Bounds of the grid's SW and NE corners, as for a selection (see bboxToPixelWindow)
+  const { zone, hemisphere } = parseUTMZone(utmZone);
+  const sw = utmToLatLng(utmBounds.minX, utmBounds.minY, zone, hemisphere);
+  const ne = utmToLatLng(utmBounds.maxX, utmBounds.maxY, zone, hemisphere);
+  const bounds: BoundingBox = { minLng: sw.lng, minLat: sw.lat, maxLng: ne.lng, maxLat: ne.lat };
+
+  const tile: TileInfo = {
+    wkt: '',
+    crs: `EPSG:${epsg}`,
+    url: name,
+    year,
+    utmZone,
+    utmBounds,
+    lngLatBounds: bounds,
+  };
+  return { bounds, tile, windowOrigin: { x: 0, y: 0 } };
+}
+
+/**
+ * Quantize a dequantized embedding value back to its Int8 code, the inverse
+ * of float = sign(raw) * (raw / 127.5)^2
+ */
+export function quantizeValue(value: number): number {
+  const raw = Math.round(Math.sign(value) * Math.sqrt(Math.abs(value)) * 127.5);
+  return Math.max(-127, Math.min(127, raw));
+}
+
+/**
+ * Build embedding data from a north-up Float32 raster (W x H x 64,
+ * interleaved). Pixels with a non-finite or nodata band are masked.
+ * Grids too large for Float32 are quantized to Int8 codes, as when loading
+ * from the COGs.
+ */
+export function floatsToEmbeddingData(
+  values: Float32Array,
+  width: number,
+  height: number,
+  nodata: number | null,
+  bounds: BoundingBox,
+  pixelSize: number,
+  windowOrigin: PixelCoord,
+  year: string
+): EmbeddingData {
+  const numPixels = width * height;
+  const grid = { width, height, bounds, pixelSize, windowOrigin, year, format: ALPHA_EARTH_FORMAT };
+  const isValid = (pixelIdx: number) => {
+    for (let band = 0; band < BANDS; band++) {
+      const value = values[pixelIdx * BANDS + band];
+      if (!Number.isFinite(value) || value === nodata) return false;
+    }
+    return true;
+  };
+
+  if (shouldQuantize(width, height, BANDS)) {
+    const codes = new Int8Array(allocateBuffer(numPixels * BANDS)).fill(NODATA_VALUE);
+    for (let pixelIdx = 0; pixelIdx < numPixels; pixelIdx++) {
+      if (!isValid(pixelIdx)) continue;
+      for (let band = 0; band < BANDS; band++) {
+        codes[pixelIdx * BANDS + band] = quantizeValue(values[pixelIdx * BANDS + band]);
+      }
+    }
+    return { ...grid, storage: 'int8', codes, mask: validityMask(codes, numPixels, BANDS) };
+  }
+
+  const embeddings = new Float32Array(allocateBuffer(numPixels * BANDS * 4));
+  const magnitudes = new Float32Array(allocateBuffer(numPixels * 4));
+  const valid = new Array<boolean>(numPixels);
+
+  for (let pixelIdx = 0; pixelIdx < numPixels; pixelIdx++) {
+    valid[pixelIdx] = isValid(pixelIdx);
+    if (!valid[pixelIdx]) continue;
+
+    const baseIdx = pixelIdx * BANDS;
+    let magnitude = 0;
+    for (let band = 0; band < BANDS; band++) {
+      magnitude += values[baseIdx + band] * values[baseIdx + band];
+    }
+    magnitude = Math.sqrt(magnitude);
+    magnitudes[pixelIdx] = magnitude;
+
+    if (magnitude > 0) {
+      for (let band = 0; band < BANDS; band++) {
+        embeddings[baseIdx + band] = values[baseIdx + band] / magnitude;
+      }
+    }
+  }
+
+  return { ...grid, storage: 'float32', embeddings, magnitudes, mask: packMask(valid) };
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import {
+  covarianceMatrix,
+  pooledCovariance,
+  choleskyFactor,
+  whiten,
+  COVARIANCE_SHRINKAGE,
+} from './mahalanobis';
+
+const BANDS = 64;
+
+// Interleaved embeddings for a row of pixels, each set on one band
+function embeddingRow(values: [band: number, value: number][]): Float32Array {
+  const embeddings = new Float32Array(values.length * BANDS);
+  values.forEach(([band, value], i) => {
+    embeddings[i * BANDS + band] = value;
+  });
+  return embeddings;
+}
+
+describe('Mahalanobis Utilities', () => {
+  describe('covarianceMatrix', () => {
+    it('should compute the sample covariance of raw vectors', () => {
+      // Band 0 takes values 1 and 3 after scaling by the magnitudes
+      const embeddings = embeddingRow([[0, 1], [0, 1]]);
+      const magnitudes = new Float32Array([1, 3]);
+      const mean = new Float32Array(BANDS);
+      mean[0] = 2;
+
+      const covariance = covarianceMatrix(embeddings, magnitudes, [0, 1], mean);
+
+      expect(covariance[0]).toBeCloseTo(2, 6);
+      expect(covariance[1]).toBe(0);
+      expect(covariance[BANDS + 1]).toBe(0);
+    });
+
+    it('should be symmetric', () => {
+      const embeddings = new Float32Array(3 * BANDS);
+      embeddings.set([1, 2], 0);
+      embeddings.set([3, 1], BANDS);
+      embeddings.set([2, 3], 2 * BANDS);
+      const mean = new Float32Array(BANDS);
+      mean.set([2, 2]);
+
+      const covariance = covarianceMatrix(embeddings, new Float32Array(3).fill(1), [0, 1, 2], mean);
+
+      expect(covariance[1]).toBeCloseTo(covariance[BANDS], 6);
+      expect(covariance[1]).toBeCloseTo(-0.5, 6);
+    });
+  });
+
+  describe('pooledCovariance', () => {
+    it('should weight regions by pixel count', () => {
+      const a = new Float64Array(BANDS * BANDS).fill(1);
+      const b = new Float64Array(BANDS * BANDS).fill(4);
+
+      const pooled = pooledCovariance([
+        { covariance: a, pixelCount: 2 },
+        { covariance: b, pixelCount: 1 },
+      ]);
+
+      expect(pooled[0]).toBeCloseTo(2, 6);
+    });
+  });
+
+  describe('choleskyFactor', () => {
+    it('should factor the shrunk covariance', () => {
+      const covariance = new Float64Array(BANDS * BANDS);
+      for (let i = 0; i < BANDS; i++) covariance[i * BANDS + i] = 1 + (i % 3);
+      covariance[1] = covariance[BANDS] = 0.5;
+
+      const L = choleskyFactor(covariance);
+
+      // Reconstruct L * L^T for a few entries
+      const product = (i: number, j: number) => {
+        let sum = 0;
+        for (let k = 0; k < BANDS; k++) sum += L[i * BANDS + k] * L[j * BANDS + k];
+        return sum;
+      };
+      let trace = 0;
+      for (let i = 0; i < BANDS; i++) trace += covariance[i * BANDS + i];
+      const shrunkDiagonal = (i: number) =>
+        (1 - COVARIANCE_SHRINKAGE) * covariance[i * BANDS + i] + COVARIANCE_SHRINKAGE * trace / BANDS;
+
+      expect(product(0, 0)).toBeCloseTo(shrunkDiagonal(0), 6);
+      expect(product(2, 2)).toBeCloseTo(shrunkDiagonal(2), 6);
+      expect(product(0, 1)).toBeCloseTo((1 - COVARIANCE_SHRINKAGE) * 0.5, 6);
+    });
+
+    it('should stay invertible for a singular covariance', () => {
+      // A region of identical pixels has zero covariance
+      const L = choleskyFactor(new Float64Array(BANDS * BANDS));
+      for (let i = 0; i < BANDS; i++) {
+        expect(L[i * BANDS + i]).toBeGreaterThan(0);
+      }
+    });
+  });
+
+  describe('whiten', () => {
+    it('should solve L * out = vector', () => {
+      const covariance = new Float64Array(BANDS * BANDS);
+      for (let i = 0; i < BANDS; i++) covariance[i * BANDS + i] = 4;
+      covariance[1] = covariance[BANDS] = 1;
+      const L = choleskyFactor(covariance);
+
+      const vector = new Float32Array(BANDS).map((_, i) => i / BANDS);
+      const out = whiten(vector, L, new Float32Array(BANDS));
+
+      for (let i = 0; i < BANDS; i++) {
+        let sum = 0;
+        for (let k = 0; k <= i; k++) sum += L[i * BANDS + k] * out[k];
+        expect(sum).toBeCloseTo(vector[i], 5);
+      }
+    });
+  });
+});
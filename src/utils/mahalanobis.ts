@@ -0,0 +1,128 @@
+// Fraction of the covariance blended with a scaled identity, so small or
+// uniform regions (fewer pixels than bands) still give an invertible matrix
+export const COVARIANCE_SHRINKAGE = 0.1;
+
+/**
+ * Covariance matrix (bands x bands, row-major) of a set of pixels' raw embeddings.
+ * Raw vectors are the unit embeddings scaled back by their magnitudes.
+ *
+ * @param embeddings - Unit-normalized embeddings (W x H x bands)
+ * @param magnitudes - Per-pixel magnitude before normalization
+ * @param pixels - Indices of the pixels to include
+ * @param mean - Mean raw vector of those pixels
+ */
+export function covarianceMatrix(
+  embeddings: Float32Array,
+  magnitudes: Float32Array,
+  pixels: number[],
+  mean: Float32Array
+): Float64Array {
+  const bands = mean.length;
+  const covariance = new Float64Array(bands * bands);
+  const centered = new Float64Array(bands);
+
+  for (const pixelIdx of pixels) {
+    const baseIdx = pixelIdx * bands;
+    const magnitude = magnitudes[pixelIdx];
+    for (let band = 0; band < bands; band++) {
+      centered[band] = embeddings[baseIdx + band] * magnitude - mean[band];
+    }
+    // Accumulate the upper triangle only
+    for (let i = 0; i < bands; i++) {
+      for (let j = i; j < bands; j++) {
+        covariance[i * bands + j] += centered[i] * centered[j];
+      }
+    }
+  }
+
+  const n = Math.max(1, pixels.length - 1);
+  for (let i = 0; i < bands; i++) {
+    for (let j = i; j < bands; j++) {
+      const value = covariance[i * bands + j] / n;
+      covariance[i * bands + j] = value;
+      covariance[j * bands + i] = value;
+    }
+  }
+
+  return covariance;
+}
+
+/**
+ * Average several covariance matrices, weighted by their pixel counts
+ */
+export function pooledCovariance(
+  regions: { covariance: Float64Array; pixelCount: number }[]
+): Float64Array {
+  const pooled = new Float64Array(regions.length > 0 ? regions[0].covariance.length : 0);
+  let total = 0;
+
+  for (const { covariance, pixelCount } of regions) {
+    for (let i = 0; i < pooled.length; i++) {
+      pooled[i] += covariance[i] * pixelCount;
+    }
+    total += pixelCount;
+  }
+
+  if (total > 0) {
+    for (let i = 0; i < pooled.length; i++) {
+      pooled[i] /= total;
+    }
+  }
+  return pooled;
+}
+
+/**
+ * Lower-triangular Cholesky factor L of the shrunk covariance (L * L^T).
+ * Mahalanobis distance is then the Euclidean distance after whitening
+ * both vectors with L^-1 (see whiten).
+ */
+export function choleskyFactor(covariance: Float64Array): Float64Array {
+  const bands = Math.round(Math.sqrt(covariance.length));
+
+  // Shrink towards a scaled identity with the same average variance
+  let trace = 0;
+  for (let i = 0; i < bands; i++) {
+    trace += covariance[i * bands + i];
+  }
+  const target = trace > 0 ? trace / bands : 1;
+  const shrunk = new Float64Array(bands * bands);
+  for (let i = 0; i < bands; i++) {
+    for (let j = 0; j < bands; j++) {
+      shrunk[i * bands + j] = (1 - COVARIANCE_SHRINKAGE) * covariance[i * bands + j];
+    }
+    shrunk[i * bands + i] += COVARIANCE_SHRINKAGE * target;
+  }
+
+  const factor = new Float64Array(bands * bands);
+  for (let i = 0; i < bands; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = shrunk[i * bands + j];
+      for (let k = 0; k < j; k++) {
+        sum -= factor[i * bands + k] * factor[j * bands + k];
+      }
+      if (i === j) {
+        // Guard against rounding pushing a pivot to zero
+        factor[i * bands + i] = Math.sqrt(Math.max(sum, 1e-12));
+      } else {
+        factor[i * bands + j] = sum / factor[j * bands + j];
+      }
+    }
+  }
+
+  return factor;
+}
+
+/**
+ * Solve L * out = vector by forward substitution, i.e. out = L^-1 * vector
+ */
+export function whiten(vector: Float32Array, factor: Float64Array, out: Float32Array): Float32Array {
+  const bands = vector.length;
+  for (let i = 0; i < bands; i++) {
+    let sum = vector[i];
+    for (let k = 0; k < i; k++) {
+      sum -= factor[i * bands + k] * out[k];
+    }
+    out[i] = sum / factor[i * bands + i];
+  }
+  return out;
+}
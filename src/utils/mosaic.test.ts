@@ -0,0 +1,192 @@
+import { describe, it, expect } from 'vitest';
+import {
+  intersectWindows,
+  createMosaicBuffer,
+  pasteWindow,
+  resampleWindow,
+  mappedWindowBounds,
+  alignedBlocks,
+  copyOverlap,
+  NODATA_VALUE,
+} from './mosaic';
+import { dequantize } from './dequantize';
+import { ALPHA_EARTH_FORMAT, isPixelValid } from './quantized';
+
+describe('Mosaic Utilities', () => {
+  describe('intersectWindows', () => {
+    it('should return the overlapping region', () => {
+      expect(intersectWindows([0, 0, 10, 10], [5, 3, 10, 10])).toEqual([5, 3, 5, 7]);
+    });
+
+    it('should return the inner window when fully contained', () => {
+      expect(intersectWindows([2, 2, 3, 3], [0, 0, 10, 10])).toEqual([2, 2, 3, 3]);
+    });
+
+    it('should clip windows with negative origins to the tile', () => {
+      // Selection starting before the tile's west/south edge
+      expect(intersectWindows([-4, -2, 10, 10], [0, 0, 100, 100])).toEqual([0, 0, 6, 8]);
+    });
+
+    it('should return null for disjoint or touching windows', () => {
+      expect(intersectWindows([0, 0, 5, 5], [10, 10, 5, 5])).toBeNull();
+      expect(intersectWindows([0, 0, 5, 5], [5, 0, 5, 5])).toBeNull();
+    });
+  });
+
+  describe('createMosaicBuffer', () => {
+    it('should fill every value with nodata', () => {
+      const buffer = createMosaicBuffer(3, 2, 4);
+      expect(buffer.length).toBe(3 * 2 * 4);
+      expect(buffer.every(v => v === NODATA_VALUE)).toBe(true);
+    });
+  });
+
+  describe('pasteWindow', () => {
+    it('should copy source rows at the given offset', () => {
+      const bands = 2;
+      const target = createMosaicBuffer(4, 3, bands);
+      // 2x2 source, pixel values encode their position
+      const source = new Int8Array([
+        1, 1, 2, 2,
+        3, 3, 4, 4,
+      ]);
+
+      pasteWindow(target, 4, source, 2, 2, 1, 1, bands);
+
+      const pixel = (x: number, y: number) => target[(y * 4 + x) * bands];
+      expect(pixel(1, 1)).toBe(1);
+      expect(pixel(2, 1)).toBe(2);
+      expect(pixel(1, 2)).toBe(3);
+      expect(pixel(2, 2)).toBe(4);
+      // Untouched pixels remain nodata
+      expect(pixel(0, 0)).toBe(NODATA_VALUE);
+      expect(pixel(3, 1)).toBe(NODATA_VALUE);
+      expect(pixel(0, 2)).toBe(NODATA_VALUE);
+    });
+
+    it('should stitch two tiles so that gaps are masked after dequantization', () => {
+      const bands = 64;
+      const width = 4;
+      const height = 1;
+      const target = createMosaicBuffer(width, height, bands);
+
+      // West tile covers x=0, east tile covers x=2..3, x=1 is a gap
+      const west = new Int8Array(bands).fill(50);
+      const east = new Int8Array(2 * bands).fill(-50);
+      pasteWindow(target, width, west, 1, 1, 0, 0, bands);
+      pasteWindow(target, width, east, 2, 1, 2, 0, bands);
+
+      const { mask } = dequantize(target, width, height, ALPHA_EARTH_FORMAT);
+      expect([0, 1, 2, 3].map(i => isPixelValid(mask, i))).toEqual([true, false, true, true]);
+    });
+  });
+
+  describe('resampleWindow', () => {
+    // Single-band source whose values encode the source pixel position
+    const sourceWidth = 40;
+    const sourceHeight = 40;
+    const source = new Int8Array(sourceWidth * sourceHeight);
+    for (let i = 0; i < source.length; i++) {
+      source[i] = i % 127;
+    }
+    const sourceValue = (x: number, y: number) => source[y * sourceWidth + x];
+
+    it('should reproduce a translated window exactly', () => {
+      const width = 20;
+      const height = 20;
+      const target = createMosaicBuffer(width, height, 1);
+
+      // Target pixel centers map 5 columns east and 3 rows north in the source
+      resampleWindow(target, width, height, source, sourceWidth, sourceHeight,
+        (x, y) => [x + 5.5, y + 3.5], 1);
+
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          expect(target[y * width + x]).toBe(sourceValue(x + 5, y + 3));
+        }
+      }
+    });
+
+    it('should follow a slightly rotated mapping', () => {
+      const width = 30;
+      const height = 30;
+      const target = createMosaicBuffer(width, height, 1);
+      const angle = 0.02;
+      const mapPixel = (x: number, y: number): [number, number] => [
+        5 + (x + 0.5) * Math.cos(angle) - (y + 0.5) * Math.sin(angle),
+        5 + (x + 0.5) * Math.sin(angle) + (y + 0.5) * Math.cos(angle),
+      ];
+
+      resampleWindow(target, width, height, source, sourceWidth, sourceHeight, mapPixel, 1);
+
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const [sx, sy] = mapPixel(x, y);
+          expect(target[y * width + x]).toBe(sourceValue(Math.floor(sx), Math.floor(sy)));
+        }
+      }
+    });
+
+    it('should leave pixels mapping outside the source as nodata', () => {
+      const width = 10;
+      const height = 1;
+      const target = createMosaicBuffer(width, height, 1);
+
+      // Only target columns 0-4 fall inside the source
+      resampleWindow(target, width, height, source, sourceWidth, sourceHeight,
+        (x, y) => [x + 35.5, y + 0.5], 1);
+
+      expect(target[4]).toBe(sourceValue(39, 0));
+      expect(target[5]).toBe(NODATA_VALUE);
+      expect(target[9]).toBe(NODATA_VALUE);
+    });
+
+    it('should not overwrite pixels that already have data', () => {
+      const target = createMosaicBuffer(2, 1, 1);
+      target[0] = 42;
+
+      resampleWindow(target, 2, 1, source, sourceWidth, sourceHeight,
+        (x, y) => [x + 1.5, y + 1.5], 1);
+
+      expect(target[0]).toBe(42);
+      expect(target[1]).toBe(sourceValue(2, 1));
+    });
+  });
+
+  describe('mappedWindowBounds', () => {
+    it('should cover every mapped pixel with a one pixel margin', () => {
+      const bounds = mappedWindowBounds((x, y) => [x + 100, y + 50], 20, 10);
+      expect(bounds).toEqual([99, 49, 22, 12]);
+    });
+  });
+  describe('alignedBlocks', () => {
+    it('should return the grid blocks a window touches', () => {
+      const blocks = alignedBlocks([5, 5, 10, 4], 8, 8, [0, 0, 100, 100]);
+      expect(blocks).toEqual([[0, 0, 8, 8], [8, 0, 8, 8], [0, 8, 8, 8], [8, 8, 8, 8]]);
+    });
+
+    it('should clip blocks to the extent', () => {
+      const blocks = alignedBlocks([-4, 6, 20, 20], 8, 8, [0, 0, 12, 10]);
+      expect(blocks).toEqual([[0, 0, 8, 8], [8, 0, 4, 8], [0, 8, 8, 2], [8, 8, 4, 2]]);
+    });
+
+    it('should return nothing outside the extent', () => {
+      expect(alignedBlocks([20, 20, 5, 5], 8, 8, [0, 0, 10, 10])).toEqual([]);
+    });
+  });
+
+  describe('copyOverlap', () => {
+    it('should copy only the overlapping pixels', () => {
+      // 2x2 source at (1, 1) holding values 1..4, one band
+      const source = new Int8Array([1, 2, 3, 4]);
+      const target = createMosaicBuffer(3, 2, 1);
+
+      copyOverlap(target, [0, 0, 3, 2], source, [1, 1, 2, 2], 1);
+
+      expect(Array.from(target)).toEqual([
+        NODATA_VALUE, NODATA_VALUE, NODATA_VALUE,
+        NODATA_VALUE, 1, 2,
+      ]);
+    });
+  });
+});
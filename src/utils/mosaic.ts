@@ -0,0 +1,235 @@
+/**
+ * Helpers for stitching windows read from several COG tiles into one raster.
+ *
+ * Windows are [x, y, width, height] tuples in the same pixel space, matching
+ * the format returned by bboxToPixelWindow.
+ */
+
+export type PixelWindow = [number, number, number, number];
+
+// Quantized value used by AlphaEarth COGs for pixels without data
+export const NODATA_VALUE = -128;
+
+/**
+ * Intersect two pixel windows
+ * Returns null if the windows do not overlap
+ */
+export function intersectWindows(a: PixelWindow, b: PixelWindow): PixelWindow | null {
+  const x0 = Math.max(a[0], b[0]);
+  const y0 = Math.max(a[1], b[1]);
+  const x1 = Math.min(a[0] + a[2], b[0] + b[2]);
+  const y1 = Math.min(a[1] + a[3], b[1] + b[3]);
+
+  if (x1 <= x0 || y1 <= y0) {
+    return null;
+  }
+
+  return [x0, y0, x1 - x0, y1 - y0];
+}
+
+/**
+ * Allocate an interleaved raster with every pixel marked as nodata,
+ * so areas not covered by any tile are masked out by dequantize
+ */
+export function createMosaicBuffer(width: number, height: number, bands: number): Int8Array {
+  return new Int8Array(width * height * bands).fill(NODATA_VALUE);
+}
+
+/**
+ * Copy an interleaved source raster into the target raster at the given offset.
+ * Both rasters must use the same row order.
+ *
+ * @param target - Destination raster (targetWidth x H x bands)
+ * @param targetWidth - Width of the destination raster in pixels
+ * @param source - Source raster (sourceWidth x sourceHeight x bands)
+ * @param sourceWidth - Width of the source raster in pixels
+ * @param sourceHeight - Height of the source raster in pixels
+ * @param offsetX - Column in the target where the source starts
+ * @param offsetY - Row in the target where the source starts
+ * @param bands - Number of bands per pixel
+ */
+export function pasteWindow(
+  target: Int8Array,
+  targetWidth: number,
+  source: Int8Array,
+  sourceWidth: number,
+  sourceHeight: number,
+  offsetX: number,
+  offsetY: number,
+  bands: number
+): void {
+  const sourceRowSize = sourceWidth * bands;
+  const targetRowSize = targetWidth * bands;
+
+  for (let y = 0; y < sourceHeight; y++) {
+    const srcOffset = y * sourceRowSize;
+    const dstOffset = (offsetY + y) * targetRowSize + offsetX * bands;
+    target.set(source.subarray(srcOffset, srcOffset + sourceRowSize), dstOffset);
+  }
+}
+
+/**
+ * Blocks of a fixed grid (aligned to multiples of the block size) that a
+ * window touches, clipped to the extent. Reads split this way line up across
+ * overlapping selections, so cached blocks can be reused.
+ */
+export function alignedBlocks(
+  window: PixelWindow,
+  blockWidth: number,
+  blockHeight: number,
+  extent: PixelWindow
+): PixelWindow[] {
+  const clipped = intersectWindows(window, extent);
+  if (!clipped) {
+    return [];
+  }
+
+  const [x, y, width, height] = clipped;
+  const blocks: PixelWindow[] = [];
+  for (let blockY = Math.floor(y / blockHeight) * blockHeight; blockY < y + height; blockY += blockHeight) {
+    for (let blockX = Math.floor(x / blockWidth) * blockWidth; blockX < x + width; blockX += blockWidth) {
+      const block = intersectWindows([blockX, blockY, blockWidth, blockHeight], extent);
+      if (block) {
+        blocks.push(block);
+      }
+    }
+  }
+  return blocks;
+}
+
+/**
+ * Copy the overlap of two windows in the same pixel space from the source
+ * raster into the target raster. Does nothing if they don't overlap.
+ */
+export function copyOverlap(
+  target: Int8Array,
+  targetWindow: PixelWindow,
+  source: Int8Array,
+  sourceWindow: PixelWindow,
+  bands: number
+): void {
+  const overlap = intersectWindows(targetWindow, sourceWindow);
+  if (!overlap) {
+    return;
+  }
+
+  const [x, y, width, height] = overlap;
+  const rowSize = width * bands;
+  for (let row = y; row < y + height; row++) {
+    const srcOffset = ((row - sourceWindow[1]) * sourceWindow[2] + (x - sourceWindow[0])) * bands;
+    const dstOffset = ((row - targetWindow[1]) * targetWindow[2] + (x - targetWindow[0])) * bands;
+    target.set(source.subarray(srcOffset, srcOffset + rowSize), dstOffset);
+  }
+}
+
+// Spacing of the lattice on which resampling coordinates are computed exactly
+const RESAMPLE_LATTICE_STEP = 16;
+
+/**
+ * Nearest-neighbour resample a source raster onto the target grid.
+ *
+ * mapPixel converts a target pixel (column, row) to continuous source pixel
+ * coordinates, e.g. by reprojecting between UTM zones. Since that mapping is
+ * smooth and expensive, it is evaluated on a coarse lattice and bilinearly
+ * interpolated in between. Only target pixels still marked as nodata are
+ * filled, so data pasted directly onto the grid takes precedence.
+ */
+export function resampleWindow(
+  target: Int8Array,
+  targetWidth: number,
+  targetHeight: number,
+  source: Int8Array,
+  sourceWidth: number,
+  sourceHeight: number,
+  mapPixel: (x: number, y: number) => [number, number],
+  bands: number
+): void {
+  const step = RESAMPLE_LATTICE_STEP;
+  const latticeCols = Math.ceil((targetWidth - 1) / step) + 2;
+  const latticeRows = Math.ceil((targetHeight - 1) / step) + 2;
+
+  // Source coordinates at lattice points, stored as [sx, sy] pairs
+  const lattice = new Float64Array(latticeCols * latticeRows * 2);
+  for (let j = 0; j < latticeRows; j++) {
+    for (let i = 0; i < latticeCols; i++) {
+      const [sx, sy] = mapPixel(i * step, j * step);
+      const idx = (j * latticeCols + i) * 2;
+      lattice[idx] = sx;
+      lattice[idx + 1] = sy;
+    }
+  }
+
+  for (let y = 0; y < targetHeight; y++) {
+    const j = Math.floor(y / step);
+    const ty = (y - j * step) / step;
+
+    for (let x = 0; x < targetWidth; x++) {
+      const targetIdx = (y * targetWidth + x) * bands;
+      if (target[targetIdx] !== NODATA_VALUE) {
+        continue;
+      }
+
+      const i = Math.floor(x / step);
+      const tx = (x - i * step) / step;
+
+      const i00 = (j * latticeCols + i) * 2;
+      const i10 = i00 + 2;
+      const i01 = i00 + latticeCols * 2;
+      const i11 = i01 + 2;
+
+      const sx =
+        (lattice[i00] * (1 - tx) + lattice[i10] * tx) * (1 - ty) +
+        (lattice[i01] * (1 - tx) + lattice[i11] * tx) * ty;
+      const sy =
+        (lattice[i00 + 1] * (1 - tx) + lattice[i10 + 1] * tx) * (1 - ty) +
+        (lattice[i01 + 1] * (1 - tx) + lattice[i11 + 1] * tx) * ty;
+
+      const srcX = Math.floor(sx);
+      const srcY = Math.floor(sy);
+      if (srcX < 0 || srcX >= sourceWidth || srcY < 0 || srcY >= sourceHeight) {
+        continue;
+      }
+
+      const sourceIdx = (srcY * sourceWidth + srcX) * bands;
+      target.set(source.subarray(sourceIdx, sourceIdx + bands), targetIdx);
+    }
+  }
+}
+
+/**
+ * Bounding window of a mapped target window in source pixel space.
+ * Samples the target window's perimeter and pads by one pixel so the
+ * nearest-neighbour lookups in resampleWindow stay inside it.
+ */
+export function mappedWindowBounds(
+  mapPixel: (x: number, y: number) => [number, number],
+  width: number,
+  height: number
+): PixelWindow {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+
+  const include = (x: number, y: number) => {
+    const [sx, sy] = mapPixel(x, y);
+    minX = Math.min(minX, sx);
+    minY = Math.min(minY, sy);
+    maxX = Math.max(maxX, sx);
+    maxY = Math.max(maxY, sy);
+  };
+
+  const step = RESAMPLE_LATTICE_STEP;
+  for (let x = 0; x < width + step; x += step) {
+    include(Math.min(x, width), 0);
+    include(Math.min(x, width), height);
+  }
+  for (let y = 0; y < height + step; y += step) {
+    include(0, Math.min(y, height));
+    include(width, Math.min(y, height));
+  }
+
+  const x0 = Math.floor(minX) - 1;
+  const y0 = Math.floor(minY) - 1;
+  return [x0, y0, Math.ceil(maxX) + 1 - x0, Math.ceil(maxY) + 1 - y0];
+}
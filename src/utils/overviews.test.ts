@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { overviewFactors, chooseOverviewFactor, expectedOverviewFactor } from './overviews';
+
+describe('Overview Utilities', () => {
+  describe('overviewFactors', () => {
+    it('should give the downsampling of each image relative to the first', () => {
+      expect(overviewFactors([8192, 4096, 2048, 1024])).toEqual([1, 2, 4, 8]);
+    });
+
+    it('should round overviews of odd-sized images', () => {
+      expect(overviewFactors([8191, 4096, 2048])).toEqual([1, 2, 4]);
+    });
+  });
+
+  describe('chooseOverviewFactor', () => {
+    const factors = [1, 2, 4, 8];
+
+    it('should read small windows at full resolution', () => {
+      expect(chooseOverviewFactor(2000, 2000, factors, 2000 * 2000)).toBe(1);
+    });
+
+    it('should pick the finest level that fits the budget', () => {
+      expect(chooseOverviewFactor(4000, 4000, factors, 2000 * 2000)).toBe(2);
+      expect(chooseOverviewFactor(6000, 6000, factors, 2000 * 2000)).toBe(4);
+    });
+
+    it('should ignore the order of the factors', () => {
+      expect(chooseOverviewFactor(4000, 4000, [8, 1, 4, 2], 2000 * 2000)).toBe(2);
+    });
+
+    it('should return null when no level fits', () => {
+      expect(chooseOverviewFactor(4000, 4000, [1], 2000 * 2000)).toBeNull();
+    });
+  });
+
+  describe('expectedOverviewFactor', () => {
+    it('should stay at full resolution up to 20km', () => {
+      expect(expectedOverviewFactor(20)).toBe(1);
+    });
+
+    it('should halve resolution until the area fits', () => {
+      expect(expectedOverviewFactor(40)).toBe(2);
+      expect(expectedOverviewFactor(60)).toBe(4);
+      expect(expectedOverviewFactor(80)).toBe(4);
+    });
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Helpers for reading large areas from COG overviews (reduced-resolution
+ * copies stored alongside the full-resolution image).
+ */
+
+import { CONFIG } from '../constants';
+
+/**
+ * Downsampling factor of each image in a COG relative to the first,
+ * full-resolution one: 1, then typically 2, 4, 8... for the overviews
+ *
+ * @param widths - Width in pixels of each image, full resolution first
+ */
+export function overviewFactors(widths: number[]): number[] {
+  return widths.map(width => Math.round(widths[0] / width));
+}
+
+/**
+ * Smallest available downsampling factor that keeps a window under maxPixels.
+ * Returns null if even the coarsest level is too large.
+ *
+ * @param fullWidth - Window width at full resolution
+ * @param fullHeight - Window height at full resolution
+ * @param factors - Available factors (see overviewFactors)
+ * @param maxPixels - Pixel budget for the window
+ */
+export function chooseOverviewFactor(
+  fullWidth: number,
+  fullHeight: number,
+  factors: number[],
+  maxPixels: number = CONFIG.MAX_GRID_PIXELS
+): number | null {
+  const sorted = [...factors].sort((a, b) => a - b);
+  for (const factor of sorted) {
+    if (Math.ceil(fullWidth / factor) * Math.ceil(fullHeight / factor) <= maxPixels) {
+      return factor;
+    }
+  }
+  return null;
+}
+
+/**
+ * Factor the loader is expected to pick for a square area, assuming the usual
+ * power-of-two overviews. Used for estimates before any COG is opened.
+ */
+export function expectedOverviewFactor(sizeKm: number): number {
+  const fullPixels = Math.ceil((sizeKm * 1000) / CONFIG.PIXEL_SIZE);
+  let factor = 1;
+  while (Math.ceil(fullPixels / factor) ** 2 > CONFIG.MAX_GRID_PIXELS) {
+    factor *= 2;
+  }
+  return factor;
+}
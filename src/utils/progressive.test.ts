@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { createEmptyGrid, fillGridRegion } from './progressive';
+import { dequantize } from './dequantize';
+import { flipVertical } from './flipVertical';
+import { ALPHA_EARTH_FORMAT, isPixelValid, validityMask } from './quantized';
+import { getSimdKernels } from './simd';
+import type { EmbeddingData } from '../types';
+
+const bounds = { minLng: 0, minLat: 0, maxLng: 1, maxLat: 1 };
+
+// 4x3 native mosaic with varied codes; pixel 5 has a nodata band
+function sampleMosaic(): Int8Array {
+  const mosaic = new Int8Array(4 * 3 * 64);
+  for (let i = 0; i < mosaic.length; i++) {
+    mosaic[i] = ((i * 53) % 255) - 127;
+  }
+  mosaic[5 * 64 + 10] = -128;
+  return mosaic;
+}
+
+describe('Progressive Loading Utilities', () => {
+  describe('createEmptyGrid', () => {
+    it('should start with every pixel masked', () => {
+      const grid = createEmptyGrid(4, 3, bounds, 10, { x: 0, y: 0 }, '2024', ALPHA_EARTH_FORMAT);
+
+      expect(grid.storage).toBe('float32');
+      expect(Array.from(grid.mask).every(byte => byte === 0)).toBe(true);
+    });
+  });
+
+  describe('fillGridRegion', () => {
+    const mosaic = sampleMosaic();
+    const expected = dequantize(flipVertical(mosaic, 4, 3, 64), 4, 3, ALPHA_EARTH_FORMAT, null);
+
+    it.each([
+      ['JS', null],
+      ['SIMD', getSimdKernels()],
+    ])('should match a full dequantize once every block is in (%s)', (_, kernels) => {
+      const grid = createEmptyGrid(4, 3, bounds, 10, { x: 0, y: 0 }, '2024', ALPHA_EARTH_FORMAT);
+      if (grid.storage !== 'float32') throw new Error('Expected a Float32 grid');
+
+      // Two blocks: the west half, then the east half
+      fillGridRegion(grid, mosaic, [0, 0, 2, 3], kernels);
+      fillGridRegion(grid, mosaic, [2, 0, 2, 3], kernels);
+
+      for (let i = 0; i < 12; i++) {
+        expect(isPixelValid(grid.mask, i)).toBe(isPixelValid(expected.mask, i));
+        if (!isPixelValid(expected.mask, i)) continue;
+        expect(grid.magnitudes[i]).toBeCloseTo(expected.magnitudes[i], 5);
+        for (let band = 0; band < 64; band++) {
+          expect(grid.embeddings[i * 64 + band]).toBeCloseTo(expected.embeddings[i * 64 + band], 5);
+        }
+      }
+    });
+
+    it('should flip rows and return the updated grid rows', () => {
+      const grid = createEmptyGrid(4, 3, bounds, 10, { x: 0, y: 0 }, '2024', ALPHA_EARTH_FORMAT);
+
+      // Native row 0 is the south edge, which is the last grid row
+      const range = fillGridRegion(grid, mosaic, [1, 0, 2, 1], null);
+
+      expect(range).toEqual({ start: 8, end: 12 });
+      expect(isPixelValid(grid.mask, 9)).toBe(true);
+      expect(isPixelValid(grid.mask, 1)).toBe(false);
+      expect(isPixelValid(grid.mask, 8)).toBe(false);
+    });
+
+    it('should copy codes into Int8 grids', () => {
+      const grid: EmbeddingData = {
+        width: 4,
+        height: 3,
+        bounds,
+        pixelSize: 10,
+        windowOrigin: { x: 0, y: 0 },
+        year: '2024',
+        format: ALPHA_EARTH_FORMAT,
+        storage: 'int8',
+        codes: new Int8Array(12 * 64).fill(-128),
+        mask: new Uint8Array(2),
+      };
+
+      fillGridRegion(grid, mosaic, [0, 0, 4, 3], null);
+
+      const flipped = flipVertical(mosaic, 4, 3, 64);
+      expect(Array.from(grid.codes)).toEqual(Array.from(flipped));
+      expect(Array.from(grid.mask)).toEqual(Array.from(validityMask(flipped, 12, 64)));
+    });
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Helpers for filling an embedding grid block by block while a selection
+ * streams in, so it can be explored before the download finishes.
+ */
+
+import type { BoundingBox, EmbeddingData, EmbeddingFormat, PixelCoord } from '../types';
+import { NODATA_VALUE } from './mosaic';
+import type { PixelWindow } from './mosaic';
+import { decodePixel, isAlphaEarthFormat, setPixelValid, shouldQuantize } from './quantized';
+import { getSimdKernels, SimdKernels } from './simd';
+import { allocateBuffer } from './workerPool';
+import type { PixelRange } from './workerPool';
+
+/**
+ * Allocate a grid with every pixel masked, in the storage the finished grid
+ * will use. Buffers are shared when possible so the worker pool sees blocks
+ * as they are filled in.
+ */
+export function createEmptyGrid(
+  width: number,
+  height: number,
+  bounds: BoundingBox,
+  pixelSize: number,
+  windowOrigin: PixelCoord,
+  year: string,
+  format: EmbeddingFormat
+): EmbeddingData {
+  const numPixels = width * height;
+  const { bands } = format;
+  const grid = {
+    width,
+    height,
+    bounds,
+    pixelSize,
+    windowOrigin,
+    year,
+    format,
+    mask: new Uint8Array(Math.ceil(numPixels / 8)),
+  };
+
+  if (shouldQuantize(width, height, bands)) {
+    const codes = new Int8Array(allocateBuffer(numPixels * bands)).fill(NODATA_VALUE);
+    return { ...grid, storage: 'int8', codes };
+  }
+
+  return {
+    ...grid,
+    storage: 'float32',
+    embeddings: new Float32Array(allocateBuffer(numPixels * bands * 4)),
+    magnitudes: new Float32Array(allocateBuffer(numPixels * 4)),
+  };
+}
+
+/**
+ * Copy a region of a native (bottom-up) mosaic into a north-up grid,
+ * dequantizing it for Float32 grids and updating the validity mask
+ *
+ * @param region - Window of the mosaic to copy, in mosaic pixels
+ * @param kernels - SIMD kernels to use, or null for the plain JS loop
+ *                  (only AlphaEarth's format has a kernel)
+ * @returns Range of grid pixel indices covering the updated rows
+ */
+export function fillGridRegion(
+  grid: EmbeddingData,
+  mosaic: Int8Array,
+  region: PixelWindow,
+  kernels: SimdKernels | null = getSimdKernels()
+): PixelRange {
+  const { width, height, format } = grid;
+  const { bands } = format;
+  const [x, y, regionWidth, regionHeight] = region;
+  const validity = new Uint8Array(regionWidth);
+  const vector = new Float32Array(bands);
+  const dequantizeKernel = kernels && isAlphaEarthFormat(format) ? kernels : null;
+
+  for (let row = y; row < y + regionHeight; row++) {
+    const source = mosaic.subarray((row * width + x) * bands, (row * width + x + regionWidth) * bands);
+    // Row 0 of the grid is north, the last row of the mosaic
+    const start = (height - 1 - row) * width + x;
+
+    if (grid.storage === 'int8') {
+      grid.codes.set(source, start * bands);
+      for (let col = 0; col < regionWidth; col++) {
+        let valid = true;
+        for (let band = 0; band < bands; band++) {
+          if (source[col * bands + band] === NODATA_VALUE) {
+            valid = false;
+            break;
+          }
+        }
+        validity[col] = valid ? 1 : 0;
+      }
+    } else if (dequantizeKernel) {
+      dequantizeKernel.dequantize(
+        source,
+        grid.embeddings.subarray(start * bands, (start + regionWidth) * bands),
+        validity,
+        grid.magnitudes.subarray(start, start + regionWidth)
+      );
+    } else {
+      for (let col = 0; col < regionWidth; col++) {
+        let valid = true;
+        for (let band = 0; band < bands; band++) {
+          if (source[col * bands + band] === NODATA_VALUE) {
+            valid = false;
+            break;
+          }
+        }
+        validity[col] = valid ? 1 : 0;
+        grid.magnitudes[start + col] = valid ? decodePixel(source, col, vector, format) : 0;
+        grid.embeddings.set(valid ? vector : vector.fill(0), (start + col) * bands);
+      }
+    }
+
+    for (let col = 0; col < regionWidth; col++) {
+      setPixelValid(grid.mask, start + col, validity[col] === 1);
+    }
+  }
+
+  return {
+    start: (height - y - regionHeight) * width,
+    end: (height - y) * width,
+  };
+}
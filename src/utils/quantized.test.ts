@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ALPHA_EARTH_FORMAT,
+  DEQUANTIZE_LUT,
+  isPixelValid,
+  packMask,
+  unpackMask,
+  validityMask,
+  decodePixel,
+  readEmbedding,
+  shouldQuantize,
+  embeddingMemoryBytes,
+} from './quantized';
+import { dequantize } from './dequantize';
+import { calculateSimilarityScores, calculateQuantizedScores, regionReference } from './similarity';
+import type { EmbeddingData, SimilarityQuery } from '../types';
+
+// Codes for a few pixels: varied values, pixel 2 has one nodata band
+function sampleCodes(numPixels: number): Int8Array {
+  const codes = new Int8Array(numPixels * 64);
+  for (let i = 0; i < codes.length; i++) {
+    codes[i] = ((i * 37) % 255) - 127;
+  }
+  codes[2 * 64 + 5] = -128;
+  return codes;
+}
+
+describe('Quantized Embeddings', () => {
+  describe('DEQUANTIZE_LUT', () => {
+    it('should match the dequantization formula', () => {
+      expect(DEQUANTIZE_LUT[127 + 128]).toBeCloseTo((127 / 127.5) ** 2, 6);
+      expect(DEQUANTIZE_LUT[-64 + 128]).toBeCloseTo(-((64 / 127.5) ** 2), 6);
+      expect(DEQUANTIZE_LUT[128]).toBe(0);
+    });
+
+    it('should map nodata to 0', () => {
+      expect(DEQUANTIZE_LUT[0]).toBe(0);
+    });
+  });
+
+  describe('packMask', () => {
+    it('should round-trip through unpackMask', () => {
+      const valid = [true, false, true, true, false, false, true, false, true, true];
+      const mask = packMask(valid);
+
+      expect(mask.length).toBe(2);
+      expect(valid.map((_, i) => isPixelValid(mask, i))).toEqual(valid);
+      expect(Array.from(unpackMask(mask, valid.length))).toEqual(valid.map(v => (v ? 1 : 0)));
+    });
+  });
+
+  describe('validityMask', () => {
+    it('should agree with the dequantize mask', () => {
+      const codes = sampleCodes(12);
+      const mask = validityMask(codes, 12, 64);
+      const expected = dequantize(codes, 12, 1, ALPHA_EARTH_FORMAT, null).mask;
+
+      expect(mask).toEqual(expected);
+      expect(isPixelValid(mask, 2)).toBe(false);
+    });
+  });
+
+  describe('decodePixel', () => {
+    it('should match dequantize for one pixel', () => {
+      const codes = sampleCodes(4);
+      const { embeddings, magnitudes } = dequantize(codes, 4, 1, ALPHA_EARTH_FORMAT, null);
+      const vector = new Float32Array(64);
+
+      const magnitude = decodePixel(codes, 3, vector, ALPHA_EARTH_FORMAT);
+
+      expect(magnitude).toBeCloseTo(magnitudes[3], 5);
+      for (let band = 0; band < 64; band++) {
+        expect(vector[band]).toBeCloseTo(embeddings[3 * 64 + band], 6);
+      }
+    });
+  });
+
+  describe('readEmbedding', () => {
+    it('should read the same vector from either storage', () => {
+      const codes = sampleCodes(4);
+      const { embeddings, magnitudes } = dequantize(codes, 4, 1, ALPHA_EARTH_FORMAT, null);
+      const grid = {
+        width: 4,
+        height: 1,
+        bounds: { minLng: 0, minLat: 0, maxLng: 1, maxLat: 1 },
+        pixelSize: 10,
+        windowOrigin: { x: 0, y: 0 },
+        mask: validityMask(codes, 4, 64),
+        year: '2024',
+        format: ALPHA_EARTH_FORMAT,
+      };
+      const float: EmbeddingData = { ...grid, storage: 'float32', embeddings, magnitudes };
+      const int8: EmbeddingData = { ...grid, storage: 'int8', codes };
+      const a = new Float32Array(64);
+      const b = new Float32Array(64);
+
+      expect(readEmbedding(int8, 1, b)).toBeCloseTo(readEmbedding(float, 1, a), 5);
+      for (let band = 0; band < 64; band++) {
+        expect(b[band]).toBeCloseTo(a[band], 6);
+      }
+
+      // Regions come out the same from both layouts
+      const region = [true, true, true, true];
+      expect(regionReference(int8, region)!.pixelCount).toBe(regionReference(float, region)!.pixelCount);
+    });
+  });
+
+  describe('shouldQuantize', () => {
+    it('should keep small grids as Float32', () => {
+      expect(shouldQuantize(1000, 1000, 64)).toBe(false);
+      expect(shouldQuantize(5000, 5000, 64)).toBe(true);
+    });
+  });
+
+  describe('embeddingMemoryBytes', () => {
+    it('should count Float32 embeddings and magnitudes for small grids', () => {
+      expect(embeddingMemoryBytes(100, 100, 64)).toBe(10000 * 65 * 4 + 1250);
+    });
+
+    it('should count one byte per band once grids stay quantized', () => {
+      expect(embeddingMemoryBytes(5000, 5000, 64)).toBe(25_000_000 * 64 + 3_125_000);
+    });
+  });
+
+  describe('calculateQuantizedScores', () => {
+    const numPixels = 12;
+    const codes = sampleCodes(numPixels);
+    const { embeddings, magnitudes, mask } = dequantize(codes, numPixels, 1, ALPHA_EARTH_FORMAT, null);
+    const maskArray = unpackMask(mask, numPixels);
+    const vectorAt = (pixel: number) => embeddings.slice(pixel * 64, (pixel + 1) * 64);
+    const rawAt = (pixel: number) => vectorAt(pixel).map(v => v * magnitudes[pixel]);
+
+    const query: SimilarityQuery = {
+      metric: 'cosine',
+      positives: [vectorAt(0)],
+      negatives: [vectorAt(5)],
+      rawPositives: [rawAt(0)],
+      rawNegatives: [rawAt(5)],
+      covariance: null,
+      aggregation: 'mean',
+      negativeMode: 'subtract',
+      negativeWeight: 0.5,
+    };
+
+    it.each(['cosine', 'angular', 'euclidean'] as const)('should match Float32 %s scores', (metric) => {
+      const expected = calculateSimilarityScores(embeddings, magnitudes, maskArray, null, { ...query, metric }, null);
+      const scores = calculateQuantizedScores(codes, maskArray, null, { ...query, metric }, ALPHA_EARTH_FORMAT);
+
+      expect(scores[2]).toBe(-1);
+      for (let i = 0; i < numPixels; i++) {
+        expect(scores[i]).toBeCloseTo(expected[i], 5);
+      }
+    });
+  });
+});
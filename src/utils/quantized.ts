@@ -0,0 +1,160 @@
+import { CONFIG } from '../constants';
+import type { EmbeddingData, EmbeddingFormat } from '../types';
+import { NODATA_VALUE } from './mosaic';
+
+/**
+ * Dequantized value of every AlphaEarth Int8 code, indexed by code + 128:
+ * sign(raw) * (raw / 127.5)^2, with the nodata code mapped to 0
+ */
+export const DEQUANTIZE_LUT = (() => {
+  const lut = new Float32Array(256);
+  for (let raw = -127; raw <= 127; raw++) {
+    const absNormalized = Math.abs(raw) / 127.5;
+    lut[raw + 128] = Math.sign(raw) * absNormalized * absNormalized;
+  }
+  return lut;
+})();
+
+// The AlphaEarth annual embeddings: 64 bands quantized as DEQUANTIZE_LUT
+export const ALPHA_EARTH_FORMAT: EmbeddingFormat = {
+  bands: CONFIG.EMBEDDING_BANDS,
+  dequantizeLut: DEQUANTIZE_LUT,
+};
+
+/**
+ * Whether a format is AlphaEarth's, the one the SIMD dequantize kernel
+ * implements (formats can arrive as copies, e.g. from a worker message)
+ */
+export function isAlphaEarthFormat(format: EmbeddingFormat): boolean {
+  if (format.bands !== ALPHA_EARTH_FORMAT.bands) {
+    return false;
+  }
+  const lut = format.dequantizeLut;
+  return lut === DEQUANTIZE_LUT ||
+    (lut.length === DEQUANTIZE_LUT.length && lut.every((value, i) => value === DEQUANTIZE_LUT[i]));
+}
+
+/**
+ * Whether a pixel's bit is set in a packed validity mask (8 pixels per byte)
+ */
+export function isPixelValid(mask: Uint8Array, pixelIdx: number): boolean {
+  return (mask[pixelIdx >> 3] & (1 << (pixelIdx & 7))) !== 0;
+}
+
+/**
+ * Set or clear a pixel's bit in a packed validity mask
+ */
+export function setPixelValid(mask: Uint8Array, pixelIdx: number, valid: boolean): void {
+  if (valid) {
+    mask[pixelIdx >> 3] |= 1 << (pixelIdx & 7);
+  } else {
+    mask[pixelIdx >> 3] &= ~(1 << (pixelIdx & 7));
+  }
+}
+
+/**
+ * Pack one boolean per pixel into a validity bitmask
+ */
+export function packMask(valid: ArrayLike<boolean>): Uint8Array {
+  const mask = new Uint8Array(Math.ceil(valid.length / 8));
+  for (let pixelIdx = 0; pixelIdx < valid.length; pixelIdx++) {
+    if (valid[pixelIdx]) {
+      mask[pixelIdx >> 3] |= 1 << (pixelIdx & 7);
+    }
+  }
+  return mask;
+}
+
+/**
+ * Unpack a validity bitmask to one byte per pixel (1 = valid), the layout
+ * the similarity workers read
+ */
+export function unpackMask(mask: Uint8Array, numPixels: number, out = new Uint8Array(numPixels)): Uint8Array {
+  for (let pixelIdx = 0; pixelIdx < numPixels; pixelIdx++) {
+    out[pixelIdx] = isPixelValid(mask, pixelIdx) ? 1 : 0;
+  }
+  return out;
+}
+
+/**
+ * Validity bitmask of Int8 codes: a pixel is valid unless any band is nodata
+ */
+export function validityMask(codes: Int8Array, numPixels: number, bands: number): Uint8Array {
+  const mask = new Uint8Array(Math.ceil(numPixels / 8));
+  for (let pixelIdx = 0; pixelIdx < numPixels; pixelIdx++) {
+    const baseIdx = pixelIdx * bands;
+    let isValid = true;
+    for (let band = 0; band < bands; band++) {
+      if (codes[baseIdx + band] === NODATA_VALUE) {
+        isValid = false;
+        break;
+      }
+    }
+    if (isValid) {
+      mask[pixelIdx >> 3] |= 1 << (pixelIdx & 7);
+    }
+  }
+  return mask;
+}
+
+/**
+ * Dequantize one pixel's codes into a unit vector
+ *
+ * @param codes - Int8 codes (W x H x bands)
+ * @param pixelIdx - Pixel to decode
+ * @param out - Receives the unit-normalized embedding
+ * @param format - Band count and dequantization of the codes
+ * @returns Magnitude of the embedding before normalization
+ */
+export function decodePixel(codes: Int8Array, pixelIdx: number, out: Float32Array, format: EmbeddingFormat): number {
+  const { bands, dequantizeLut } = format;
+  const baseIdx = pixelIdx * bands;
+  let magnitude = 0;
+  for (let band = 0; band < bands; band++) {
+    const value = dequantizeLut[codes[baseIdx + band] + 128];
+    out[band] = value;
+    magnitude += value * value;
+  }
+
+  magnitude = Math.sqrt(magnitude);
+  if (magnitude > 0) {
+    for (let band = 0; band < bands; band++) {
+      out[band] /= magnitude;
+    }
+  }
+  return magnitude;
+}
+
+/**
+ * Unit embedding of a pixel from either storage layout
+ *
+ * @param out - Receives the unit-normalized embedding
+ * @returns Magnitude of the embedding before normalization
+ */
+export function readEmbedding(data: EmbeddingData, pixelIdx: number, out: Float32Array): number {
+  if (data.storage === 'int8') {
+    return decodePixel(data.codes, pixelIdx, out, data.format);
+  }
+  const { bands } = data.format;
+  out.set(data.embeddings.subarray(pixelIdx * bands, (pixelIdx + 1) * bands));
+  return data.magnitudes[pixelIdx];
+}
+
+/**
+ * Whether a grid is too large to expand to Float32 and should stay quantized
+ */
+export function shouldQuantize(width: number, height: number, bands: number): boolean {
+  return width * height * bands * 4 > CONFIG.MAX_FLOAT32_EMBEDDING_BYTES;
+}
+
+/**
+ * Memory held by a loaded grid: Int8 codes or Float32 embeddings and
+ * magnitudes (whichever the grid is stored as) plus the packed validity mask
+ */
+export function embeddingMemoryBytes(width: number, height: number, bands: number): number {
+  const numPixels = width * height;
+  const maskBytes = Math.ceil(numPixels / 8);
+  return shouldQuantize(width, height, bands)
+    ? numPixels * bands + maskBytes
+    : numPixels * (bands + 1) * 4 + maskBytes;
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { topBlocks, blockBounds } from './refinement';
+
+describe('Refinement Utilities', () => {
+  describe('topBlocks', () => {
+    // 4x4 grid split into four 2x2 blocks
+    const scores = new Float32Array([
+      0.1, 0.2, 0.5, 0.4,
+      0.1, 0.1, 0.3, 0.9,
+      -1, -1, 0.2, 0.2,
+      -1, -1, 0.6, 0.2,
+    ]);
+
+    it('should rank blocks by their best pixel', () => {
+      const blocks = topBlocks(scores, 4, 4, 2, 2);
+
+      expect(blocks).toHaveLength(2);
+      expect(blocks[0]).toMatchObject({ x: 2, y: 0, width: 2, height: 2 });
+      expect(blocks[0].score).toBeCloseTo(0.9, 6);
+      expect(blocks[1]).toMatchObject({ x: 2, y: 2 });
+    });
+
+    it('should skip blocks without valid scores', () => {
+      const blocks = topBlocks(scores, 4, 4, 2, 10);
+
+      expect(blocks).toHaveLength(3);
+      expect(blocks.some(block => block.x === 0 && block.y === 2)).toBe(false);
+    });
+
+    it('should prefer the lowest scores for distances', () => {
+      const blocks = topBlocks(scores, 4, 4, 2, 1, true);
+
+      expect(blocks[0]).toMatchObject({ x: 0, y: 0 });
+      expect(blocks[0].score).toBeCloseTo(0.1, 6);
+    });
+
+    it('should clip blocks at the grid edge', () => {
+      const blocks = topBlocks(scores, 4, 4, 3, 4);
+
+      expect(blocks.find(block => block.x === 3 && block.y === 0)).toMatchObject({ width: 1, height: 3 });
+    });
+  });
+
+  describe('blockBounds', () => {
+    const bounds = { minLng: 10, minLat: 40, maxLng: 14, maxLat: 44 };
+
+    it('should map rows from the north edge down', () => {
+      const box = blockBounds({ x: 1, y: 0, width: 2, height: 1, score: 1 }, bounds, 4, 4);
+
+      expect(box).toEqual({ minLng: 11, maxLng: 13, minLat: 43, maxLat: 44 });
+    });
+
+    it('should keep the selection polygon', () => {
+      const polygon: [number, number][] = [[10, 40], [14, 40], [14, 44], [10, 40]];
+      const box = blockBounds({ x: 0, y: 3, width: 1, height: 1, score: 1 }, { ...bounds, polygon }, 4, 4);
+
+      expect(box.minLat).toBe(40);
+      expect(box.polygon).toBe(polygon);
+    });
+  });
+});
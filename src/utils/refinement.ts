@@ -0,0 +1,76 @@
+/**
+ * Helpers for coarse-to-fine search: rank blocks of a coarse (overview)
+ * result and map them back to areas to reload at full resolution.
+ */
+
+import type { BoundingBox } from '../types';
+
+export interface ScoreBlock {
+  x: number;       // Top-left pixel of the block in the coarse grid (row 0 = north)
+  y: number;
+  width: number;
+  height: number;
+  score: number;   // Best valid score inside the block
+}
+
+/**
+ * Split a score grid into blockSize x blockSize blocks and return the count
+ * blocks with the best pixel, best first. Blocks without valid scores are skipped.
+ *
+ * @param lowerIsBetter - Scores are distances, so the lowest score is best
+ */
+export function topBlocks(
+  scores: Float32Array,
+  width: number,
+  height: number,
+  blockSize: number,
+  count: number,
+  lowerIsBetter: boolean = false
+): ScoreBlock[] {
+  const blocks: ScoreBlock[] = [];
+
+  for (let y = 0; y < height; y += blockSize) {
+    for (let x = 0; x < width; x += blockSize) {
+      const blockWidth = Math.min(blockSize, width - x);
+      const blockHeight = Math.min(blockSize, height - y);
+      let best = lowerIsBetter ? Infinity : -Infinity;
+
+      for (let row = y; row < y + blockHeight; row++) {
+        for (let col = x; col < x + blockWidth; col++) {
+          const score = scores[row * width + col];
+          if (score < 0) continue; // Masked or excluded
+          if (lowerIsBetter ? score < best : score > best) best = score;
+        }
+      }
+
+      if (Number.isFinite(best)) {
+        blocks.push({ x, y, width: blockWidth, height: blockHeight, score: best });
+      }
+    }
+  }
+
+  blocks.sort((a, b) => (lowerIsBetter ? a.score - b.score : b.score - a.score));
+  return blocks.slice(0, count);
+}
+
+/**
+ * Geographic bounds of a block of a north-up grid covering bounds.
+ * Any polygon on bounds is kept, so refined pixels outside it stay masked.
+ */
+export function blockBounds(
+  block: ScoreBlock,
+  bounds: BoundingBox,
+  gridWidth: number,
+  gridHeight: number
+): BoundingBox {
+  const lngPerPixel = (bounds.maxLng - bounds.minLng) / gridWidth;
+  const latPerPixel = (bounds.maxLat - bounds.minLat) / gridHeight;
+
+  return {
+    minLng: bounds.minLng + block.x * lngPerPixel,
+    maxLng: bounds.minLng + (block.x + block.width) * lngPerPixel,
+    maxLat: bounds.maxLat - block.y * latPerPixel,
+    minLat: bounds.maxLat - (block.y + block.height) * latPerPixel,
+    ...(bounds.polygon && { polygon: bounds.polygon }),
+  };
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { createRetryBudget, retryDelay, sleep, withRetry } from './retry';
+import { abortError, isAbortError } from './abort';
+
+// No waiting between attempts
+const instant = { baseDelayMs: 100, maxDelayMs: 1000, random: () => 0 };
+
+/**
+ * A task failing the given number of times before succeeding
+ */
+function flakyTask(failures: number) {
+  let calls = 0;
+  const task = async () => {
+    calls++;
+    if (calls <= failures) throw new Error(`Failure ${calls}`);
+    return 'ok';
+  };
+  return { task, calls: () => calls };
+}
+
+describe('Retry Utilities', () => {
+  describe('retryDelay', () => {
+    it('should back off exponentially up to the cap', () => {
+      const max = () => 1;
+      expect(retryDelay(0, 500, 8000, max)).toBe(500);
+      expect(retryDelay(1, 500, 8000, max)).toBe(1000);
+      expect(retryDelay(3, 500, 8000, max)).toBe(4000);
+      expect(retryDelay(6, 500, 8000, max)).toBe(8000);
+    });
+
+    it('should jitter anywhere below the backoff', () => {
+      expect(retryDelay(2, 500, 8000, () => 0.25)).toBe(500);
+      expect(retryDelay(2, 500, 8000, () => 0)).toBe(0);
+    });
+  });
+
+  describe('withRetry', () => {
+    it('should retry until the task succeeds', async () => {
+      const { task, calls } = flakyTask(2);
+
+      await expect(withRetry(task, { ...instant, retries: 3 })).resolves.toBe('ok');
+      expect(calls()).toBe(3);
+    });
+
+    it('should rethrow the last error once out of retries', async () => {
+      const { task, calls } = flakyTask(5);
+
+      await expect(withRetry(task, { ...instant, retries: 2 })).rejects.toThrow('Failure 3');
+      expect(calls()).toBe(3);
+    });
+
+    it('should stop retrying once the shared budget is spent', async () => {
+      const budget = createRetryBudget(3);
+
+      await expect(withRetry(flakyTask(2).task, { ...instant, retries: 5, budget })).resolves.toBe('ok');
+      expect(budget.remaining).toBe(1);
+
+      const { task, calls } = flakyTask(5);
+      await expect(withRetry(task, { ...instant, retries: 5, budget })).rejects.toThrow('Failure 2');
+      expect(calls()).toBe(2);
+      expect(budget.remaining).toBe(0);
+    });
+
+    it('should not retry cancelled tasks', async () => {
+      let calls = 0;
+      const task = async () => {
+        calls++;
+        throw abortError();
+      };
+
+      await expect(withRetry(task, { ...instant, retries: 3 })).rejects.toSatisfy(isAbortError);
+      expect(calls).toBe(1);
+    });
+  });
+
+  describe('sleep', () => {
+    it('should reject when the signal aborts', async () => {
+      const controller = new AbortController();
+      const pending = sleep(10_000, controller.signal);
+      controller.abort();
+
+      await expect(pending).rejects.toSatisfy(isAbortError);
+    });
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Retrying transient failures (e.g. dropped range requests) with exponential
+ * backoff and jitter, within a retry budget shared by a whole load
+ */
+
+import { abortError, isAbortError, throwIfAborted } from './abort';
+
+// Retries left for a load, shared by all of its requests so a server that is
+// down fails the load quickly instead of retrying every block in turn
+export interface RetryBudget {
+  remaining: number;
+}
+
+export interface RetryOptions {
+  // Retries after the first attempt
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  budget?: RetryBudget;
+  signal?: AbortSignal;
+  // Source of jitter, for tests
+  random?: () => number;
+}
+
+/**
+ * Create a retry budget allowing this many retries in total
+ */
+export function createRetryBudget(retries: number): RetryBudget {
+  return { remaining: retries };
+}
+
+/**
+ * Delay before a retry: exponential backoff from baseDelayMs, capped at
+ * maxDelayMs, with full jitter so parallel requests don't retry in lockstep
+ *
+ * @param attempt - Number of the failed attempt, starting at 0
+ */
+export function retryDelay(
+  attempt: number,
+  baseDelayMs: number,
+  maxDelayMs: number,
+  random: () => number = Math.random
+): number {
+  return random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+}
+
+/**
+ * Resolve after ms, or reject with an AbortError as soon as the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Run task, retrying failures until it succeeds, runs out of retries (its
+ * own or the shared budget's) or is cancelled. The last error is rethrown.
+ */
+export async function withRetry<T>(
+  task: () => Promise<T>,
+  options: RetryOptions
+): Promise<T> {
+  const { retries, baseDelayMs, maxDelayMs, budget, signal, random } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (err) {
+      throwIfAborted(signal);
+      if (isAbortError(err) || attempt >= retries || (budget && budget.remaining <= 0)) {
+        throw err;
+      }
+      if (budget) budget.remaining--;
+      await sleep(retryDelay(attempt, baseDelayMs, maxDelayMs, random), signal);
+    }
+  }
+}
@@ -0,0 +1,170 @@
+import { describe, it, expect } from 'vitest';
+import { getSimdKernels } from './simd';
+import { dequantize } from './dequantize';
+import { dotProduct, calculateSimilarityScores } from './similarity';
+import { ALPHA_EARTH_FORMAT, unpackMask } from './quantized';
+import type { SimilarityQuery } from '../types';
+
+const kernels = getSimdKernels();
+
+// More than one kernel batch, so batch boundaries are covered
+const NUM_PIXELS = 5000;
+
+// Deterministic pseudo-random numbers in [0, 1)
+function random(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return state / 2 ** 32;
+  };
+}
+
+// Int8 codes with roughly 1 in 20 pixels containing a nodata band
+function randomCodes(numPixels: number, seed: number): Int8Array {
+  const next = random(seed);
+  const data = new Int8Array(numPixels * 64);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = Math.floor(next() * 256) - 128;
+    if (data[i] === -128 && next() < 0.9) data[i] = 0;
+  }
+  for (let pixel = 0; pixel < numPixels; pixel += 20) {
+    data[pixel * 64 + (pixel % 64)] = -128;
+  }
+  return data;
+}
+
+function expectAllClose(actual: Float32Array, expected: Float32Array, tolerance: number) {
+  expect(actual.length).toBe(expected.length);
+  let maxDiff = 0;
+  for (let i = 0; i < actual.length; i++) {
+    maxDiff = Math.max(maxDiff, Math.abs(actual[i] - expected[i]));
+  }
+  expect(maxDiff).toBeLessThan(tolerance);
+}
+
+describe.skipIf(!kernels)('SIMD kernels', () => {
+  describe('dequantize', () => {
+    it('should match the JS dequantization', () => {
+      const data = randomCodes(NUM_PIXELS, 1);
+      const simd = dequantize(data, 100, NUM_PIXELS / 100, ALPHA_EARTH_FORMAT, kernels);
+      const js = dequantize(data, 100, NUM_PIXELS / 100, ALPHA_EARTH_FORMAT, null);
+
+      expect(simd.mask).toEqual(js.mask);
+      expectAllClose(simd.embeddings, js.embeddings, 1e-6);
+      expectAllClose(simd.magnitudes, js.magnitudes, 1e-5);
+    });
+
+    it('should leave other formats to the JS dequantization', () => {
+      // Three bands, each code standing for itself
+      const format = { bands: 3, dequantizeLut: new Float32Array(256).map((_, i) => i - 128) };
+      const data = new Int8Array([3, 0, 4, 1, -128, 1]);
+
+      const { embeddings, mask, magnitudes } = dequantize(data, 2, 1, format, kernels);
+
+      expect(Array.from(unpackMask(mask, 2))).toEqual([1, 0]);
+      expect(magnitudes[0]).toBeCloseTo(5, 6);
+      expect(Array.from(embeddings.subarray(0, 3))).toEqual([
+        expect.closeTo(0.6, 6),
+        0,
+        expect.closeTo(0.8, 6),
+      ]);
+    });
+  });
+
+  describe('normalize', () => {
+    it('should normalize valid vectors and record their magnitudes', () => {
+      const next = random(2);
+      const embeddings = new Float32Array(NUM_PIXELS * 64).map(() => next() - 0.5);
+      const original = embeddings.slice();
+      const mask = new Uint8Array(NUM_PIXELS).map((_, i) => (i % 7 === 0 ? 0 : 1));
+      const magnitudes = new Float32Array(NUM_PIXELS);
+
+      kernels!.normalize(embeddings, mask, magnitudes);
+
+      for (const pixel of [0, 1, 4095, 4096, NUM_PIXELS - 1]) {
+        const vector = embeddings.subarray(pixel * 64, (pixel + 1) * 64);
+        const before = original.subarray(pixel * 64, (pixel + 1) * 64);
+        if (mask[pixel] === 0) {
+          expect(magnitudes[pixel]).toBe(0);
+          expect(vector).toEqual(before);
+        } else {
+          expect(magnitudes[pixel]).toBeCloseTo(Math.sqrt(dotProduct(before, before)), 5);
+          expect(dotProduct(vector, vector)).toBeCloseTo(1, 5);
+        }
+      }
+    });
+  });
+
+  describe('dotBatch', () => {
+    it('should match dotProduct for every pixel and reference', () => {
+      const { embeddings } = dequantize(randomCodes(NUM_PIXELS, 3), NUM_PIXELS, 1, ALPHA_EARTH_FORMAT, null);
+      const refs = [0, 17, 4500].map(pixel => embeddings.slice(pixel * 64, (pixel + 1) * 64));
+      const out = new Float32Array(NUM_PIXELS * refs.length);
+
+      kernels!.dotBatch(embeddings, refs, out);
+
+      const expected = new Float32Array(out.length);
+      for (let pixel = 0; pixel < NUM_PIXELS; pixel++) {
+        const vector = embeddings.subarray(pixel * 64, (pixel + 1) * 64);
+        refs.forEach((ref, r) => {
+          expected[pixel * refs.length + r] = dotProduct(vector, ref);
+        });
+      }
+      expectAllClose(out, expected, 1e-5);
+    });
+  });
+
+  describe('calculateSimilarityScores', () => {
+    const { embeddings, mask, magnitudes } = dequantize(randomCodes(NUM_PIXELS, 4), NUM_PIXELS, 1, ALPHA_EARTH_FORMAT, null);
+    const maskArray = unpackMask(mask, NUM_PIXELS);
+    const polygonMask = new Uint8Array(NUM_PIXELS).map((_, i) => (i < 4500 ? 1 : 0));
+    const vectorAt = (pixel: number) => embeddings.slice(pixel * 64, (pixel + 1) * 64);
+
+    const base: SimilarityQuery = {
+      metric: 'cosine',
+      positives: [vectorAt(1), vectorAt(2)],
+      negatives: [vectorAt(3)],
+      rawPositives: [],
+      rawNegatives: [],
+      covariance: null,
+      aggregation: 'mean',
+      negativeMode: 'subtract',
+      negativeWeight: 0.5,
+    };
+
+    const cases: Partial<SimilarityQuery>[] = [
+      { negatives: [] },
+      {},
+      { aggregation: 'max' },
+      { negativeMode: 'exclude' },
+      { negativeMode: 'exclude', aggregation: 'max' },
+      { metric: 'angular' },
+      { metric: 'angular', negativeMode: 'exclude' },
+    ];
+
+    it.each(cases)('should match the JS scores for %o', (options) => {
+      const query = { ...base, ...options };
+      const simd = calculateSimilarityScores(embeddings, magnitudes, maskArray, polygonMask, query, kernels);
+      const js = calculateSimilarityScores(embeddings, magnitudes, maskArray, polygonMask, query, null);
+
+      // Same pixels masked or excluded
+      expect(Array.from(simd).map(s => s < 0)).toEqual(Array.from(js).map(s => s < 0));
+      // acos amplifies rounding near identical vectors, so angular gets a looser bound
+      expectAllClose(simd, js, options.metric === 'angular' ? 1e-3 : 1e-5);
+    });
+
+    it('should score other band counts without the kernels', () => {
+      // The first 16 bands of each pixel, as a 16-band product would hold them
+      const bands = 16;
+      const short = new Float32Array(NUM_PIXELS * bands);
+      for (let pixel = 0; pixel < NUM_PIXELS; pixel++) {
+        short.set(embeddings.subarray(pixel * 64, pixel * 64 + bands), pixel * bands);
+      }
+      const query = { ...base, positives: [short.slice(bands, 2 * bands)], negatives: [] };
+
+      const scores = calculateSimilarityScores(short, magnitudes, maskArray, polygonMask, query, kernels);
+
+      expect(scores).toEqual(calculateSimilarityScores(short, magnitudes, maskArray, polygonMask, query, null));
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { CONFIG } from '../constants';
+import { KERNELS_WASM_BASE64 } from '../wasm/kernels';
+
+// Bands per vector the kernels are compiled for (AlphaEarth's); callers use
+// their plain JS loops for other band counts
+export const KERNEL_BANDS = CONFIG.EMBEDDING_BANDS;
+const VECTOR_BYTES = KERNEL_BANDS * 4;
+
+// Pixels copied into WASM memory per kernel call
+const BATCH_PIXELS = 4096;
+const WASM_PAGE_BYTES = 65536;
+
+interface KernelExports {
+  memory: WebAssembly.Memory;
+  dequantize(src: number, dst: number, mask: number, pixels: number): void;
+  normalize(vectors: number, mask: number, magnitudes: number, pixels: number): void;
+  dotBatch(vectors: number, refs: number, refCount: number, out: number, pixels: number): void;
+}
+
+/**
+ * WebAssembly SIMD versions of the embedding hot loops. Each call processes
+ * the input in batches copied through the module's memory.
+ */
+export interface SimdKernels {
+  /** Dequantize and unit-normalize Int8 codes (see dequantize) */
+  dequantize(data: Int8Array, embeddings: Float32Array, mask: Uint8Array, magnitudes: Float32Array): void;
+  /** Normalize valid vectors in place, writing their magnitudes (0 if masked) */
+  normalize(embeddings: Float32Array, mask: Uint8Array, magnitudes: Float32Array): void;
+  /** out[pixel * refs.length + ref] = dot(embeddings[pixel], refs[ref]) */
+  dotBatch(embeddings: Float32Array, refs: Float32Array[], out: Float32Array): void;
+}
+
+// undefined = not loaded yet, null = unsupported
+let kernels: SimdKernels | null | undefined;
+
+/**
+ * The SIMD kernels, or null if this runtime lacks WebAssembly SIMD
+ * (callers then use their plain JS loops)
+ */
+export function getSimdKernels(): SimdKernels | null {
+  if (kernels === undefined) {
+    kernels = loadKernels();
+  }
+  return kernels;
+}
+
+function loadKernels(): SimdKernels | null {
+  try {
+    if (typeof WebAssembly === 'undefined') {
+      return null;
+    }
+    const bytes = Uint8Array.from(atob(KERNELS_WASM_BASE64), c => c.charCodeAt(0));
+    // Validation fails on engines without SIMD support
+    if (!WebAssembly.validate(bytes)) {
+      return null;
+    }
+    // The module is tiny, so synchronous compilation is fine even on the main thread
+    const instance = new WebAssembly.Instance(new WebAssembly.Module(bytes));
+    return createKernels(instance.exports as unknown as KernelExports);
+  } catch {
+    return null;
+  }
+}
+
+function createKernels(wasm: KernelExports): SimdKernels {
+  // Grow memory to hold at least byteLength bytes; views must be recreated afterwards
+  const reserve = (byteLength: number) => {
+    const missing = byteLength - wasm.memory.buffer.byteLength;
+    if (missing > 0) {
+      wasm.memory.grow(Math.ceil(missing / WASM_PAGE_BYTES));
+    }
+  };
+
+  // Run fn over [start, start + count) batches of pixels
+  const forEachBatch = (numPixels: number, fn: (start: number, count: number) => void) => {
+    for (let start = 0; start < numPixels; start += BATCH_PIXELS) {
+      fn(start, Math.min(BATCH_PIXELS, numPixels - start));
+    }
+  };
+
+  // Layout: vectors | mask | magnitudes, each offset 16-byte aligned
+  const vectorsPtr = 0;
+  const maskPtr = BATCH_PIXELS * VECTOR_BYTES;
+  const magnitudesPtr = maskPtr + BATCH_PIXELS;
+  const codesPtr = magnitudesPtr + BATCH_PIXELS * 4;
+  reserve(codesPtr + BATCH_PIXELS * KERNEL_BANDS);
+
+  // Normalize the batch already in memory and copy it out
+  const normalizeBatch = (embeddings: Float32Array, magnitudes: Float32Array, start: number, count: number) => {
+    wasm.normalize(vectorsPtr, maskPtr, magnitudesPtr, count);
+    const buffer = wasm.memory.buffer;
+    embeddings.set(new Float32Array(buffer, vectorsPtr, count * KERNEL_BANDS), start * KERNEL_BANDS);
+    magnitudes.set(new Float32Array(buffer, magnitudesPtr, count), start);
+  };
+
+  return {
+    dequantize(data, embeddings, mask, magnitudes) {
+      forEachBatch(mask.length, (start, count) => {
+        const buffer = wasm.memory.buffer;
+        new Int8Array(buffer, codesPtr, count * KERNEL_BANDS)
+          .set(data.subarray(start * KERNEL_BANDS, (start + count) * KERNEL_BANDS));
+        wasm.dequantize(codesPtr, vectorsPtr, maskPtr, count);
+        mask.set(new Uint8Array(buffer, maskPtr, count), start);
+        normalizeBatch(embeddings, magnitudes, start, count);
+      });
+    },
+
+    normalize(embeddings, mask, magnitudes) {
+      forEachBatch(mask.length, (start, count) => {
+        const buffer = wasm.memory.buffer;
+        new Float32Array(buffer, vectorsPtr, count * KERNEL_BANDS)
+          .set(embeddings.subarray(start * KERNEL_BANDS, (start + count) * KERNEL_BANDS));
+        new Uint8Array(buffer, maskPtr, count).set(mask.subarray(start, start + count));
+        normalizeBatch(embeddings, magnitudes, start, count);
+      });
+    },
+
+    dotBatch(embeddings, refs, out) {
+      const numPixels = embeddings.length / KERNEL_BANDS;
+      // Layout: vectors | refs | dot products
+      const refsPtr = BATCH_PIXELS * VECTOR_BYTES;
+      const outPtr = refsPtr + refs.length * VECTOR_BYTES;
+      reserve(outPtr + BATCH_PIXELS * refs.length * 4);
+
+      const refsView = new Float32Array(wasm.memory.buffer, refsPtr, refs.length * KERNEL_BANDS);
+      refs.forEach((ref, i) => refsView.set(ref, i * KERNEL_BANDS));
+
+      forEachBatch(numPixels, (start, count) => {
+        const buffer = wasm.memory.buffer;
+        new Float32Array(buffer, vectorsPtr, count * KERNEL_BANDS)
+          .set(embeddings.subarray(start * KERNEL_BANDS, (start + count) * KERNEL_BANDS));
+        wasm.dotBatch(vectorsPtr, refsPtr, refs.length, outPtr, count);
+        out.set(new Float32Array(buffer, outPtr, count * refs.length), start * refs.length);
+      });
+    },
+  };
+}
@@ -0,0 +1,343 @@
+import { describe, it, expect } from 'vitest';
+import {
+  dotProduct,
+  meanVector,
+  scoreVector,
+  calculateSimilarityScores,
+  calculateChangeScores,
+  regionReference,
+  isDistanceMetric,
+} from './similarity';
+import { ALPHA_EARTH_FORMAT, packMask } from './quantized';
+import type { EmbeddingData, SimilarityQuery } from '../types';
+
+// Unit vector pointing along the given axes with equal weight
+function unitVector(...axes: number[]): Float32Array {
+  const v = new Float32Array(64);
+  for (const axis of axes) {
+    v[axis] = 1 / Math.sqrt(axes.length);
+  }
+  return v;
+}
+
+// Interleaved embeddings for a row of pixels
+function embeddingRow(...vectors: Float32Array[]): Float32Array {
+  const embeddings = new Float32Array(vectors.length * 64);
+  vectors.forEach((v, i) => embeddings.set(v, i * 64));
+  return embeddings;
+}
+
+// Cosine query with positives only unless overridden; raw vectors default to the unit ones
+function query(positives: Float32Array[], options: Partial<SimilarityQuery> = {}): SimilarityQuery {
+  const negatives = options.negatives ?? [];
+  return {
+    metric: 'cosine',
+    positives,
+    negatives,
+    rawPositives: positives,
+    rawNegatives: negatives,
+    covariance: null,
+    aggregation: 'mean',
+    negativeMode: 'subtract',
+    negativeWeight: 0.5,
+    ...options,
+  };
+}
+
+// Per-pixel magnitudes of 1, i.e. raw vectors equal to the unit ones
+function ones(length: number): Float32Array {
+  return new Float32Array(length).fill(1);
+}
+
+describe('Similarity Utilities', () => {
+  describe('dotProduct', () => {
+    it('should equal cosine similarity for unit vectors', () => {
+      expect(dotProduct(unitVector(0), unitVector(0))).toBeCloseTo(1, 6);
+      expect(dotProduct(unitVector(0), unitVector(1))).toBeCloseTo(0, 6);
+      expect(dotProduct(unitVector(0), unitVector(0, 1))).toBeCloseTo(Math.SQRT1_2, 6);
+    });
+  });
+
+  describe('meanVector', () => {
+    it('should return the renormalized centroid', () => {
+      const mean = meanVector([unitVector(0), unitVector(1)]);
+      expect(dotProduct(mean, mean)).toBeCloseTo(1, 6);
+      expect(dotProduct(mean, unitVector(0, 1))).toBeCloseTo(1, 6);
+    });
+
+    it('should return a zero vector when references cancel out', () => {
+      const opposite = unitVector(0).map(v => -v);
+      const mean = meanVector([unitVector(0), opposite]);
+      expect(mean.every(v => v === 0)).toBe(true);
+    });
+  });
+
+  describe('scoreVector', () => {
+    const refs = [unitVector(0), unitVector(1)];
+
+    it('should compare to the centroid in mean mode', () => {
+      expect(scoreVector(unitVector(0), 1, query(refs))).toBeCloseTo(Math.SQRT1_2, 6);
+    });
+
+    it('should use the closest reference in max mode', () => {
+      expect(scoreVector(unitVector(0), 1, query(refs, { aggregation: 'max' }))).toBeCloseTo(1, 6);
+      expect(scoreVector(unitVector(2), 1, query(refs, { aggregation: 'max' }))).toBeCloseTo(0, 6);
+    });
+
+    it('should subtract the weighted similarity to the closest negative', () => {
+      const q = query([unitVector(0)], {
+        negatives: [unitVector(1), unitVector(2)],
+        negativeWeight: 0.5,
+      });
+      // 1/sqrt(2) positive, 1/sqrt(2) to the first negative
+      expect(scoreVector(unitVector(0, 1), 1, q)).toBeCloseTo(Math.SQRT1_2 * 0.5, 6);
+      // Unaffected by negatives it is orthogonal to
+      expect(scoreVector(unitVector(0), 1, q)).toBeCloseTo(1, 6);
+    });
+
+    it('should clamp subtracted scores at zero', () => {
+      const q = query([unitVector(0)], { negatives: [unitVector(1)], negativeWeight: 1 });
+      expect(scoreVector(unitVector(1), 1, q)).toBe(0);
+    });
+
+    it('should exclude embeddings closer to a negative than to any positive', () => {
+      const q = query([unitVector(0), unitVector(2)], {
+        negatives: [unitVector(1)],
+        negativeMode: 'exclude',
+      });
+      expect(scoreVector(unitVector(1), 1, q)).toBe(-1);
+      // Closer to a positive than the negative: keeps its mean score
+      expect(scoreVector(unitVector(0), 1, q)).toBeCloseTo(Math.SQRT1_2, 6);
+    });
+  });
+
+  describe('metrics', () => {
+    // Unit vector scaled to a raw (pre-normalization) vector
+    const scaled = (v: Float32Array, magnitude: number) => v.map(x => x * magnitude);
+
+    it('should only treat cosine as higher = more similar', () => {
+      expect(isDistanceMetric('cosine')).toBe(false);
+      expect(isDistanceMetric('angular')).toBe(true);
+      expect(isDistanceMetric('euclidean')).toBe(true);
+      expect(isDistanceMetric('mahalanobis')).toBe(true);
+    });
+
+    it('should compute angular distance in [0, 1]', () => {
+      const q = query([unitVector(0)], { metric: 'angular' });
+      expect(scoreVector(unitVector(0), 1, q)).toBeCloseTo(0, 3);
+      expect(scoreVector(unitVector(1), 1, q)).toBeCloseTo(0.5, 6);
+      expect(scoreVector(unitVector(0, 1), 1, q)).toBeCloseTo(0.25, 6);
+    });
+
+    it('should compute euclidean distance on raw vectors', () => {
+      const q = query([unitVector(0)], {
+        metric: 'euclidean',
+        rawPositives: [scaled(unitVector(0), 0.5)],
+      });
+      // Same direction, magnitude 2 vs 0.5
+      expect(scoreVector(unitVector(0), 2, q)).toBeCloseTo(1.5, 6);
+    });
+
+    it('should average raw vectors without renormalizing for euclidean mean', () => {
+      const q = query([unitVector(0), unitVector(1)], {
+        metric: 'euclidean',
+        rawPositives: [scaled(unitVector(0), 2), scaled(unitVector(1), 2)],
+      });
+      // Raw mean is (1, 1), which the pixel matches exactly
+      expect(scoreVector(unitVector(0, 1), Math.SQRT2, q)).toBeCloseTo(0, 6);
+    });
+
+    it('should use the closest reference for distances in max mode', () => {
+      const q = query([unitVector(0), unitVector(1)], { metric: 'euclidean', aggregation: 'max' });
+      expect(scoreVector(unitVector(1), 1, q)).toBeCloseTo(0, 6);
+    });
+
+    it('should match euclidean distance for an identity covariance', () => {
+      const covariance = new Float64Array(64 * 64);
+      for (let i = 0; i < 64; i++) covariance[i * 64 + i] = 1;
+
+      const euclidean = query([unitVector(0)], { metric: 'euclidean' });
+      const mahalanobis = query([unitVector(0)], { metric: 'mahalanobis', covariance });
+      expect(scoreVector(unitVector(0, 1), 1, mahalanobis))
+        .toBeCloseTo(scoreVector(unitVector(0, 1), 1, euclidean), 5);
+    });
+
+    it('should discount offsets along high-variance bands for mahalanobis', () => {
+      const covariance = new Float64Array(64 * 64);
+      for (let i = 0; i < 64; i++) covariance[i * 64 + i] = 1;
+      covariance[0] = 9;  // Band 0 varies a lot within the region
+
+      const q = query([unitVector(2)], { metric: 'mahalanobis', covariance });
+      const alongBand0 = scoreVector(unitVector(0, 2), 1, q);
+      const alongBand1 = scoreVector(unitVector(1, 2), 1, q);
+      expect(alongBand0).toBeLessThan(alongBand1);
+    });
+
+    it('should require a covariance for mahalanobis', () => {
+      expect(() => scoreVector(unitVector(0), 1, query([unitVector(0)], { metric: 'mahalanobis' })))
+        .toThrow('reference region');
+    });
+
+    it('should exclude pixels closer to a negative for distances', () => {
+      const q = query([unitVector(0)], {
+        metric: 'angular',
+        negatives: [unitVector(1)],
+        negativeMode: 'exclude',
+      });
+      expect(scoreVector(unitVector(1), 1, q)).toBe(-1);
+      expect(scoreVector(unitVector(0), 1, q)).toBeCloseTo(0, 3);
+    });
+
+    it('should penalize distances when a negative is closer than the target', () => {
+      const q = query([unitVector(0)], {
+        metric: 'angular',
+        negatives: [unitVector(1)],
+        negativeWeight: 1,
+      });
+      // 0.5 from the target, 0 from the negative: 0.5 + 1 * 0.5
+      expect(scoreVector(unitVector(1), 1, q)).toBeCloseTo(1, 6);
+      // Closer to the target: unchanged
+      expect(scoreVector(unitVector(0), 1, q)).toBeCloseTo(0, 3);
+    });
+  });
+
+  describe('calculateSimilarityScores', () => {
+    const embeddings = embeddingRow(unitVector(0), unitVector(1), unitVector(0, 1), unitVector(2));
+    const mask = new Uint8Array([1, 1, 1, 0]);
+
+    it('should match a single reference in both modes', () => {
+      const mean = calculateSimilarityScores(embeddings, ones(4), mask, null, query([unitVector(0)]));
+      const max = calculateSimilarityScores(embeddings, ones(4), mask, null, query([unitVector(0)], { aggregation: 'max' }));
+
+      expect(Array.from(mean)).toEqual(Array.from(max));
+      expect(mean[0]).toBeCloseTo(1, 6);
+      expect(mean[1]).toBeCloseTo(0, 6);
+    });
+
+    it('should aggregate several references', () => {
+      const refs = [unitVector(0), unitVector(1)];
+      const mean = calculateSimilarityScores(embeddings, ones(4), mask, null, query(refs));
+      const max = calculateSimilarityScores(embeddings, ones(4), mask, null, query(refs, { aggregation: 'max' }));
+
+      // Pixel between both references is closest to the centroid
+      expect(mean[2]).toBeCloseTo(1, 6);
+      expect(mean[0]).toBeCloseTo(Math.SQRT1_2, 6);
+      // Each reference scores itself perfectly in max mode
+      expect(max[0]).toBeCloseTo(1, 6);
+      expect(max[1]).toBeCloseTo(1, 6);
+      expect(max[2]).toBeCloseTo(Math.SQRT1_2, 6);
+    });
+
+    it('should mark masked pixels and pixels outside the polygon as -1', () => {
+      const polygonMask = new Uint8Array([0, 1, 1, 1]);
+      const scores = calculateSimilarityScores(embeddings, ones(4), mask, polygonMask, query([unitVector(0)]));
+
+      expect(scores[0]).toBe(-1);
+      expect(scores[3]).toBe(-1);
+    });
+
+    it('should exclude pixels closer to a negative', () => {
+      const scores = calculateSimilarityScores(embeddings, ones(4), mask, null, query([unitVector(0)], {
+        negatives: [unitVector(1)],
+        negativeMode: 'exclude',
+      }));
+
+      expect(scores[0]).toBeCloseTo(1, 6);
+      expect(scores[1]).toBe(-1);
+      // Equidistant pixels are kept
+      expect(scores[2]).toBeCloseTo(Math.SQRT1_2, 6);
+    });
+  });
+
+  describe('regionReference', () => {
+    // 2x2 raster; the bottom-right pixel has no data
+    const data: EmbeddingData = {
+      storage: 'float32',
+      embeddings: embeddingRow(unitVector(0), unitVector(1), unitVector(0), unitVector(2)),
+      magnitudes: ones(4),
+      mask: packMask([true, true, true, false]),
+      width: 2,
+      height: 2,
+      bounds: { minLng: 0, minLat: 0, maxLng: 1, maxLat: 1 },
+      pixelSize: 10,
+      windowOrigin: { x: 0, y: 0 },
+      year: '2024',
+      format: ALPHA_EARTH_FORMAT,
+    };
+
+    it('should average the valid pixels inside the region', () => {
+      const region = regionReference(data, [true, true, true, true]);
+
+      expect(region).not.toBeNull();
+      expect(region!.pixelCount).toBe(3);
+      // Two of three pixels point along axis 0
+      const expected = meanVector([unitVector(0), unitVector(0), unitVector(1)]);
+      expect(dotProduct(region!.vector, expected)).toBeCloseTo(1, 6);
+      expect(dotProduct(region!.vector, region!.vector)).toBeCloseTo(1, 6);
+    });
+
+    it('should report the spread of similarity to the mean', () => {
+      const region = regionReference(data, [true, true, true, true])!;
+      const toAxis0 = dotProduct(region.vector, unitVector(0));
+      const toAxis1 = dotProduct(region.vector, unitVector(1));
+
+      expect(region.meanSimilarity).toBeCloseTo((2 * toAxis0 + toAxis1) / 3, 6);
+      expect(region.minSimilarity).toBeCloseTo(toAxis1, 6);
+    });
+
+    it('should report perfect agreement for a uniform region', () => {
+      const region = regionReference(data, [true, false, true, false])!;
+
+      expect(region.meanSimilarity).toBeCloseTo(1, 6);
+      expect(region.centerX).toBe(0);
+      expect(region.centerY).toBe(1);
+    });
+
+    it('should return null when no valid pixel is inside the region', () => {
+      expect(regionReference(data, [false, false, false, true])).toBeNull();
+    });
+  });
+
+  describe('calculateChangeScores', () => {
+    // Int8 codes for a row of pixels, each with a single non-zero band
+    function codeRow(...bands: [number, number][]): Int8Array {
+      const codes = new Int8Array(bands.length * 64);
+      bands.forEach(([band, code], i) => {
+        codes[i * 64 + band] = code;
+      });
+      return codes;
+    }
+
+    it('should score 1 - cosine similarity between the two years', () => {
+      const current = { embeddings: embeddingRow(unitVector(0), unitVector(0), unitVector(0)), codes: null, mask: new Uint8Array([1, 1, 1]), format: ALPHA_EARTH_FORMAT };
+      const previous = { embeddings: embeddingRow(unitVector(0), unitVector(1), unitVector(0, 1)), codes: null, mask: new Uint8Array([1, 1, 1]), format: ALPHA_EARTH_FORMAT };
+
+      const scores = calculateChangeScores(current, previous, null);
+
+      expect(scores[0]).toBe(0);
+      expect(scores[1]).toBeCloseTo(1, 6);
+      expect(scores[2]).toBeCloseTo(1 - Math.SQRT1_2, 6);
+    });
+
+    it('should mark pixels invalid in either year or outside the polygon', () => {
+      const embeddings = embeddingRow(unitVector(0), unitVector(0), unitVector(0), unitVector(0));
+      const current = { embeddings, codes: null, mask: new Uint8Array([0, 1, 1, 1]), format: ALPHA_EARTH_FORMAT };
+      const previous = { embeddings, codes: null, mask: new Uint8Array([1, 0, 1, 1]), format: ALPHA_EARTH_FORMAT };
+
+      const scores = calculateChangeScores(current, previous, new Uint8Array([1, 1, 0, 1]));
+
+      expect(Array.from(scores)).toEqual([-1, -1, -1, 0]);
+    });
+
+    it('should compare Int8 codes with unit embeddings', () => {
+      const current = { embeddings: null, codes: codeRow([0, 127], [1, 100], [0, -127]), mask: new Uint8Array([1, 1, 1]), format: ALPHA_EARTH_FORMAT };
+      const previous = { embeddings: embeddingRow(unitVector(0), unitVector(0), unitVector(0)), codes: null, mask: new Uint8Array([1, 1, 1]), format: ALPHA_EARTH_FORMAT };
+
+      const scores = calculateChangeScores(current, previous, null);
+
+      expect(scores[0]).toBeCloseTo(0, 6);
+      expect(scores[1]).toBeCloseTo(1, 6);
+      expect(scores[2]).toBeCloseTo(2, 6);
+    });
+  });
+});
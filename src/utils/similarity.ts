@@ -0,0 +1,541 @@
+import type { EmbeddingData, EmbeddingFormat, SimilarityMetric, SimilarityQuery } from '../types';
+import { covarianceMatrix, choleskyFactor, whiten } from './mahalanobis';
+import { getSimdKernels, KERNEL_BANDS, SimdKernels } from './simd';
+import { decodePixel, isPixelValid, readEmbedding } from './quantized';
+
+// Pixels scored per batched dot product call on the SIMD path
+const DOT_BATCH_PIXELS = 4096;
+
+/**
+ * Dot product of two embedding vectors.
+ * Embeddings are unit-normalized, so this is their cosine similarity.
+ */
+export function dotProduct(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+/**
+ * Centroid of several (at least one) embedding vectors, renormalized to unit
+ * length so that its dot product is again a cosine similarity.
+ * Returns a zero vector if the vectors cancel out.
+ */
+export function meanVector(vectors: Float32Array[]): Float32Array {
+  const bands = vectors[0].length;
+  const mean = new Float32Array(bands);
+  for (const vector of vectors) {
+    for (let band = 0; band < bands; band++) {
+      mean[band] += vector[band];
+    }
+  }
+
+  const magnitude = Math.sqrt(dotProduct(mean, mean));
+  if (magnitude > 0) {
+    for (let band = 0; band < bands; band++) {
+      mean[band] /= magnitude;
+    }
+  }
+  return mean;
+}
+
+/**
+ * Plain average of several (at least one) vectors (not renormalized)
+ */
+function averageVector(vectors: Float32Array[]): Float32Array {
+  const bands = vectors[0].length;
+  const mean = new Float32Array(bands);
+  for (const vector of vectors) {
+    for (let band = 0; band < bands; band++) {
+      mean[band] += vector[band] / vectors.length;
+    }
+  }
+  return mean;
+}
+
+// Display names, also used for tooltips and export metadata
+export const METRIC_LABELS: Record<SimilarityMetric, string> = {
+  cosine: 'Cosine similarity',
+  angular: 'Angular distance',
+  euclidean: 'Euclidean distance',
+  mahalanobis: 'Mahalanobis distance',
+};
+
+/**
+ * Whether lower scores mean more similar for a metric
+ */
+export function isDistanceMetric(metric: SimilarityMetric): boolean {
+  return metric !== 'cosine';
+}
+
+/**
+ * Whether a metric compares raw dequantized vectors rather than unit vectors
+ */
+function usesRawVectors(metric: SimilarityMetric): boolean {
+  return metric === 'euclidean' || metric === 'mahalanobis';
+}
+
+/**
+ * A query with its reference vectors transformed into the space the metric
+ * compares in, so per-pixel scoring only needs one pass over them
+ */
+interface PreparedQuery {
+  query: SimilarityQuery;
+  distance: boolean;
+  raw: boolean;
+  factor: Float64Array | null;  // Cholesky factor for Mahalanobis whitening
+  targets: Float32Array[];      // Positives after aggregation
+  positives: Float32Array[];
+  negatives: Float32Array[];
+  pixel: Float32Array;          // Scratch buffers for the current pixel
+  whitened: Float32Array;
+}
+
+function prepareQuery(query: SimilarityQuery): PreparedQuery {
+  const bands = query.positives[0].length;
+  const raw = usesRawVectors(query.metric);
+  let positives = raw ? query.rawPositives : query.positives;
+  let negatives = raw ? query.rawNegatives : query.negatives;
+
+  // Unit metrics compare to the renormalized centroid, raw ones to the plain mean
+  let targets = query.aggregation === 'max'
+    ? positives
+    : [raw ? averageVector(positives) : meanVector(positives)];
+
+  let factor: Float64Array | null = null;
+  if (query.metric === 'mahalanobis') {
+    if (!query.covariance) {
+      throw new Error('Mahalanobis distance needs a reference region');
+    }
+    const L = choleskyFactor(query.covariance);
+    const whitenAll = (vectors: Float32Array[]) =>
+      vectors.map(v => whiten(v, L, new Float32Array(bands)));
+    positives = whitenAll(positives);
+    negatives = whitenAll(negatives);
+    targets = whitenAll(targets);
+    factor = L;
+  }
+
+  return {
+    query,
+    distance: isDistanceMetric(query.metric),
+    raw,
+    factor,
+    targets,
+    positives,
+    negatives,
+    pixel: new Float32Array(bands),
+    whitened: new Float32Array(bands),
+  };
+}
+
+/**
+ * Score of a unit-vector metric from the dot product of the two vectors
+ */
+function scoreFromDot(dot: number, metric: SimilarityMetric): number {
+  // Angular distance in [0, 1]: 0 = same direction, 1 = opposite
+  return metric === 'cosine' ? dot : Math.acos(Math.max(-1, Math.min(1, dot))) / Math.PI;
+}
+
+/**
+ * Best score between a pixel and any of the vectors: the highest similarity,
+ * or the smallest distance
+ */
+function bestScore(pixel: Float32Array, vectors: Float32Array[], prepared: PreparedQuery): number {
+  const metric = prepared.query.metric;
+  const bands = pixel.length;
+  let best = prepared.distance ? Infinity : -Infinity;
+
+  for (const ref of vectors) {
+    let score: number;
+    if (metric === 'cosine' || metric === 'angular') {
+      let dot = 0;
+      for (let band = 0; band < bands; band++) {
+        dot += pixel[band] * ref[band];
+      }
+      score = scoreFromDot(dot, metric);
+    } else {
+      // Euclidean, in whitened space for Mahalanobis
+      let sum = 0;
+      for (let band = 0; band < bands; band++) {
+        const diff = pixel[band] - ref[band];
+        sum += diff * diff;
+      }
+      score = Math.sqrt(sum);
+    }
+
+    if (prepared.distance ? score < best : score > best) best = score;
+  }
+
+  return best;
+}
+
+/**
+ * Score the embedding at offset against a prepared query
+ */
+function scoreEmbedding(
+  embeddings: Float32Array,
+  offset: number,
+  magnitude: number,
+  prepared: PreparedQuery
+): number {
+  const { query } = prepared;
+
+  // Load the pixel in the space the metric compares in
+  let pixel = prepared.pixel;
+  const scale = prepared.raw ? magnitude : 1;
+  for (let band = 0; band < pixel.length; band++) {
+    pixel[band] = embeddings[offset + band] * scale;
+  }
+  if (prepared.factor) {
+    pixel = whiten(pixel, prepared.factor, prepared.whitened);
+  }
+
+  const score = bestScore(pixel, prepared.targets, prepared);
+  if (prepared.negatives.length === 0) {
+    return score;
+  }
+
+  // Negatives always count by their closest example
+  const negative = bestScore(pixel, prepared.negatives, prepared);
+  const closestPositive = needsClosestPositive(query)
+    ? bestScore(pixel, prepared.positives, prepared)
+    : score;
+  return applyNegatives(score, negative, closestPositive, prepared);
+}
+
+/**
+ * Whether excluding by negatives needs the closest individual positive,
+ * rather than the score against the aggregated target
+ */
+function needsClosestPositive(query: SimilarityQuery): boolean {
+  return query.negativeMode === 'exclude' && query.aggregation !== 'max';
+}
+
+/**
+ * Push a pixel's score away from its closest negative example
+ *
+ * @param score - Score against the targets
+ * @param negative - Best score against any negative
+ * @param closestPositive - Best score against any single positive
+ */
+function applyNegatives(
+  score: number,
+  negative: number,
+  closestPositive: number,
+  prepared: PreparedQuery
+): number {
+  const { query, distance } = prepared;
+
+  if (query.negativeMode === 'subtract') {
+    if (!distance) {
+      // Clamp so strongly negative pixels aren't mistaken for masked ones
+      return Math.max(0, score - query.negativeWeight * negative);
+    }
+    // Distances grow by how much closer the nearest negative is than the target
+    return score + query.negativeWeight * Math.max(0, score - negative);
+  }
+
+  const closerToNegative = distance ? negative < closestPositive : negative > closestPositive;
+  return closerToNegative ? -1 : score;
+}
+
+/**
+ * Score a single embedding against a query (see calculateSimilarityScores)
+ *
+ * @param vector - Unit-normalized embedding
+ * @param magnitude - Its magnitude before normalization
+ */
+export function scoreVector(vector: Float32Array, magnitude: number, query: SimilarityQuery): number {
+  return scoreEmbedding(vector, 0, magnitude, prepareQuery(query));
+}
+
+/**
+ * Score every pixel against the positive references, pushed away from
+ * the negative ones.
+ *
+ * 'cosine' scores are similarities (higher = more similar); 'angular',
+ * 'euclidean' (raw dequantized vectors) and 'mahalanobis' (raw vectors,
+ * covariance of the reference regions) are distances (lower = more similar).
+ *
+ * With negatives, 'subtract' scores max(0, positive - weight * closest negative)
+ * for similarities, or adds weight * how much closer the nearest negative is
+ * for distances. 'exclude' drops pixels closer to a negative than to any positive.
+ * Pixels masked by data (mask = 0), outside the polygon or excluded are scored -1.
+ *
+ * @param embeddings - Unit-normalized embeddings (W x H x bands, as many as
+ *                     the references have)
+ * @param magnitudes - Per-pixel magnitude before normalization
+ * @param mask - 1 = valid pixel, 0 = no data
+ * @param polygonMask - 1 = inside the drawn polygon, or null for no polygon
+ * @param query - Reference vectors (at least one positive) and scoring options
+ * @param kernels - SIMD kernels for the unit-vector metrics, or null for plain JS
+ *                  (only used for vectors of KERNEL_BANDS bands)
+ */
+export function calculateSimilarityScores(
+  embeddings: Float32Array,
+  magnitudes: Float32Array,
+  mask: Uint8Array,
+  polygonMask: Uint8Array | null,
+  query: SimilarityQuery,
+  kernels: SimdKernels | null = getSimdKernels()
+): Float32Array {
+  const numPixels = mask.length;
+  const prepared = prepareQuery(query);
+  const bands = prepared.pixel.length;
+
+  // Cosine and angular scores only depend on dot products with the references
+  if (kernels && !prepared.raw && bands === KERNEL_BANDS) {
+    return scoreFromDotBatches(embeddings, mask, polygonMask, prepared, kernels);
+  }
+
+  const scores = new Float32Array(numPixels);
+
+  for (let pixelIdx = 0; pixelIdx < numPixels; pixelIdx++) {
+    if (mask[pixelIdx] === 0 || (polygonMask && polygonMask[pixelIdx] === 0)) {
+      scores[pixelIdx] = -1; // Mark as invalid
+      continue;
+    }
+
+    scores[pixelIdx] = scoreEmbedding(embeddings, pixelIdx * bands, magnitudes[pixelIdx], prepared);
+  }
+
+  return scores;
+}
+
+/**
+ * calculateSimilarityScores on Int8 codes, dequantizing one pixel at a time
+ * so the grid never has to be expanded to Float32
+ *
+ * @param codes - Raw Int8 codes (W x H x bands)
+ * @param mask - 1 = valid pixel, 0 = no data
+ * @param polygonMask - 1 = inside the drawn polygon, or null for no polygon
+ * @param query - Reference vectors (at least one positive) and scoring options
+ * @param format - Band count and dequantization of the codes
+ */
+export function calculateQuantizedScores(
+  codes: Int8Array,
+  mask: Uint8Array,
+  polygonMask: Uint8Array | null,
+  query: SimilarityQuery,
+  format: EmbeddingFormat
+): Float32Array {
+  const numPixels = mask.length;
+  const scores = new Float32Array(numPixels);
+  const prepared = prepareQuery(query);
+  const vector = new Float32Array(format.bands);
+
+  for (let pixelIdx = 0; pixelIdx < numPixels; pixelIdx++) {
+    if (mask[pixelIdx] === 0 || (polygonMask && polygonMask[pixelIdx] === 0)) {
+      scores[pixelIdx] = -1; // Mark as invalid
+      continue;
+    }
+
+    const magnitude = decodePixel(codes, pixelIdx, vector, format);
+    scores[pixelIdx] = scoreEmbedding(vector, 0, magnitude, prepared);
+  }
+
+  return scores;
+}
+
+// One year of a grid as the workers hold it
+export interface YearPixels {
+  // Unit-normalized embeddings (W x H x bands), or null when held as codes
+  embeddings: Float32Array | null;
+  // Raw Int8 codes (W x H x bands), or null when held as unit embeddings
+  codes: Int8Array | null;
+  // 1 = valid pixel, 0 = no data
+  mask: Uint8Array;
+  format: EmbeddingFormat;
+}
+
+/**
+ * Copy or decode a pixel's unit embedding into out
+ */
+function loadUnitVector(year: YearPixels, pixelIdx: number, out: Float32Array): void {
+  const { bands } = year.format;
+  if (year.codes) {
+    decodePixel(year.codes, pixelIdx, out, year.format);
+  } else if (year.embeddings) {
+    out.set(year.embeddings.subarray(pixelIdx * bands, (pixelIdx + 1) * bands));
+  }
+}
+
+/**
+ * Calculate per-pixel change between two years of the same grid.
+ * Score is 1 - cosine similarity of a pixel's own embeddings, so 0 means
+ * unchanged and larger values mean more change (up to 2).
+ *
+ * @param current - The later year
+ * @param previous - The year compared from
+ * @param polygonMask - 1 = inside the drawn polygon, or null for no polygon
+ */
+export function calculateChangeScores(
+  current: YearPixels,
+  previous: YearPixels,
+  polygonMask: Uint8Array | null
+): Float32Array {
+  const numPixels = current.mask.length;
+  const scores = new Float32Array(numPixels);
+  const currentVector = new Float32Array(current.format.bands);
+  const previousVector = new Float32Array(previous.format.bands);
+
+  for (let pixelIdx = 0; pixelIdx < numPixels; pixelIdx++) {
+    // Pixels need valid data in both years
+    if (
+      current.mask[pixelIdx] === 0 ||
+      previous.mask[pixelIdx] === 0 ||
+      (polygonMask && polygonMask[pixelIdx] === 0)
+    ) {
+      scores[pixelIdx] = -1; // Mark as invalid
+      continue;
+    }
+
+    loadUnitVector(current, pixelIdx, currentVector);
+    loadUnitVector(previous, pixelIdx, previousVector);
+
+    // Clamp so rounding on identical vectors can't produce the invalid marker
+    scores[pixelIdx] = Math.max(0, 1 - dotProduct(currentVector, previousVector));
+  }
+
+  return scores;
+}
+
+/**
+ * calculateSimilarityScores for unit-vector metrics, computing all reference
+ * dot products for a batch of pixels at once with the SIMD kernel
+ */
+function scoreFromDotBatches(
+  embeddings: Float32Array,
+  mask: Uint8Array,
+  polygonMask: Uint8Array | null,
+  prepared: PreparedQuery,
+  kernels: SimdKernels
+): Float32Array {
+  const { query, targets, positives, negatives } = prepared;
+  const numPixels = mask.length;
+  const scores = new Float32Array(numPixels);
+
+  // Columns of the dot product matrix: targets, then positives if needed, then negatives
+  const closestPositive = negatives.length > 0 && needsClosestPositive(query);
+  const refs = [...targets, ...(closestPositive ? positives : []), ...negatives];
+  const positivesStart = targets.length;
+  const negativesStart = positivesStart + (closestPositive ? positives.length : 0);
+  const dots = new Float32Array(DOT_BATCH_PIXELS * refs.length);
+
+  // Best score over columns [from, to) of a row of dot products
+  const best = (row: number, from: number, to: number) => {
+    let result = prepared.distance ? Infinity : -Infinity;
+    for (let col = from; col < to; col++) {
+      const score = scoreFromDot(dots[row + col], query.metric);
+      if (prepared.distance ? score < result : score > result) result = score;
+    }
+    return result;
+  };
+
+  for (let start = 0; start < numPixels; start += DOT_BATCH_PIXELS) {
+    const end = Math.min(numPixels, start + DOT_BATCH_PIXELS);
+    kernels.dotBatch(embeddings.subarray(start * KERNEL_BANDS, end * KERNEL_BANDS), refs, dots);
+
+    for (let pixelIdx = start; pixelIdx < end; pixelIdx++) {
+      if (mask[pixelIdx] === 0 || (polygonMask && polygonMask[pixelIdx] === 0)) {
+        scores[pixelIdx] = -1; // Mark as invalid
+        continue;
+      }
+
+      const row = (pixelIdx - start) * refs.length;
+      const score = best(row, 0, targets.length);
+      if (negatives.length === 0) {
+        scores[pixelIdx] = score;
+        continue;
+      }
+
+      const negative = best(row, negativesStart, refs.length);
+      const positive = closestPositive ? best(row, positivesStart, negativesStart) : score;
+      scores[pixelIdx] = applyNegatives(score, negative, positive, prepared);
+    }
+  }
+
+  return scores;
+}
+
+export interface RegionReference {
+  vector: Float32Array;     // Normalized mean of the region's embeddings
+  rawVector: Float32Array;  // Mean of the region's raw (dequantized) embeddings
+  covariance: Float64Array; // Covariance of the raw embeddings (bands x bands)
+  pixelCount: number;       // Valid pixels inside the region
+  centerX: number;          // Mean pixel position of those pixels
+  centerY: number;
+  meanSimilarity: number;   // Average similarity of region pixels to the mean (spread)
+  minSimilarity: number;
+}
+
+/**
+ * Reference vector for an area: the normalized mean of all valid embeddings
+ * inside it, plus how similar the region's pixels are to that mean and the
+ * covariance used for Mahalanobis distance.
+ * Returns null if the region contains no valid pixels.
+ *
+ * @param data - Loaded embeddings, in either storage layout
+ * @param regionMask - true = pixel inside the region
+ */
+export function regionReference(data: EmbeddingData, regionMask: boolean[]): RegionReference | null {
+  const pixels: number[] = [];
+  for (let pixelIdx = 0; pixelIdx < regionMask.length; pixelIdx++) {
+    if (regionMask[pixelIdx] && isPixelValid(data.mask, pixelIdx)) {
+      pixels.push(pixelIdx);
+    }
+  }
+
+  if (pixels.length === 0) {
+    return null;
+  }
+
+  // Gather the region's unit embeddings and magnitudes into compact arrays
+  const { bands } = data.format;
+  const embeddings = new Float32Array(pixels.length * bands);
+  const magnitudes = new Float32Array(pixels.length);
+  const sum = new Float32Array(bands);
+  const rawSum = new Float32Array(bands);
+  let sumX = 0;
+  let sumY = 0;
+
+  pixels.forEach((pixelIdx, i) => {
+    const vector = embeddings.subarray(i * bands, (i + 1) * bands);
+    magnitudes[i] = readEmbedding(data, pixelIdx, vector);
+    for (let band = 0; band < bands; band++) {
+      sum[band] += vector[band];
+      rawSum[band] += vector[band] * magnitudes[i];
+    }
+    sumX += pixelIdx % data.width;
+    sumY += Math.floor(pixelIdx / data.width);
+  });
+
+  const vector = meanVector([sum]);
+  const rawVector = rawSum.map(v => v / pixels.length);
+
+  // Spread: similarity of each member pixel to the region mean
+  let totalSimilarity = 0;
+  let minSimilarity = Infinity;
+  for (let i = 0; i < pixels.length; i++) {
+    let similarity = 0;
+    for (let band = 0; band < bands; band++) {
+      similarity += embeddings[i * bands + band] * vector[band];
+    }
+    totalSimilarity += similarity;
+    minSimilarity = Math.min(minSimilarity, similarity);
+  }
+
+  return {
+    vector,
+    rawVector,
+    covariance: covarianceMatrix(embeddings, magnitudes, pixels.map((_, i) => i), rawVector),
+    pixelCount: pixels.length,
+    centerX: Math.round(sumX / pixels.length),
+    centerY: Math.round(sumY / pixels.length),
+    meanSimilarity: totalSimilarity / pixels.length,
+    minSimilarity,
+  };
+}
@@ -0,0 +1,200 @@
+import { describe, it, expect } from 'vitest';
+import { createStacSource, fetchStacTiles, stacItemToTile } from './stacSource';
+import type { FetchJson, StacItem } from './stacSource';
+import { DEQUANTIZE_LUT } from './quantized';
+
+function sampleItem(overrides: Partial<StacItem['properties']> = {}): StacItem {
+  return {
+    type: 'Feature',
+    id: 'xjm-2024',
+    bbox: [-122.5, 37.5, -121.6, 38.2],
+    properties: {
+      datetime: '2024-01-01T00:00:00Z',
+      'proj:epsg': 32610,
+      'proj:bbox': [500000, 4150000, 581920, 4231920],
+      ...overrides,
+    },
+    assets: {
+      thumbnail: { href: 'thumb.png', type: 'image/png' },
+      data: { href: '../cogs/xjm_2024.tiff', type: 'image/tiff; application=geotiff; profile=cloud-optimized', roles: ['data'] },
+    },
+  };
+}
+
+/**
+ * Serve JSON documents from a map of URL to document, recording requests
+ */
+function fakeFetch(documents: Record<string, unknown>): { fetchJson: FetchJson; requested: string[] } {
+  const requested: string[] = [];
+  const fetchJson: FetchJson = async (url) => {
+    requested.push(url);
+    if (!(url in documents)) throw new Error(`Not found: ${url}`);
+    return documents[url];
+  };
+  return { fetchJson, requested };
+}
+
+describe('STAC Source Utilities', () => {
+  describe('stacItemToTile', () => {
+    it('should map an item to a tile', () => {
+      const tile = stacItemToTile(sampleItem(), 'https://stac.example/items/xjm.json');
+
+      expect(tile).toEqual({
+        wkt: '',
+        crs: 'EPSG:32610',
+        url: 'https://stac.example/cogs/xjm_2024.tiff',
+        year: '2024',
+        utmZone: '10N',
+        utmBounds: { minX: 500000, minY: 4150000, maxX: 581920, maxY: 4231920 },
+        lngLatBounds: { minLng: -122.5, minLat: 37.5, maxLng: -121.6, maxLat: 38.2 },
+      });
+    });
+
+    it('should derive bounds from proj:transform and read proj:code', () => {
+      const tile = stacItemToTile(
+        sampleItem({
+          'proj:epsg': undefined,
+          'proj:code': 'EPSG:32755',
+          'proj:bbox': undefined,
+          'proj:transform': [10, 0, 300000, 0, -10, 6000000],
+          'proj:shape': [8192, 4096],
+        }),
+        'https://stac.example/items/xjm.json'
+      );
+
+      expect(tile?.utmZone).toBe('55S');
+      expect(tile?.utmBounds).toEqual({ minX: 300000, minY: 5918080, maxX: 340960, maxY: 6000000 });
+    });
+
+    it('should rewrite S3 asset hrefs', () => {
+      const item = sampleItem();
+      item.assets.data.href = 's3://us-west-2.opendata.source.coop/tge-labs/aef/x.tiff';
+
+      expect(stacItemToTile(item, 'https://stac.example/x.json')?.url).toBe('https://data.source.coop/tge-labs/aef/x.tiff');
+    });
+
+    it('should skip items without a UTM projection', () => {
+      expect(stacItemToTile(sampleItem({ 'proj:epsg': 4326 }), 'https://stac.example/x.json')).toBeNull();
+    });
+  });
+
+  describe('fetchStacTiles', () => {
+    it('should walk a static catalog', async () => {
+      const { fetchJson } = fakeFetch({
+        'https://stac.example/catalog.json': {
+          type: 'Catalog',
+          links: [
+            { rel: 'self', href: 'catalog.json' },
+            { rel: 'child', href: '2024/collection.json' },
+          ],
+        },
+        'https://stac.example/2024/collection.json': {
+          type: 'Collection',
+          links: [
+            { rel: 'parent', href: '../catalog.json' },
+            { rel: 'item', href: 'items/xjm.json' },
+          ],
+        },
+        'https://stac.example/2024/items/xjm.json': sampleItem(),
+      });
+
+      const tiles = await fetchStacTiles('https://stac.example/catalog.json', { fetchJson });
+
+      expect(tiles).toHaveLength(1);
+      expect(tiles[0].url).toBe('https://stac.example/2024/cogs/xjm_2024.tiff');
+    });
+
+    it('should page through an API search', async () => {
+      const { fetchJson, requested } = fakeFetch({
+        'https://api.example/stac': {
+          conformsTo: ['https://api.stacspec.org/v1.0.0/item-search'],
+          links: [{ rel: 'search', href: 'https://api.example/stac/search' }],
+        },
+        'https://api.example/stac/search?limit=1000&collections=aef': {
+          type: 'FeatureCollection',
+          features: [sampleItem()],
+          links: [{ rel: 'next', href: 'https://api.example/stac/search?page=2' }],
+        },
+        'https://api.example/stac/search?page=2': {
+          type: 'FeatureCollection',
+          features: [sampleItem({ datetime: '2023-01-01T00:00:00Z' })],
+          links: [],
+        },
+      });
+
+      const tiles = await fetchStacTiles('https://api.example/stac', { collections: ['aef'], fetchJson });
+
+      expect(tiles.map(tile => tile.year)).toEqual(['2024', '2023']);
+      expect(requested).toHaveLength(3);
+    });
+  });
+
+  describe('createStacSource', () => {
+    const bbox = { minLng: -122.2, minLat: 37.7, maxLng: -122.1, maxLat: 37.8 };
+
+    it('should search an API for the selection and keep the results', async () => {
+      const landing = {
+        conformsTo: ['https://api.stacspec.org/v1.0.0/item-search'],
+        links: [{ rel: 'search', href: 'https://api.example/stac/search' }],
+      };
+      const requested: string[] = [];
+      const source = createStacSource({
+        name: 'API',
+        url: 'https://api.example/stac',
+        collections: ['aef'],
+        fetchJson: async (url) => {
+          requested.push(url);
+          if (url === 'https://api.example/stac') return landing;
+          return { type: 'FeatureCollection', features: [sampleItem()], links: [] };
+        },
+      });
+
+      const tiles = await source.searchTiles!({ bbox, year: '2024' });
+      const search = new URL(requested[1]).searchParams;
+
+      expect(tiles).toHaveLength(1);
+      expect(search.get('collections')).toBe('aef');
+      expect(search.get('bbox')).toBe('-122.2,37.7,-122.1,37.8');
+      expect(search.get('datetime')).toBe('2024-01-01T00:00:00Z/2024-12-31T23:59:59Z');
+
+      // The same query is answered from the cache; another year is searched
+      expect(await source.searchTiles!({ bbox, year: '2024' })).toBe(tiles);
+      await source.searchTiles!({ bbox });
+      expect(requested).toHaveLength(3);
+      expect(new URL(requested[2]).searchParams.has('datetime')).toBe(false);
+
+      // An API isn't listed in full
+      expect(await source.listTiles()).toBeNull();
+      expect(requested).toHaveLength(3);
+    });
+
+    it('should walk a static catalog once', async () => {
+      const { fetchJson, requested } = fakeFetch({
+        'https://stac.example/catalog.json': {
+          type: 'Catalog',
+          links: [{ rel: 'item', href: 'items/xjm.json' }],
+        },
+        'https://stac.example/items/xjm.json': sampleItem(),
+      });
+      const source = createStacSource({ name: 'Static', url: 'https://stac.example/catalog.json', fetchJson });
+
+      const tiles = await source.listTiles();
+
+      expect(tiles).toHaveLength(1);
+      expect(await source.searchTiles!({ bbox, year: '2024' })).toBe(tiles);
+      expect(requested).toHaveLength(2);
+    });
+
+    it('should describe AlphaEarth-format COGs unless told otherwise', () => {
+      const { fetchJson } = fakeFetch({});
+      const alphaEarth = createStacSource({ name: 'Static', url: 'https://stac.example/catalog.json', fetchJson });
+      const dequantizeLut = new Float32Array(256);
+      const product = createStacSource({ name: 'Other', url: 'https://stac.example/catalog.json', fetchJson, bands: 16, dequantizeLut });
+
+      expect(alphaEarth.bands).toBe(64);
+      expect(alphaEarth.dequantizeLut).toBe(DEQUANTIZE_LUT);
+      expect(product.bands).toBe(16);
+      expect(product.dequantizeLut).toBe(dequantizeLut);
+    });
+  });
+});
@@ -0,0 +1,371 @@
+/**
+ * Data source discovering embedding COGs from STAC: either a STAC API
+ * (searching each selection's bbox and year, paging through the results) or
+ * a static catalog (following child and item links). Items become tiles with
+ * the same year and UTM zone semantics as the GeoParquet index.
+ */
+
+import type { BoundingBox, TileInfo, TileTable } from '../types';
+import { CONFIG } from '../constants';
+import { decodeZstdTile, s3ToHttps } from './dataSource';
+import type { DataSource, TileQuery } from './dataSource';
+import { utmZoneFromEpsg } from './localGeoTiff';
+import { DEQUANTIZE_LUT } from './quantized';
+import { tileTable } from './tileTable';
+
+// Items requested per page of a STAC API search
+const SEARCH_PAGE_SIZE = 1000;
+// Catalog documents fetched at once while walking a static catalog
+const FETCH_CONCURRENCY = 8;
+// Searches of a STAC API whose results are kept, most recent last
+const MAX_CACHED_SEARCHES = 32;
+
+interface StacLink {
+  rel: string;
+  href: string;
+  type?: string;
+  method?: string;
+  body?: unknown;
+}
+
+interface StacAsset {
+  href: string;
+  type?: string;
+  roles?: string[];
+}
+
+export interface StacItem {
+  type: 'Feature';
+  id: string;
+  bbox?: number[];
+  properties: Record<string, unknown>;
+  assets: Record<string, StacAsset>;
+  links?: StacLink[];
+}
+
+// Catalog, collection, API landing page or item collection (search results)
+interface StacDocument {
+  type?: string;
+  conformsTo?: string[];
+  links?: StacLink[];
+  features?: StacItem[];
+}
+
+export type FetchJson = (url: string, init?: RequestInit) => Promise<unknown>;
+
+async function defaultFetchJson(url: string, init?: RequestInit): Promise<unknown> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new Error(`STAC request failed (${response.status}): ${url}`);
+  }
+  return response.json();
+}
+
+/**
+ * EPSG code of an item's projection, from proj:epsg or proj:code ("EPSG:32610")
+ */
+function itemEpsg(properties: Record<string, unknown>): number | null {
+  if (typeof properties['proj:epsg'] === 'number') {
+    return properties['proj:epsg'];
+  }
+  const code = properties['proj:code'];
+  const match = typeof code === 'string' ? /^EPSG:(\d+)$/i.exec(code) : null;
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Projected bounds of an item, from proj:bbox or proj:transform with proj:shape
+ */
+function itemProjectedBounds(properties: Record<string, unknown>): TileInfo['utmBounds'] | null {
+  const bbox = properties['proj:bbox'];
+  if (Array.isArray(bbox) && bbox.length >= 4) {
+    return { minX: bbox[0], minY: bbox[1], maxX: bbox[2], maxY: bbox[3] };
+  }
+
+  const transform = properties['proj:transform'];
+  const shape = properties['proj:shape'];
+  if (Array.isArray(transform) && transform.length >= 6 && Array.isArray(shape) && shape.length === 2) {
+    // Affine transform [a, b, c, d, e, f]: x = a * col + c, y = e * row + f
+    const [a, , c, , e, f] = transform as number[];
+    const [rows, cols] = shape as number[];
+    const x2 = c + a * cols;
+    const y2 = f + e * rows;
+    return { minX: Math.min(c, x2), minY: Math.min(f, y2), maxX: Math.max(c, x2), maxY: Math.max(f, y2) };
+  }
+  return null;
+}
+
+/**
+ * The asset holding an item's embeddings: one with the data role, else the
+ * first GeoTIFF
+ */
+function embeddingAsset(assets: Record<string, StacAsset>): StacAsset | null {
+  const all = Object.values(assets);
+  const isGeoTiff = (asset: StacAsset) => asset.type?.includes('geotiff') ?? /\.tiff?$/i.test(asset.href);
+  return (
+    all.find(asset => asset.roles?.includes('data') && isGeoTiff(asset)) ??
+    all.find(isGeoTiff) ??
+    null
+  );
+}
+
+/**
+ * Map a STAC item to a tile, or null if it lacks what a tile needs (a
+ * datetime, a WGS 84 / UTM projection with bounds, a GeoTIFF asset)
+ *
+ * @param itemUrl - Where the item was read from, for resolving relative hrefs
+ * @param resolveUrl - Turns an asset href into the URL its COG is fetched from
+ */
+export function stacItemToTile(
+  item: StacItem,
+  itemUrl: string,
+  resolveUrl: (href: string) => string = s3ToHttps
+): TileInfo | null {
+  const { properties } = item;
+  const datetime = properties.datetime ?? properties.start_datetime;
+  const epsg = itemEpsg(properties);
+  const utmZone = epsg ? utmZoneFromEpsg(epsg) : null;
+  const utmBounds = itemProjectedBounds(properties);
+  const asset = embeddingAsset(item.assets ?? {});
+
+  if (typeof datetime !== 'string' || !utmZone || !utmBounds || !asset || !item.bbox || item.bbox.length < 4) {
+    return null;
+  }
+
+  // 3D bboxes list [w, s, zmin, e, n, zmax]
+  const [west, south, east, north] = item.bbox.length >= 6
+    ? [item.bbox[0], item.bbox[1], item.bbox[3], item.bbox[4]]
+    : item.bbox;
+  const lngLatBounds: BoundingBox = { minLng: west, minLat: south, maxLng: east, maxLat: north };
+  const href = /^[a-z][a-z0-9+.-]*:/i.test(asset.href) ? asset.href : new URL(asset.href, itemUrl).href;
+
+  return {
+    wkt: '',
+    crs: `EPSG:${epsg}`,
+    url: resolveUrl(href),
+    year: String(new Date(datetime).getUTCFullYear()),
+    utmZone,
+    utmBounds,
+    lngLatBounds,
+  };
+}
+
+/**
+ * Page through a STAC API item search, following next links. A query limits
+ * the search to items intersecting its bbox and, if given, dated in its year.
+ */
+async function searchItems(
+  searchUrl: string,
+  collections: string[] | undefined,
+  query: TileQuery | undefined,
+  fetchJson: FetchJson
+): Promise<{ item: StacItem; url: string }[]> {
+  const items: { item: StacItem; url: string }[] = [];
+  const params = new URLSearchParams({ limit: String(SEARCH_PAGE_SIZE) });
+  if (collections?.length) params.set('collections', collections.join(','));
+  if (query) {
+    const { minLng, minLat, maxLng, maxLat } = query.bbox;
+    params.set('bbox', [minLng, minLat, maxLng, maxLat].join(','));
+    if (query.year) params.set('datetime', `${query.year}-01-01T00:00:00Z/${query.year}-12-31T23:59:59Z`);
+  }
+
+  let request: { url: string; init?: RequestInit } | null = { url: `${searchUrl}?${params}` };
+  while (request) {
+    const page = (await fetchJson(request.url, request.init)) as StacDocument;
+    for (const item of page.features ?? []) {
+      items.push({ item, url: request.url });
+    }
+
+    const next = page.links?.find(link => link.rel === 'next');
+    request = next
+      ? {
+          url: new URL(next.href, request.url).href,
+          init: next.method === 'POST'
+            ? { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(next.body ?? {}) }
+            : undefined,
+        }
+      : null;
+  }
+  return items;
+}
+
+/**
+ * Walk a static catalog from its root, collecting every item below it
+ */
+async function walkCatalog(rootUrl: string, root: StacDocument, fetchJson: FetchJson): Promise<{ item: StacItem; url: string }[]> {
+  const items: { item: StacItem; url: string }[] = [];
+  const visited = new Set<string>([rootUrl]);
+  let pending: { url: string; doc: StacDocument }[] = [{ url: rootUrl, doc: root }];
+
+  while (pending.length > 0) {
+    const links = pending.flatMap(({ url, doc }) =>
+      (doc.links ?? [])
+        .filter(link => link.rel === 'child' || link.rel === 'item')
+        .map(link => ({ rel: link.rel, url: new URL(link.href, url).href }))
+    ).filter(({ url }) => !visited.has(url));
+    links.forEach(({ url }) => visited.add(url));
+
+    const children: { url: string; doc: StacDocument }[] = [];
+    for (let i = 0; i < links.length; i += FETCH_CONCURRENCY) {
+      const batch = links.slice(i, i + FETCH_CONCURRENCY);
+      const docs = await Promise.all(batch.map(({ url }) => fetchJson(url)));
+      batch.forEach(({ rel, url }, j) => {
+        if (rel === 'item') {
+          items.push({ item: docs[j] as StacItem, url });
+        } else {
+          children.push({ url, doc: docs[j] as StacDocument });
+        }
+      });
+    }
+    pending = children;
+  }
+  return items;
+}
+
+/**
+ * Read a STAC root: the item search endpoint of an API landing page, or null
+ * for a static catalog
+ */
+async function openCatalog(url: string, fetchJson: FetchJson): Promise<{ root: StacDocument; searchUrl: string | null }> {
+  const root = (await fetchJson(url)) as StacDocument;
+  const search = root.links?.find(link => link.rel === 'search');
+  const isApi = search !== undefined || root.conformsTo?.some(uri => uri.includes('item-search'));
+  return { root, searchUrl: isApi ? new URL(search?.href ?? 'search', url).href : null };
+}
+
+/**
+ * Map items to tiles, skipping those that can't be mapped
+ */
+function itemsToTiles(items: { item: StacItem; url: string }[], resolveUrl?: (href: string) => string): TileInfo[] {
+  const tiles: TileInfo[] = [];
+  for (const { item, url: itemUrl } of items) {
+    const tile = stacItemToTile(item, itemUrl, resolveUrl);
+    if (tile) {
+      tiles.push(tile);
+    } else {
+      console.warn(`Skipping STAC item ${item.id}: needs datetime, bbox, a UTM proj:epsg with bounds and a GeoTIFF asset`);
+    }
+  }
+  return tiles;
+}
+
+/**
+ * Read items from a STAC API (landing page with item search) or a static
+ * catalog, as tiles. APIs are searched for the query's selection (or every
+ * item without one); static catalogs are walked in full whatever the query.
+ */
+export async function fetchStacTiles(
+  url: string,
+  options: {
+    collections?: string[];
+    query?: TileQuery;
+    resolveUrl?: (href: string) => string;
+    fetchJson?: FetchJson;
+  } = {}
+): Promise<TileInfo[]> {
+  const { collections, query, resolveUrl, fetchJson = defaultFetchJson } = options;
+  const { root, searchUrl } = await openCatalog(url, fetchJson);
+  const items = searchUrl
+    ? await searchItems(searchUrl, collections, query, fetchJson)
+    : await walkCatalog(url, root, fetchJson);
+  return itemsToTiles(items, resolveUrl);
+}
+
+/**
+ * A source of Int8 embedding COGs with ZSTD tiles discovered from a STAC API
+ * or static catalog; AlphaEarth's 64 bands and quantization unless the
+ * collection publishes another product.
+ *
+ * An API is searched for each selection, with results kept per query; it
+ * can't list every tile, so no coverage is drawn for it. A static catalog
+ * is walked once and every search returns all of its tiles.
+ */
+export function createStacSource(options: {
+  name: string;
+  url: string;
+  collections?: string[];
+  resolveUrl?: (href: string) => string;
+  fetchJson?: FetchJson;
+  bands?: number;
+  dequantizeLut?: Float32Array;
+}): DataSource {
+  const {
+    name,
+    url,
+    collections,
+    resolveUrl,
+    fetchJson = defaultFetchJson,
+    bands = CONFIG.EMBEDDING_BANDS,
+    dequantizeLut = DEQUANTIZE_LUT,
+  } = options;
+  let catalogPromise: Promise<{ root: StacDocument; searchUrl: string | null }> | null = null;
+  let tilesPromise: Promise<TileTable> | null = null;
+  const searches = new Map<string, Promise<TileTable>>();
+
+  const openRoot = () => {
+    if (!catalogPromise) {
+      catalogPromise = openCatalog(url, fetchJson);
+      // Let a failed fetch be retried
+      catalogPromise.catch(() => {
+        catalogPromise = null;
+      });
+    }
+    return catalogPromise;
+  };
+
+  const walkTiles = (root: StacDocument): Promise<TileTable> => {
+    if (!tilesPromise) {
+      tilesPromise = walkCatalog(url, root, fetchJson).then(items => tileTable(itemsToTiles(items, resolveUrl)));
+      tilesPromise.catch(() => {
+        tilesPromise = null;
+      });
+    }
+    return tilesPromise;
+  };
+
+  const search = (searchUrl: string, query: TileQuery): Promise<TileTable> => {
+    const { minLng, minLat, maxLng, maxLat } = query.bbox;
+    const key = [minLng, minLat, maxLng, maxLat, query.year ?? ''].join('|');
+    let results = searches.get(key);
+    if (results) {
+      // Re-insert to mark as most recently used
+      searches.delete(key);
+    } else {
+      results = searchItems(searchUrl, collections, query, fetchJson)
+        .then(items => tileTable(itemsToTiles(items, resolveUrl)));
+      results.catch(() => {
+        if (searches.get(key) === results) searches.delete(key);
+      });
+    }
+    searches.set(key, results);
+
+    // Forget the least recently used search
+    if (searches.size > MAX_CACHED_SEARCHES) {
+      const oldest = searches.keys().next().value;
+      if (oldest !== undefined) {
+        searches.delete(oldest);
+      }
+    }
+    return results;
+  };
+
+  return {
+    name,
+    listTiles: async () => {
+      const { root, searchUrl } = await openRoot();
+      return searchUrl ? null : walkTiles(root);
+    },
+    searchTiles: async (query) => {
+      const { root, searchUrl } = await openRoot();
+      return searchUrl ? search(searchUrl, query) : walkTiles(root);
+    },
+    clearCache: () => {
+      catalogPromise = null;
+      tilesPromise = null;
+      searches.clear();
+    },
+    decoders: { 50000: decodeZstdTile },
+    bands,
+    dequantizeLut,
+  };
+}
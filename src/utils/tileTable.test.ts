@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { selectTiles, tileAt, tileTable } from './tileTable';
+import type { TileInfo } from '../types';
+
+function makeTile(index: number, year: string): TileInfo {
+  return {
+    wkt: '',
+    crs: 'EPSG:32633',
+    url: `https://tiles.example/${year}/${index}.tiff`,
+    year,
+    utmZone: '33N',
+    utmBounds: { minX: index * 81920, minY: 5800000, maxX: (index + 1) * 81920, maxY: 5881920 },
+    lngLatBounds: { minLng: 12 + index, minLat: 52.3, maxLng: 13 + index, maxLat: 53.1 },
+  };
+}
+
+describe('Tile Table Utilities', () => {
+  const tiles = [makeTile(0, '2024'), makeTile(1, '2023'), makeTile(2, '2024')];
+
+  describe('tileTable', () => {
+    it('should store bounds column by column', () => {
+      const table = tileTable(tiles);
+
+      expect(table.length).toBe(3);
+      expect(Array.from(table.lngLatBounds.subarray(4, 8))).toEqual([13, 52.3, 14, 53.1]);
+      expect(Array.from(table.utmBounds.subarray(4, 8))).toEqual([81920, 5800000, 163840, 5881920]);
+      expect(table.years).toEqual(['2024', '2023', '2024']);
+    });
+
+    it('should give back each tile', () => {
+      const table = tileTable(tiles);
+
+      expect(tiles.map((_, row) => tileAt(table, row))).toEqual(tiles);
+    });
+  });
+
+  describe('selectTiles', () => {
+    it('should keep the chosen rows in order', () => {
+      const table = selectTiles(tileTable(tiles), [2, 0]);
+
+      expect(table.length).toBe(2);
+      expect(tileAt(table, 0)).toEqual(tiles[2]);
+      expect(tileAt(table, 1)).toEqual(tiles[0]);
+    });
+  });
+});
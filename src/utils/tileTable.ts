@@ -0,0 +1,69 @@
+/**
+ * Columnar tile lists (see TileTable): what data sources list and tile
+ * indexes are built from. Tiles are only turned into TileInfo objects when a
+ * lookup returns them.
+ */
+
+import type { TileInfo, TileTable } from '../types';
+
+/**
+ * Store a list of tiles as a table
+ */
+export function tileTable(tiles: TileInfo[]): TileTable {
+  const lngLatBounds = new Float64Array(tiles.length * 4);
+  const utmBounds = new Float64Array(tiles.length * 4);
+  tiles.forEach(({ lngLatBounds: b, utmBounds: u }, i) => {
+    lngLatBounds.set([b.minLng, b.minLat, b.maxLng, b.maxLat], i * 4);
+    utmBounds.set([u.minX, u.minY, u.maxX, u.maxY], i * 4);
+  });
+
+  return {
+    length: tiles.length,
+    lngLatBounds,
+    utmBounds,
+    crs: tiles.map(tile => tile.crs),
+    urls: tiles.map(tile => tile.url),
+    years: tiles.map(tile => tile.year),
+    utmZones: tiles.map(tile => tile.utmZone),
+  };
+}
+
+/**
+ * One tile of a table
+ */
+export function tileAt(table: TileTable, row: number): TileInfo {
+  const b = table.lngLatBounds;
+  const u = table.utmBounds;
+  const pos = row * 4;
+  return {
+    wkt: '',
+    crs: table.crs[row],
+    url: table.urls[row],
+    year: table.years[row],
+    utmZone: table.utmZones[row],
+    utmBounds: { minX: u[pos], minY: u[pos + 1], maxX: u[pos + 2], maxY: u[pos + 3] },
+    lngLatBounds: { minLng: b[pos], minLat: b[pos + 1], maxLng: b[pos + 2], maxLat: b[pos + 3] },
+  };
+}
+
+/**
+ * A table of some of a table's tiles, in the given order
+ */
+export function selectTiles(table: TileTable, rows: number[]): TileTable {
+  const lngLatBounds = new Float64Array(rows.length * 4);
+  const utmBounds = new Float64Array(rows.length * 4);
+  rows.forEach((row, i) => {
+    lngLatBounds.set(table.lngLatBounds.subarray(row * 4, row * 4 + 4), i * 4);
+    utmBounds.set(table.utmBounds.subarray(row * 4, row * 4 + 4), i * 4);
+  });
+
+  return {
+    length: rows.length,
+    lngLatBounds,
+    utmBounds,
+    crs: rows.map(row => table.crs[row]),
+    urls: rows.map(row => table.urls[row]),
+    years: rows.map(row => table.years[row]),
+    utmZones: rows.map(row => table.utmZones[row]),
+  };
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { yearToYearSimilarity, similarityToReference } from './timeSeries';
+import type { PixelTimeSeries } from '../types';
+
+// Unit vector pointing along the given axes with equal weight
+function unitVector(...axes: number[]): Float32Array {
+  const v = new Float32Array(64);
+  for (const axis of axes) {
+    v[axis] = 1 / Math.sqrt(axes.length);
+  }
+  return v;
+}
+
+describe('Time Series Utilities', () => {
+  const series: PixelTimeSeries = {
+    lng: 103.8,
+    lat: 1.35,
+    entries: [
+      { year: '2018', vector: unitVector(0), magnitude: 1 },
+      { year: '2019', vector: unitVector(0), magnitude: 1 },
+      { year: '2020', vector: null, magnitude: 0 },
+      { year: '2021', vector: unitVector(0, 1), magnitude: 1 },
+      { year: '2022', vector: unitVector(1), magnitude: 1 },
+    ],
+  };
+
+  describe('yearToYearSimilarity', () => {
+    it('should compare consecutive years', () => {
+      const pairs = yearToYearSimilarity(series);
+
+      expect(pairs.map(p => `${p.from}-${p.to}`)).toEqual([
+        '2018-2019', '2019-2020', '2020-2021', '2021-2022',
+      ]);
+      expect(pairs[0].similarity).toBeCloseTo(1, 6);
+      expect(pairs[3].similarity).toBeCloseTo(Math.SQRT1_2, 6);
+    });
+
+    it('should return null for pairs with a missing year', () => {
+      const pairs = yearToYearSimilarity(series);
+      expect(pairs[1].similarity).toBeNull();
+      expect(pairs[2].similarity).toBeNull();
+    });
+  });
+
+  describe('similarityToReference', () => {
+    it('should score every year against the reference', () => {
+      const scores = similarityToReference(series, {
+        metric: 'cosine',
+        positives: [unitVector(1)],
+        negatives: [],
+        rawPositives: [unitVector(1)],
+        rawNegatives: [],
+        covariance: null,
+        aggregation: 'mean',
+        negativeMode: 'subtract',
+        negativeWeight: 0.5,
+      });
+
+      expect(scores.map(s => s.year)).toEqual(['2018', '2019', '2020', '2021', '2022']);
+      expect(scores[0].similarity).toBeCloseTo(0, 6);
+      expect(scores[2].similarity).toBeNull();
+      expect(scores[4].similarity).toBeCloseTo(1, 6);
+    });
+
+    it('should use the closest reference in max mode', () => {
+      const scores = similarityToReference(series, {
+        metric: 'cosine',
+        positives: [unitVector(0), unitVector(1)],
+        negatives: [],
+        rawPositives: [unitVector(0), unitVector(1)],
+        rawNegatives: [],
+        covariance: null,
+        aggregation: 'max',
+        negativeMode: 'subtract',
+        negativeWeight: 0.5,
+      });
+
+      expect(scores[0].similarity).toBeCloseTo(1, 6);
+      expect(scores[3].similarity).toBeCloseTo(Math.SQRT1_2, 6);
+      expect(scores[4].similarity).toBeCloseTo(1, 6);
+    });
+  });
+});
@@ -0,0 +1,35 @@
+import type { PixelTimeSeries, SimilarityQuery } from '../types';
+import { dotProduct, scoreVector } from './similarity';
+
+/**
+ * Similarity between consecutive years of a pixel's embedding
+ * A pair is null if either year has no data
+ */
+export function yearToYearSimilarity(
+  series: PixelTimeSeries
+): { from: string; to: string; similarity: number | null }[] {
+  const pairs = [];
+  for (let i = 1; i < series.entries.length; i++) {
+    const prev = series.entries[i - 1];
+    const curr = series.entries[i];
+    pairs.push({
+      from: prev.year,
+      to: curr.year,
+      similarity: prev.vector && curr.vector ? dotProduct(prev.vector, curr.vector) : null,
+    });
+  }
+  return pairs;
+}
+
+/**
+ * Score of each year's embedding against the reference pixels
+ */
+export function similarityToReference(
+  series: PixelTimeSeries,
+  query: SimilarityQuery
+): { year: string; similarity: number | null }[] {
+  return series.entries.map(({ year, vector, magnitude }) => ({
+    year,
+    similarity: vector ? scoreVector(vector, magnitude, query) : null,
+  }));
+}
@@ -0,0 +1,172 @@
+// @vitest-environment happy-dom
+import 'fake-indexeddb/auto';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  cachedKeys,
+  clearWindowCache,
+  getCacheBudget,
+  getCachedBlock,
+  getCacheStats,
+  putCachedBlock,
+  setCacheBudget,
+  windowCacheKey,
+} from './windowCache';
+import { alignedBlocks } from './mosaic';
+import type { PixelWindow } from './mosaic';
+import { CONFIG } from '../constants';
+
+const URL = 'https://example.com/tile.tiff';
+
+// A block of the given size
+function block(bytes: number): Int8Array {
+  return new Int8Array(bytes).fill(1);
+}
+
+// Put blocks one after another, each used a second after the last
+async function putInOrder(keys: string[], bytes: number, now: { time: number }): Promise<void> {
+  for (const key of keys) {
+    now.time += 1000;
+    await putCachedBlock(key, block(bytes));
+  }
+}
+
+describe('Window Cache Utilities', () => {
+  const now = { time: 0 };
+
+  beforeEach(async () => {
+    localStorage.clear();
+    now.time = 1_000_000;
+    vi.spyOn(Date, 'now').mockImplementation(() => now.time);
+    await clearWindowCache();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('windowCacheKey', () => {
+    it('should tell blocks of different overview levels apart', () => {
+      expect(windowCacheKey(URL, '2024', 1, [0, 0, 256, 256])).toBe(`${URL}|2024|1|0,0,256,256`);
+      expect(windowCacheKey(URL, '2024', 2, [0, 0, 256, 256])).not.toBe(windowCacheKey(URL, '2024', 1, [0, 0, 256, 256]));
+    });
+  });
+
+  describe('getCachedBlock', () => {
+    it('should return what was stored and miss otherwise', async () => {
+      await putCachedBlock('a', new Int8Array([1, -2, 3]));
+
+      expect(Array.from((await getCachedBlock('a'))!)).toEqual([1, -2, 3]);
+      expect(await getCachedBlock('b')).toBeNull();
+    });
+
+    it('should store a compact copy of a view', async () => {
+      const buffer = new Int8Array([9, 9, 4, 5, 9]);
+      await putCachedBlock('a', buffer.subarray(2, 4));
+
+      expect(Array.from((await getCachedBlock('a'))!)).toEqual([4, 5]);
+      expect((await getCacheStats()).bytes).toBe(2);
+    });
+  });
+
+  describe('eviction', () => {
+    it('should evict least recently used blocks down to the budget', async () => {
+      await setCacheBudget(3000);
+      await putInOrder(['a', 'b', 'c'], 1000, now);
+
+      // A fourth block pushes out the oldest
+      now.time += 1000;
+      await putCachedBlock('d', block(1000));
+
+      expect(await cachedKeys(['a', 'b', 'c', 'd'])).toEqual(new Set(['b', 'c', 'd']));
+      expect(await getCacheStats()).toEqual({ blocks: 3, bytes: 3000, budgetBytes: 3000 });
+    });
+
+    it('should keep a block that was read recently', async () => {
+      await setCacheBudget(3000);
+      await putInOrder(['a', 'b', 'c'], 1000, now);
+
+      // Reading the oldest block makes it the most recently used
+      now.time += 1000;
+      expect(await getCachedBlock('a')).not.toBeNull();
+      now.time += 1000;
+      await putCachedBlock('d', block(1000));
+
+      expect(await cachedKeys(['a', 'b', 'c', 'd'])).toEqual(new Set(['a', 'c', 'd']));
+    });
+
+    it('should evict when the budget is lowered', async () => {
+      await putInOrder(['a', 'b', 'c', 'd'], 1000, now);
+
+      await setCacheBudget(2500);
+
+      expect(await cachedKeys(['a', 'b', 'c', 'd'])).toEqual(new Set(['c', 'd']));
+      expect((await getCacheStats()).bytes).toBe(2000);
+    });
+
+    it('should not store a block larger than the budget', async () => {
+      await setCacheBudget(500);
+      await putCachedBlock('a', block(1000));
+
+      expect(await getCachedBlock('a')).toBeNull();
+      expect((await getCacheStats()).blocks).toBe(0);
+    });
+  });
+
+  describe('cachedKeys', () => {
+    it('should find the cached part of an overlapping selection', async () => {
+      const keyFor = (window: PixelWindow) => windowCacheKey(URL, '2024', 1, window);
+      const extent: PixelWindow = [0, 0, 1024, 1024];
+
+      // A first selection touching 2 x 2 blocks
+      const first = alignedBlocks([100, 100, 300, 400], 256, 256, extent);
+      for (const window of first) {
+        await putCachedBlock(keyFor(window), block(16));
+      }
+
+      // A second one reaching a block further east only needs that column
+      const second = alignedBlocks([200, 100, 400, 400], 256, 256, extent);
+      const cached = await cachedKeys(second.map(keyFor));
+      const missing = second.filter(window => !cached.has(keyFor(window)));
+
+      expect(first).toHaveLength(4);
+      expect(second).toHaveLength(6);
+      expect(cached.size).toBe(4);
+      expect(missing).toEqual([[512, 0, 256, 256], [512, 256, 256, 256]]);
+    });
+
+    it('should handle no keys', async () => {
+      expect(await cachedKeys([])).toEqual(new Set());
+    });
+  });
+
+  describe('cache budget', () => {
+    it('should default until one is set', () => {
+      expect(getCacheBudget()).toBe(CONFIG.DEFAULT_CACHE_BUDGET_BYTES);
+    });
+
+    it('should persist the budget for later sessions', async () => {
+      await setCacheBudget(64 * 1024 * 1024);
+
+      expect(localStorage.getItem('aef-cache-budget-bytes')).toBe(String(64 * 1024 * 1024));
+      expect(getCacheBudget()).toBe(64 * 1024 * 1024);
+    });
+
+    it('should ignore an invalid stored budget', () => {
+      localStorage.setItem('aef-cache-budget-bytes', 'lots');
+
+      expect(getCacheBudget()).toBe(CONFIG.DEFAULT_CACHE_BUDGET_BYTES);
+    });
+  });
+
+  describe('clearWindowCache', () => {
+    it('should delete every block', async () => {
+      await putInOrder(['a', 'b'], 1000, now);
+
+      await clearWindowCache();
+
+      expect(await getCachedBlock('a')).toBeNull();
+      expect(await cachedKeys(['a', 'b'])).toEqual(new Set());
+      expect(await getCacheStats()).toEqual({ blocks: 0, bytes: 0, budgetBytes: CONFIG.DEFAULT_CACHE_BUDGET_BYTES });
+    });
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * Persistent cache of raw Int8 embedding blocks in IndexedDB, so reloading
+ * the page or revisiting an area doesn't download the same data again.
+ *
+ * Block data and per-block bookkeeping (size, last use) live in separate
+ * stores, so enforcing the size budget never has to read the data itself.
+ * Every operation fails soft: without IndexedDB (or on quota errors) reads
+ * miss and writes are dropped.
+ */
+
+import { CONFIG } from '../constants';
+import type { PixelWindow } from './mosaic';
+
+const DB_NAME = 'aef-window-cache';
+const DB_VERSION = 1;
+const BLOCK_STORE = 'blocks';
+const ENTRY_STORE = 'entries';
+const BUDGET_STORAGE_KEY = 'aef-cache-budget-bytes';
+
+interface CacheEntry {
+  key: string;
+  bytes: number;
+  lastUsed: number;
+}
+
+export interface CacheStats {
+  blocks: number;
+  bytes: number;
+  budgetBytes: number;
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+/**
+ * Wrap an IndexedDB request in a promise
+ */
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolve once a transaction has committed
+ */
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Open (and create on first use) the cache database, or null if unavailable
+ */
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+
+  if (typeof indexedDB === 'undefined') {
+    dbPromise = Promise.resolve(null);
+    return dbPromise;
+  }
+
+  dbPromise = new Promise<IDBDatabase | null>((resolve) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore(BLOCK_STORE);
+      const entries = db.createObjectStore(ENTRY_STORE, { keyPath: 'key' });
+      entries.createIndex('lastUsed', 'lastUsed');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.warn('Window cache unavailable:', request.error);
+      resolve(null);
+    };
+  });
+  return dbPromise;
+}
+
+/**
+ * Cache key of a block: the COG it was read from, the year, the overview
+ * level and the block's pixel window in that level's pixel space
+ */
+export function windowCacheKey(url: string, year: string, factor: number, window: PixelWindow): string {
+  return `${url}|${year}|${factor}|${window.join(',')}`;
+}
+
+/**
+ * Size budget for the cache in bytes
+ */
+export function getCacheBudget(): number {
+  try {
+    const stored = Number(localStorage.getItem(BUDGET_STORAGE_KEY));
+    return stored > 0 ? stored : CONFIG.DEFAULT_CACHE_BUDGET_BYTES;
+  } catch {
+    return CONFIG.DEFAULT_CACHE_BUDGET_BYTES;
+  }
+}
+
+/**
+ * Change the size budget, evicting blocks if the cache is now over it
+ */
+export async function setCacheBudget(bytes: number): Promise<void> {
+  try {
+    localStorage.setItem(BUDGET_STORAGE_KEY, String(bytes));
+  } catch {
+    // Budget falls back to the default next session
+  }
+  await evictToBudget(bytes);
+}
+
+/**
+ * Read a cached block, marking it as recently used. Returns null on a miss.
+ */
+export async function getCachedBlock(key: string): Promise<Int8Array | null> {
+  const db = await openDatabase();
+  if (!db) return null;
+
+  try {
+    const transaction = db.transaction([BLOCK_STORE, ENTRY_STORE], 'readwrite');
+    const data = await promisify<ArrayBuffer | undefined>(transaction.objectStore(BLOCK_STORE).get(key));
+    if (!data) return null;
+
+    const entries = transaction.objectStore(ENTRY_STORE);
+    const entry = await promisify<CacheEntry | undefined>(entries.get(key));
+    if (entry) {
+      entries.put({ ...entry, lastUsed: Date.now() });
+    }
+    return new Int8Array(data);
+  } catch (err) {
+    console.warn('Window cache read failed:', err);
+    return null;
+  }
+}
+
+/**
+ * Which of the given keys are cached, without reading the block data
+ */
+export async function cachedKeys(keys: string[]): Promise<Set<string>> {
+  const db = await openDatabase();
+  if (!db || keys.length === 0) return new Set();
+
+  try {
+    const store = db.transaction(ENTRY_STORE, 'readonly').objectStore(ENTRY_STORE);
+    const found = await Promise.all(keys.map(key => promisify(store.getKey(key))));
+    return new Set(keys.filter((_, i) => found[i] !== undefined));
+  } catch (err) {
+    console.warn('Window cache lookup failed:', err);
+    return new Set();
+  }
+}
+
+/**
+ * Store a block, then evict least recently used blocks over the budget
+ */
+export async function putCachedBlock(key: string, data: Int8Array): Promise<void> {
+  const db = await openDatabase();
+  if (!db) return;
+
+  const budget = getCacheBudget();
+  if (data.byteLength > budget) return;
+
+  try {
+    // Store a compact copy, not a view onto a larger buffer
+    const buffer = data.slice().buffer;
+    const transaction = db.transaction([BLOCK_STORE, ENTRY_STORE], 'readwrite');
+    transaction.objectStore(BLOCK_STORE).put(buffer, key);
+    const entry: CacheEntry = { key, bytes: buffer.byteLength, lastUsed: Date.now() };
+    transaction.objectStore(ENTRY_STORE).put(entry);
+    await transactionDone(transaction);
+    await evictToBudget(budget);
+  } catch (err) {
+    console.warn('Window cache write failed:', err);
+  }
+}
+
+/**
+ * Delete least recently used blocks until the cache fits within budget bytes
+ */
+async function evictToBudget(budget: number): Promise<void> {
+  const db = await openDatabase();
+  if (!db) return;
+
+  try {
+    const transaction = db.transaction([BLOCK_STORE, ENTRY_STORE], 'readwrite');
+    const entries = transaction.objectStore(ENTRY_STORE);
+    const all = await promisify<CacheEntry[]>(entries.index('lastUsed').getAll());
+
+    let total = all.reduce((sum, entry) => sum + entry.bytes, 0);
+    for (const entry of all) {
+      if (total <= budget) break;
+      transaction.objectStore(BLOCK_STORE).delete(entry.key);
+      entries.delete(entry.key);
+      total -= entry.bytes;
+    }
+    await transactionDone(transaction);
+  } catch (err) {
+    console.warn('Window cache eviction failed:', err);
+  }
+}
+
+/**
+ * Number and total size of cached blocks
+ */
+export async function getCacheStats(): Promise<CacheStats> {
+  const budgetBytes = getCacheBudget();
+  const db = await openDatabase();
+  if (!db) return { blocks: 0, bytes: 0, budgetBytes };
+
+  try {
+    const transaction = db.transaction(ENTRY_STORE, 'readonly');
+    const all = await promisify<CacheEntry[]>(transaction.objectStore(ENTRY_STORE).getAll());
+    return {
+      blocks: all.length,
+      bytes: all.reduce((sum, entry) => sum + entry.bytes, 0),
+      budgetBytes,
+    };
+  } catch (err) {
+    console.warn('Window cache stats failed:', err);
+    return { blocks: 0, bytes: 0, budgetBytes };
+  }
+}
+
+/**
+ * Delete every cached block
+ */
+export async function clearWindowCache(): Promise<void> {
+  const db = await openDatabase();
+  if (!db) return;
+
+  const transaction = db.transaction([BLOCK_STORE, ENTRY_STORE], 'readwrite');
+  transaction.objectStore(BLOCK_STORE).clear();
+  transaction.objectStore(ENTRY_STORE).clear();
+  await transactionDone(transaction);
+}
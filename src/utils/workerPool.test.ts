@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { splitPixels, mergeChunks, pixelChunk, poolSize, isShared } from './workerPool';
+import { CONFIG } from '../constants';
+
+describe('Worker Pool Utilities', () => {
+  describe('poolSize', () => {
+    it('should use one worker per core up to the limit', () => {
+      expect(poolSize(4)).toBe(4);
+      expect(poolSize(64)).toBe(CONFIG.MAX_SIMILARITY_WORKERS);
+    });
+
+    it('should fall back to a single worker', () => {
+      expect(poolSize(undefined)).toBe(1);
+      expect(poolSize(0)).toBe(1);
+    });
+  });
+
+  describe('splitPixels', () => {
+    it('should cover every pixel exactly once', () => {
+      const ranges = splitPixels(10, 3);
+      expect(ranges).toEqual([
+        { start: 0, end: 3 },
+        { start: 3, end: 6 },
+        { start: 6, end: 10 },
+      ]);
+    });
+
+    it('should not create empty ranges for tiny grids', () => {
+      expect(splitPixels(2, 8)).toEqual([
+        { start: 0, end: 1 },
+        { start: 1, end: 2 },
+      ]);
+    });
+  });
+
+  describe('pixelChunk', () => {
+    it('should copy the pixels of a range, respecting the stride', () => {
+      const array = new Float32Array([0, 0, 1, 1, 2, 2, 3, 3]);
+      const chunk = pixelChunk(array, { start: 1, end: 3 }, 2);
+      expect(Array.from(chunk)).toEqual([1, 1, 2, 2]);
+      expect(chunk.buffer).not.toBe(array.buffer);
+    });
+
+    it('should return a view onto shared memory', () => {
+      const array = new Uint8Array(new SharedArrayBuffer(4));
+      const chunk = pixelChunk(array, { start: 2, end: 4 });
+      expect(isShared(chunk)).toBe(true);
+      chunk[0] = 7;
+      expect(array[2]).toBe(7);
+    });
+  });
+
+  describe('mergeChunks', () => {
+    it('should place each chunk at its range', () => {
+      const ranges = splitPixels(5, 2);
+      const scores = mergeChunks(
+        [new Float32Array([0.1, 0.2]), new Float32Array([0.3, 0.4, 0.5])],
+        ranges,
+        5
+      );
+      expect(Array.from(scores)).toEqual(Array.from(new Float32Array([0.1, 0.2, 0.3, 0.4, 0.5])));
+    });
+  });
+});
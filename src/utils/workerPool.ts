@@ -0,0 +1,81 @@
+import { CONFIG } from '../constants';
+
+/**
+ * Half-open range of pixel indices handled by one worker
+ */
+export interface PixelRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Whether typed arrays can be backed by a SharedArrayBuffer and posted to
+ * workers without copying. Needs a cross-origin isolated page (COOP/COEP headers).
+ */
+export function canShareMemory(): boolean {
+  return typeof SharedArrayBuffer !== 'undefined' && globalThis.crossOriginIsolated === true;
+}
+
+/**
+ * Allocate a buffer the worker pool can share, falling back to a plain
+ * ArrayBuffer when shared memory is unavailable
+ */
+export function allocateBuffer(byteLength: number): ArrayBuffer | SharedArrayBuffer {
+  return canShareMemory() ? new SharedArrayBuffer(byteLength) : new ArrayBuffer(byteLength);
+}
+
+/**
+ * Number of workers to split scoring across
+ */
+export function poolSize(hardwareConcurrency: number | undefined): number {
+  return Math.max(1, Math.min(CONFIG.MAX_SIMILARITY_WORKERS, hardwareConcurrency ?? 1));
+}
+
+/**
+ * Split numPixels into up to count contiguous, near-equal ranges.
+ * Never returns empty ranges, so small grids may get fewer chunks.
+ */
+export function splitPixels(numPixels: number, count: number): PixelRange[] {
+  const chunks = Math.max(1, Math.min(count, numPixels));
+  const ranges: PixelRange[] = [];
+  for (let i = 0; i < chunks; i++) {
+    ranges.push({
+      start: Math.floor((i * numPixels) / chunks),
+      end: Math.floor(((i + 1) * numPixels) / chunks),
+    });
+  }
+  return ranges;
+}
+
+/**
+ * The part of a per-pixel array (stride values per pixel) covering a range.
+ * Shared arrays give a view onto the same memory; others are copied so the
+ * copy can be transferred to a worker.
+ */
+export function pixelChunk<T extends Float32Array | Int8Array | Uint8Array>(
+  array: T,
+  range: PixelRange,
+  stride: number = 1
+): T {
+  const start = range.start * stride;
+  const end = range.end * stride;
+  return (isShared(array) ? array.subarray(start, end) : array.slice(start, end)) as T;
+}
+
+/**
+ * Whether a typed array is backed by a SharedArrayBuffer
+ */
+export function isShared(array: ArrayBufferView): boolean {
+  return typeof SharedArrayBuffer !== 'undefined' && array.buffer instanceof SharedArrayBuffer;
+}
+
+/**
+ * Join per-range scores back into one array over all pixels
+ */
+export function mergeChunks(chunks: Float32Array[], ranges: PixelRange[], numPixels: number): Float32Array {
+  const scores = new Float32Array(numPixels);
+  ranges.forEach((range, i) => {
+    scores.set(chunks[i], range.start);
+  });
+  return scores;
+}
@@ -1 +1,8 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // STAC API or static catalog to discover COGs from, instead of the bundled index
+  readonly VITE_STAC_URL?: string
+  // Comma-separated collections to search, for STAC APIs
+  readonly VITE_STAC_COLLECTIONS?: string
+}
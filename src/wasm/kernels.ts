@@ -0,0 +1,3 @@
+// Generated from kernels.wat by scripts/build-wasm.mjs - do not edit.
+export const KERNELS_WASM_BASE64 =
+  'AGFzbQEAAAABGgRgAXsBfWABewF7YAR/f39/AGAFf39/f38AAwYFAAECAgMFAwEAAQcuBAZtZW1vcnkCAApkZXF1YW50aXplAAIJbm9ybWFsaXplAAMIZG90QmF0Y2gABAr6BAUZACAA/R8AIAD9HwGSIAD9HwIgAP0fA5KSCx8BAXsgAP36ASEBIAEgAf3gAf3mAUMAAX5G/RP95wELuQECA38DewJAA0AgBCADTw0BQQAhBkEAIQUDQCAA/QAEACEHIAdBgH/9D/0jIQggBiAI/VNyIQYgByAI/U8hByAH/YcBIQkgASAJ/acBEAH9CwQAIAEgCf2oARAB/QsEECAH/YgBIQkgASAJ/acBEAH9CwQgIAEgCf2oARAB/QsEMCAAQRBqIQAgAUHAAGohASAFQQFqIQUgBUEESQ0ACyACIAZFOgAAIAJBAWohAiAEQQFqIQQMAAsLC90BAwN/AX0DewJAA0AgBCADTw0BQwAAAAAhByABLQAABED9DAAAAAAAAAAAAAAAAAAAAAAhCCAAIQZBACEFA0AgBv0ABAAhCSAIIAkgCf3mAf3kASEIIAZBEGohBiAFQQFqIQUgBUEQSQ0ACyAIEACRIQcgB0MAAAAAXgRAIAf9EyEKIAAhBkEAIQUDQCAGIAb9AAQAIAr95wH9CwQAIAZBEGohBiAFQQFqIQUgBUEQSQ0ACwsLIAIgBzgCACAAQYACaiEAIAFBAWohASACQQRqIQIgBEEBaiEEDAALCwujAQIFfwF7AkADQCAFIARPDQFBACEGIAEhCQJAA0AgBiACTw0B/QwAAAAAAAAAAAAAAAAAAAAAIQogACEIQQAhBwNAIAogCP0ABAAgCf0ABAD95gH95AEhCiAIQRBqIQggCUEQaiEJIAdBAWohByAHQRBJDQALIAMgChAAOAIAIANBBGohAyAGQQFqIQYMAAsLIABBgAJqIQAgBUEBaiEFDAALCws=';
@@ -0,0 +1,129 @@
+;; SIMD kernels for embedding arithmetic (64 bands per pixel).
+;; Compiled to src/wasm/kernels.ts with `npm run build:wasm`.
+;; The caller copies inputs into linear memory and passes byte offsets;
+;; all offsets of vector data must be 16-byte aligned.
+(module
+  (memory (export "memory") 1)
+
+  ;; Sum of the four lanes
+  (func $hsum (param $v v128) (result f32)
+    (f32.add
+      (f32.add (f32x4.extract_lane 0 (local.get $v)) (f32x4.extract_lane 1 (local.get $v)))
+      (f32.add (f32x4.extract_lane 2 (local.get $v)) (f32x4.extract_lane 3 (local.get $v)))))
+
+  ;; sign(raw) * (raw / 127.5)^2 for four codes
+  (func $decode (param $codes v128) (result v128)
+    (local $x v128)
+    (local.set $x (f32x4.convert_i32x4_s (local.get $codes)))
+    (f32x4.div
+      (f32x4.mul (local.get $x) (f32x4.abs (local.get $x)))
+      (f32x4.splat (f32.const 16256.25))))
+
+  ;; Dequantize Int8 codes to Float32. -128 (nodata) bands become 0 and
+  ;; clear the pixel's mask byte (1 = valid, 0 = no data).
+  (func (export "dequantize")
+    (param $src i32) (param $dst i32) (param $mask i32) (param $pixels i32)
+    (local $p i32) (local $k i32) (local $invalid i32)
+    (local $codes v128) (local $nodata v128) (local $half v128)
+    (block $done
+      (loop $pixel
+        (br_if $done (i32.ge_u (local.get $p) (local.get $pixels)))
+        (local.set $invalid (i32.const 0))
+        (local.set $k (i32.const 0))
+        ;; 16 codes per iteration, widened to four f32x4
+        (loop $chunk
+          (local.set $codes (v128.load (local.get $src)))
+          (local.set $nodata (i8x16.eq (local.get $codes) (i8x16.splat (i32.const -128))))
+          (local.set $invalid (i32.or (local.get $invalid) (v128.any_true (local.get $nodata))))
+          (local.set $codes (v128.andnot (local.get $codes) (local.get $nodata)))
+          (local.set $half (i16x8.extend_low_i8x16_s (local.get $codes)))
+          (v128.store offset=0 (local.get $dst)
+            (call $decode (i32x4.extend_low_i16x8_s (local.get $half))))
+          (v128.store offset=16 (local.get $dst)
+            (call $decode (i32x4.extend_high_i16x8_s (local.get $half))))
+          (local.set $half (i16x8.extend_high_i8x16_s (local.get $codes)))
+          (v128.store offset=32 (local.get $dst)
+            (call $decode (i32x4.extend_low_i16x8_s (local.get $half))))
+          (v128.store offset=48 (local.get $dst)
+            (call $decode (i32x4.extend_high_i16x8_s (local.get $half))))
+          (local.set $src (i32.add (local.get $src) (i32.const 16)))
+          (local.set $dst (i32.add (local.get $dst) (i32.const 64)))
+          (local.set $k (i32.add (local.get $k) (i32.const 1)))
+          (br_if $chunk (i32.lt_u (local.get $k) (i32.const 4))))
+        (i32.store8 (local.get $mask) (i32.eqz (local.get $invalid)))
+        (local.set $mask (i32.add (local.get $mask) (i32.const 1)))
+        (local.set $p (i32.add (local.get $p) (i32.const 1)))
+        (br $pixel))))
+
+  ;; Normalize valid vectors to unit length in place, writing each pixel's
+  ;; magnitude before normalization (0 for masked pixels)
+  (func (export "normalize")
+    (param $vec i32) (param $mask i32) (param $mag i32) (param $pixels i32)
+    (local $p i32) (local $k i32) (local $ptr i32) (local $norm f32)
+    (local $acc v128) (local $v v128) (local $divisor v128)
+    (block $done
+      (loop $pixel
+        (br_if $done (i32.ge_u (local.get $p) (local.get $pixels)))
+        (local.set $norm (f32.const 0))
+        (if (i32.load8_u (local.get $mask))
+          (then
+            (local.set $acc (v128.const f32x4 0 0 0 0))
+            (local.set $ptr (local.get $vec))
+            (local.set $k (i32.const 0))
+            (loop $square
+              (local.set $v (v128.load (local.get $ptr)))
+              (local.set $acc (f32x4.add (local.get $acc) (f32x4.mul (local.get $v) (local.get $v))))
+              (local.set $ptr (i32.add (local.get $ptr) (i32.const 16)))
+              (local.set $k (i32.add (local.get $k) (i32.const 1)))
+              (br_if $square (i32.lt_u (local.get $k) (i32.const 16))))
+            (local.set $norm (f32.sqrt (call $hsum (local.get $acc))))
+            (if (f32.gt (local.get $norm) (f32.const 0))
+              (then
+                (local.set $divisor (f32x4.splat (local.get $norm)))
+                (local.set $ptr (local.get $vec))
+                (local.set $k (i32.const 0))
+                (loop $scale
+                  (v128.store (local.get $ptr)
+                    (f32x4.div (v128.load (local.get $ptr)) (local.get $divisor)))
+                  (local.set $ptr (i32.add (local.get $ptr) (i32.const 16)))
+                  (local.set $k (i32.add (local.get $k) (i32.const 1)))
+                  (br_if $scale (i32.lt_u (local.get $k) (i32.const 16))))))))
+        (f32.store (local.get $mag) (local.get $norm))
+        (local.set $vec (i32.add (local.get $vec) (i32.const 256)))
+        (local.set $mask (i32.add (local.get $mask) (i32.const 1)))
+        (local.set $mag (i32.add (local.get $mag) (i32.const 4)))
+        (local.set $p (i32.add (local.get $p) (i32.const 1)))
+        (br $pixel))))
+
+  ;; Dot product of every pixel with every reference vector.
+  ;; out[pixel * refCount + ref] = dot(vectors[pixel], refs[ref])
+  (func (export "dotBatch")
+    (param $vec i32) (param $refs i32) (param $refCount i32) (param $out i32) (param $pixels i32)
+    (local $p i32) (local $r i32) (local $k i32) (local $a i32) (local $b i32) (local $acc v128)
+    (block $done
+      (loop $pixel
+        (br_if $done (i32.ge_u (local.get $p) (local.get $pixels)))
+        (local.set $r (i32.const 0))
+        (local.set $b (local.get $refs))
+        (block $refsDone
+          (loop $ref
+            (br_if $refsDone (i32.ge_u (local.get $r) (local.get $refCount)))
+            (local.set $acc (v128.const f32x4 0 0 0 0))
+            (local.set $a (local.get $vec))
+            (local.set $k (i32.const 0))
+            (loop $band
+              (local.set $acc
+                (f32x4.add (local.get $acc)
+                  (f32x4.mul (v128.load (local.get $a)) (v128.load (local.get $b)))))
+              (local.set $a (i32.add (local.get $a) (i32.const 16)))
+              (local.set $b (i32.add (local.get $b) (i32.const 16)))
+              (local.set $k (i32.add (local.get $k) (i32.const 1)))
+              (br_if $band (i32.lt_u (local.get $k) (i32.const 16))))
+            (f32.store (local.get $out) (call $hsum (local.get $acc)))
+            (local.set $out (i32.add (local.get $out) (i32.const 4)))
+            (local.set $r (i32.add (local.get $r) (i32.const 1)))
+            (br $ref)))
+        (local.set $vec (i32.add (local.get $vec) (i32.const 256)))
+        (local.set $p (i32.add (local.get $p) (i32.const 1)))
+        (br $pixel))))
+)
@@ -1,67 +1,133 @@
-// Message types for worker communication
+import { calculateSimilarityScores, calculateQuantizedScores, calculateChangeScores } from '../utils/similarity'
+import type { EmbeddingFormat, SimilarityQuery } from '../types'
+
+// Message types for worker communication.
+// Each worker in the pool is initialized with one contiguous range of pixels
+// (views onto shared memory, or transferred copies) and scores only those.
 
 type InitMessage = {
   type: 'init'
-  embeddings: Float32Array
+  // Unit-normalized embeddings and magnitudes, or raw Int8 codes for large grids
+  embeddings: Float32Array | null
+  magnitudes: Float32Array | null
+  codes: Int8Array | null
   mask: Uint8Array
   polygonMask: Uint8Array | null
-  width: number
-  height: number
+  // Same grid loaded for a second year, used for change detection
+  comparisonEmbeddings: Float32Array | null
+  comparisonCodes: Int8Array | null
+  comparisonMask: Uint8Array | null
+  // Band count and dequantization of both years
+  format: EmbeddingFormat
+}
+
+// Newly loaded pixels of the worker's range while a selection streams in,
+// starting at offset pixels into the range (copies; shared buffers need no update)
+type UpdateMessage = {
+  type: 'update'
+  offset: number
+  embeddings: Float32Array | null
+  magnitudes: Float32Array | null
+  codes: Int8Array | null
+  mask: Uint8Array
 }
 
 type CalculateMessage = {
   type: 'calculate'
-  refVector: Float32Array
+  // Positive and negative reference vectors plus scoring options
+  query: SimilarityQuery
   requestId: number
 }
 
-type WorkerMessage = InitMessage | CalculateMessage
+type ChangeMessage = {
+  type: 'change'
+  requestId: number
+}
+
+// Score a separate full-resolution window with its own data, leaving the
+// worker's range untouched (coarse-to-fine refinement)
+type ScoreWindowMessage = {
+  type: 'scoreWindow'
+  embeddings: Float32Array | null
+  magnitudes: Float32Array | null
+  codes: Int8Array | null
+  mask: Uint8Array
+  polygonMask: Uint8Array | null
+  format: EmbeddingFormat
+  query: SimilarityQuery
+  windowId: number
+}
+
+type WorkerMessage = InitMessage | UpdateMessage | CalculateMessage | ChangeMessage | ScoreWindowMessage
 
 export type WorkerResponse =
   | { type: 'ready' }
   | { type: 'result'; scores: Float32Array; requestId: number }
-  | { type: 'error'; message: string; requestId?: number }
+  | { type: 'windowResult'; scores: Float32Array; windowId: number }
+  | { type: 'error'; message: string; requestId?: number; windowId?: number }
 
 // Worker state
 let embeddings: Float32Array | null = null
+let magnitudes: Float32Array | null = null
+let codes: Int8Array | null = null
 let mask: Uint8Array | null = null
 let polygonMask: Uint8Array | null = null
-let width = 0
-let height = 0
+let comparisonEmbeddings: Float32Array | null = null
+let comparisonCodes: Int8Array | null = null
+let comparisonMask: Uint8Array | null = null
+let format: EmbeddingFormat | null = null
 
 /**
- * Calculate similarity between reference vector and all pixels using dot product.
- * Since embeddings are pre-normalized to unit length, dot product = cosine similarity.
+ * Calculate per-pixel change between the two loaded years
  */
-function calculateSimilarityScores(refVector: Float32Array): Float32Array {
-  if (!embeddings || !mask) {
+function changeScores(): Float32Array {
+  if ((!embeddings && !codes) || !mask || !format) {
     throw new Error('Worker not initialized')
   }
+  if ((!comparisonEmbeddings && !comparisonCodes) || !comparisonMask) {
+    throw new Error('No comparison year loaded')
+  }
 
-  const numPixels = width * height
-  const bands = 64
-  const scores = new Float32Array(numPixels)
-
-  for (let pixelIdx = 0; pixelIdx < numPixels; pixelIdx++) {
-    // Skip pixels outside polygon or masked by data
-    // mask uses 1 = valid, 0 = invalid
-    if (mask[pixelIdx] === 0 || (polygonMask && polygonMask[pixelIdx] === 0)) {
-      scores[pixelIdx] = -1 // Mark as invalid
-      continue
-    }
-
-    const baseIdx = pixelIdx * bands
-    let dotProduct = 0
-
-    // Dot product (vectors are pre-normalized to unit length)
-    for (let band = 0; band < bands; band++) {
-      dotProduct += embeddings[baseIdx + band] * refVector[band]
-    }
+  return calculateChangeScores(
+    { embeddings, codes, mask, format },
+    { embeddings: comparisonEmbeddings, codes: comparisonCodes, mask: comparisonMask, format },
+    polygonMask
+  )
+}
 
-    scores[pixelIdx] = dotProduct
+/**
+ * Score pixels held either as unit embeddings with magnitudes or as Int8 codes
+ */
+function scorePixels(
+  floats: Float32Array | null,
+  floatMagnitudes: Float32Array | null,
+  quantized: Int8Array | null,
+  validMask: Uint8Array,
+  shapeMask: Uint8Array | null,
+  codeFormat: EmbeddingFormat,
+  query: SimilarityQuery
+): Float32Array {
+  if (quantized) {
+    return calculateQuantizedScores(quantized, validMask, shapeMask, query, codeFormat)
+  }
+  if (floats && floatMagnitudes) {
+    return calculateSimilarityScores(floats, floatMagnitudes, validMask, shapeMask, query)
   }
+  throw new Error('Worker not initialized')
+}
 
-  return scores
+/**
+ * Post scores back to the main thread, transferring the buffer (zero-copy)
+ */
+function postScores(scores: Float32Array, requestId: number) {
+  self.postMessage(
+    {
+      type: 'result',
+      scores,
+      requestId,
+    } as WorkerResponse,
+    { transfer: [scores.buffer] }
+  )
 }
 
 // Message handler
@@ -71,30 +137,67 @@ self.onmessage = (e: MessageEvent<WorkerMessage>) => {
   if (message.type === 'init') {
     // Store embeddings and masks
     embeddings = message.embeddings
+    magnitudes = message.magnitudes
+    codes = message.codes
     mask = message.mask
     polygonMask = message.polygonMask
-    width = message.width
-    height = message.height
+    comparisonEmbeddings = message.comparisonEmbeddings
+    comparisonCodes = message.comparisonCodes
+    comparisonMask = message.comparisonMask
+    format = message.format
 
     self.postMessage({ type: 'ready' } as WorkerResponse)
+  } else if (message.type === 'update') {
+    const bands = format?.bands ?? 0
+    if (message.embeddings) embeddings?.set(message.embeddings, message.offset * bands)
+    if (message.magnitudes) magnitudes?.set(message.magnitudes, message.offset)
+    if (message.codes) codes?.set(message.codes, message.offset * bands)
+    mask?.set(message.mask, message.offset)
   } else if (message.type === 'calculate') {
     try {
-      const scores = calculateSimilarityScores(message.refVector)
-
-      // Transfer scores back (zero-copy)
+      if (!mask || !format) {
+        throw new Error('Worker not initialized')
+      }
+      const scores = scorePixels(embeddings, magnitudes, codes, mask, polygonMask, format, message.query)
+      postScores(scores, message.requestId)
+    } catch (err) {
+      self.postMessage({
+        type: 'error',
+        message: err instanceof Error ? err.message : 'Calculation failed',
+        requestId: message.requestId,
+      } as WorkerResponse)
+    }
+  } else if (message.type === 'change') {
+    try {
+      const scores = changeScores()
+      postScores(scores, message.requestId)
+    } catch (err) {
+      self.postMessage({
+        type: 'error',
+        message: err instanceof Error ? err.message : 'Change detection failed',
+        requestId: message.requestId,
+      } as WorkerResponse)
+    }
+  } else if (message.type === 'scoreWindow') {
+    try {
+      const scores = scorePixels(
+        message.embeddings,
+        message.magnitudes,
+        message.codes,
+        message.mask,
+        message.polygonMask,
+        message.format,
+        message.query
+      )
       self.postMessage(
-        {
-          type: 'result',
-          scores,
-          requestId: message.requestId,
-        } as WorkerResponse,
+        { type: 'windowResult', scores, windowId: message.windowId } as WorkerResponse,
         { transfer: [scores.buffer] }
       )
     } catch (err) {
       self.postMessage({
         type: 'error',
         message: err instanceof Error ? err.message : 'Calculation failed',
-        requestId: message.requestId,
+        windowId: message.windowId,
       } as WorkerResponse)
     }
   }
@@ -1,8 +1,18 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// Cross-origin isolation enables SharedArrayBuffer, so the similarity worker
+// pool can share embeddings instead of copying them. Hosts that can't set these
+// headers (e.g. GitHub Pages) fall back to transferring copies.
+const crossOriginIsolationHeaders = {
+  'Cross-Origin-Opener-Policy': 'same-origin',
+  'Cross-Origin-Embedder-Policy': 'credentialless',
+}
+
 // https://vite.dev/config/
 export default defineConfig({
   base: '/AlphaEarthSimilarity/',
   plugins: [react()],
+  server: { headers: crossOriginIsolationHeaders },
+  preview: { headers: crossOriginIsolationHeaders },
 })